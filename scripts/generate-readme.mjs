@@ -115,6 +115,12 @@ function formatOutputs(outputs) {
   return lines.join('\n');
 }
 
+function formatStructuredOutput(outputSchema) {
+  const props = outputSchema?.properties;
+  if (!props || Object.keys(props).length === 0) return '';
+  return `- Structured Output (structuredContent): ${Object.keys(props).map(k => `\`${k}\``).join(', ')}`;
+}
+
 function formatExampleOutputs(exampleOutputs) {
   if (!exampleOutputs || exampleOutputs.length === 0) return '';
   const parts = [];
@@ -149,6 +155,11 @@ function generateCoreToolsSection(grouped) {
         lines.push('');
         lines.push(outputs);
       }
+      const structured = formatStructuredOutput(t.meta.outputSchema);
+      if (structured) {
+        lines.push('');
+        lines.push(structured);
+      }
       const examples = formatExamples(t.meta.examples);
       if (examples) {
         lines.push('');
@@ -181,7 +192,7 @@ async function run() {
   }
 
   // Sort categories with configurable preferred order and 'Other' last
-  let preferred = ['Inspection', 'Navigation', 'Interaction', 'Content', 'Console', 'Evaluation', 'Network', 'Waiting', 'Lifecycle'];
+  let preferred = ['Inspection', 'Navigation', 'Tabs', 'Contexts', 'Interaction', 'Content', 'Console', 'Evaluation', 'Network', 'Performance', 'Waiting', 'Lifecycle'];
   const orderFileCandidates = [
     resolve(process.cwd(), 'scripts/tool-order.json'),
     resolve(process.cwd(), 'tool-order.json'),
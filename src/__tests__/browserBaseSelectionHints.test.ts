@@ -51,6 +51,12 @@ describe('BrowserToolBase selection hints', () => {
     expect(info).toContain('Test IDs should be unique');
   });
 
+  test('formatElementSelectionInfo suggests narrowing user-facing selectors', () => {
+    const info = tool.selectionInfo('label:Email', 0, 2);
+    expect(info).toContain('case-insensitive substrings');
+    expect(info).toContain('label:"Email"');
+  });
+
   test('formatElementSelectionInfo omits extras when only one element matches', () => {
     const info = tool.selectionInfo('text=Unique Button', 0, 1);
     expect(info).toBe('');
@@ -86,6 +92,36 @@ describe('BrowserToolBase selector normalization', () => {
     });
   });
 
+  describe('user-facing shorthands', () => {
+    test('converts role: shorthand to the role engine', () => {
+      expect(tool.normalize('role:button[name="Save"]')).toBe('role=button[name="Save"]');
+      expect(tool.normalize('role:heading[level=2]')).toBe('role=heading[level=2]');
+    });
+
+    test('converts label: shorthand with substring and exact matching', () => {
+      expect(tool.normalize('label:Email')).toBe('internal:label="Email"i');
+      expect(tool.normalize('label:"Email address"')).toBe('internal:label="Email address"s');
+    });
+
+    test('converts placeholder:, alt: and title: shorthands to attribute matches', () => {
+      expect(tool.normalize('placeholder:Search')).toBe('internal:attr=[placeholder="Search"i]');
+      expect(tool.normalize('alt:Logo')).toBe('internal:attr=[alt="Logo"i]');
+      expect(tool.normalize('title:Close')).toBe('internal:attr=[title="Close"i]');
+    });
+
+    test('normalizes each segment of chained selectors', () => {
+      expect(tool.normalize('testid:signup >> role:button[name="Save"]')).toBe('[data-testid="signup"] >> role=button[name="Save"]');
+      expect(tool.normalize('label:Email >> nth=1')).toBe('internal:label="Email"i >> nth=1');
+    });
+
+    test('keeps CSS pseudo-classes on label and title elements', () => {
+      expect(tool.normalize('label:hover')).toBe('label:hover');
+      expect(tool.normalize('label:first-child')).toBe('label:first-child');
+      expect(tool.normalize('label:not(.hidden)')).toBe('label:not(.hidden)');
+      expect(tool.normalize('title::before')).toBe('title::before');
+    });
+  });
+
   describe('escape character normalization', () => {
     test('preserves single backslash before brackets', () => {
       expect(tool.normalize('.top-\\[36px\\]')).toBe('.top-\\[36px\\]');
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ConfigError, CONFIG_FILE_NAME, loadConfig, mergeConfigs, toSessionConfig, validateConfig } from '../config.js';
+
+const DEVICES = ['iphone-14', 'desktop-1080p'];
+
+describe('config', () => {
+  let dir: string;
+  let userFile: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'wi-config-'));
+    mkdirSync(join(dir, 'user'));
+    userFile = join(dir, 'user', CONFIG_FILE_NAME);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const load = (options: Partial<Parameters<typeof loadConfig>[0]> = {}) =>
+    loadConfig({ cwd: dir, env: {}, userConfigFile: userFile, knownDevices: DEVICES, ...options });
+
+  it('uses built-in defaults without files', () => {
+    const { config, sources } = load();
+    expect(sources).toEqual([]);
+    const session = toSessionConfig(config);
+    expect(session).toMatchObject({
+      saveSession: true,
+      userDataDir: './.mcp-web-inspector/user-data',
+      headlessDefault: false,
+      defaultBrowserType: 'chromium',
+      timeouts: { navigation: 30000, waitForElement: 10000, networkIdle: 10000 },
+      testIdAttributes: ['data-testid', 'data-test', 'data-cy'],
+      outputLimits: { maxLength: 20000, previewThreshold: 2000, networkRequestLimit: 50 },
+      networkCapture: { logSize: 1000, maxBodySize: 1048576 },
+    });
+  });
+
+  it('layers user file < project file < env < CLI', () => {
+    writeFileSync(userFile, JSON.stringify({ headless: true, timeouts: { navigation: 60000, networkIdle: 5000 }, browser: { type: 'firefox' } }));
+    writeFileSync(join(dir, CONFIG_FILE_NAME), JSON.stringify({ timeouts: { navigation: 45000 }, testIdAttributes: ['data-qa'] }));
+
+    const { config, sources } = load({
+      env: { MCP_WEB_INSPECTOR_BROWSER: 'webkit', MCP_WEB_INSPECTOR_HEADLESS: 'false' },
+      cli: { headless: true },
+    });
+    expect(sources).toEqual([userFile, join(dir, CONFIG_FILE_NAME)]);
+    expect(config.timeouts).toEqual({ navigation: 45000, networkIdle: 5000 });
+    expect(config.testIdAttributes).toEqual(['data-qa']);
+    expect(config.browser?.type).toBe('webkit');
+    expect(config.headless).toBe(true);
+  });
+
+  it('resolves userDataDir relative to the config file', () => {
+    writeFileSync(join(dir, CONFIG_FILE_NAME), JSON.stringify({ userDataDir: 'profile' }));
+    expect(toSessionConfig(load().config).userDataDir).toBe(`${join(dir, 'profile')}/user-data`);
+  });
+
+  it('reports every problem with its source', () => {
+    const projectFile = join(dir, CONFIG_FILE_NAME);
+    writeFileSync(projectFile, JSON.stringify({
+      browser: { type: 'edge', device: 'nokia-3310' },
+      timeouts: { navigation: -1 },
+      output: { maxLenght: 100 },
+      network: { logSize: 0 },
+    }));
+
+    let error: unknown;
+    try {
+      load({ env: { MCP_WEB_INSPECTOR_HEADLESS: 'maybe' } });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ConfigError);
+    const problems = (error as ConfigError).problems;
+    expect(problems).toEqual([
+      `${projectFile}: browser.type must be one of: chromium, firefox, webkit`,
+      `${projectFile}: browser.device "nokia-3310" is not a device preset (expected one of: iphone-14, desktop-1080p)`,
+      `${projectFile}: timeouts.navigation must be a positive integer`,
+      `${projectFile}: output.maxLenght is not a known option (expected one of: maxLength, previewThreshold, networkRequestLimit)`,
+      `${projectFile}: network.logSize must be a positive integer`,
+      'env MCP_WEB_INSPECTOR_HEADLESS: must be true or false (got "maybe")',
+    ]);
+  });
+
+  it('reports unreadable JSON and a missing --config file', () => {
+    writeFileSync(userFile, '{ nope');
+    expect(() => load({ configPath: 'missing.json' })).toThrow(ConfigError);
+    try {
+      load({ configPath: 'missing.json' });
+    } catch (e) {
+      const problems = (e as ConfigError).problems;
+      expect(problems[0]).toContain(userFile);
+      expect(problems[1]).toBe(`--config: ${join(dir, 'missing.json')} does not exist`);
+    }
+  });
+
+  it('merges sections key by key and replaces lists and viewports', () => {
+    expect(mergeConfigs(
+      { browser: { type: 'firefox', viewport: { width: 800, height: 600 } }, redaction: { headers: ['x-a'] } },
+      { browser: { viewport: { width: 1024, height: 768 } }, redaction: { headers: ['x-b'] } },
+    )).toEqual({
+      browser: { type: 'firefox', viewport: { width: 1024, height: 768 } },
+      redaction: { headers: ['x-b'] },
+    });
+  });
+
+  it('accepts a valid file as is', () => {
+    const raw = { $schema: './schema.json', browser: { device: 'iphone-14', viewport: { width: 390, height: 844 } }, redaction: { headers: ['X-Tenant'] } };
+    expect(validateConfig(raw, 'file', DEVICES).problems).toEqual([]);
+  });
+
+  it('validates the redaction section', () => {
+    expect(validateConfig({ redaction: { enabled: 'no', patterns: ['jwt', 'ssn'], jsonPaths: 'password' } }, 'file').problems).toEqual([
+      'file: redaction.enabled must be true or false',
+      'file: redaction.jsonPaths must be a list of non-empty strings',
+    ]);
+    expect(validateConfig({ redaction: { patterns: ['jwt', 'ssn'] } }, 'file').problems).toEqual([
+      'file: redaction.patterns "ssn" is not a built-in pattern (expected one of: jwt, bearer, email, credit-card)',
+    ]);
+  });
+
+  it('validates the tools section', () => {
+    expect(validateConfig({ tools: { profile: 'admin', include: 'click' } }, 'file').problems).toEqual([
+      'file: tools.profile must be one of: readonly, interactive, full',
+      'file: tools.include must be a list of non-empty strings',
+    ]);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { isAuthorized, startHttpServer, RunningHttpServer } from '../httpServer.js';
+
+const initializeBody = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+
+const headers = (extra: Record<string, string> = {}) => ({
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream',
+  ...extra,
+});
+
+function createMcpServer(): Server {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+  return server;
+}
+
+describe('isAuthorized', () => {
+  it('allows every request when no token is configured', () => {
+    expect(isAuthorized(undefined, undefined)).toBe(true);
+  });
+
+  it('requires a matching bearer token', () => {
+    expect(isAuthorized('Bearer secret', 'secret')).toBe(true);
+    expect(isAuthorized('bearer secret', 'secret')).toBe(true);
+    expect(isAuthorized('Bearer wrong!', 'secret')).toBe(false);
+    expect(isAuthorized('secret', 'secret')).toBe(false);
+    expect(isAuthorized(undefined, 'secret')).toBe(false);
+  });
+});
+
+describe('startHttpServer', () => {
+  let running: RunningHttpServer | undefined;
+
+  afterEach(async () => {
+    await running?.close();
+    running = undefined;
+  });
+
+  it('assigns a session id on initialize and routes later requests to it', async () => {
+    running = await startHttpServer({ port: 0, host: '127.0.0.1', createMcpServer });
+
+    const init = await fetch(running.url, { method: 'POST', headers: headers(), body: JSON.stringify(initializeBody) });
+    expect(init.status).toBe(200);
+    const sessionId = init.headers.get('mcp-session-id');
+    expect(sessionId).toBeTruthy();
+    await init.text();
+    expect(running.sessionCount()).toBe(1);
+
+    const list = await fetch(running.url, {
+      method: 'POST',
+      headers: headers({ 'mcp-session-id': sessionId!, 'mcp-protocol-version': '2025-06-18' }),
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }),
+    });
+    expect(list.status).toBe(200);
+    expect(await list.text()).toContain('"tools":[]');
+  });
+
+  it('gives each client its own session', async () => {
+    running = await startHttpServer({ port: 0, host: '127.0.0.1', createMcpServer });
+
+    const first = await fetch(running.url, { method: 'POST', headers: headers(), body: JSON.stringify(initializeBody) });
+    const second = await fetch(running.url, { method: 'POST', headers: headers(), body: JSON.stringify(initializeBody) });
+    await Promise.all([first.text(), second.text()]);
+
+    expect(first.headers.get('mcp-session-id')).not.toBe(second.headers.get('mcp-session-id'));
+    expect(running.sessionCount()).toBe(2);
+  });
+
+  it('rejects requests without a session unless they initialize', async () => {
+    running = await startHttpServer({ port: 0, host: '127.0.0.1', createMcpServer });
+
+    const res = await fetch(running.url, {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }),
+    });
+    expect(res.status).toBe(400);
+
+    const unknown = await fetch(running.url, {
+      method: 'POST',
+      headers: headers({ 'mcp-session-id': 'does-not-exist' }),
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }),
+    });
+    expect(unknown.status).toBe(404);
+  });
+
+  it('enforces the bearer token when configured', async () => {
+    running = await startHttpServer({ port: 0, host: '127.0.0.1', authToken: 'secret', createMcpServer });
+
+    const denied = await fetch(running.url, { method: 'POST', headers: headers(), body: JSON.stringify(initializeBody) });
+    expect(denied.status).toBe(401);
+    expect(denied.headers.get('www-authenticate')).toBe('Bearer');
+
+    const allowed = await fetch(running.url, {
+      method: 'POST',
+      headers: headers({ Authorization: 'Bearer secret' }),
+      body: JSON.stringify(initializeBody),
+    });
+    expect(allowed.status).toBe(200);
+    await allowed.text();
+  });
+
+  it('releases a session when the client deletes it', async () => {
+    const closed: string[] = [];
+    running = await startHttpServer({ port: 0, host: '127.0.0.1', createMcpServer, onSessionClosed: (id) => { closed.push(id); } });
+
+    const init = await fetch(running.url, { method: 'POST', headers: headers(), body: JSON.stringify(initializeBody) });
+    const sessionId = init.headers.get('mcp-session-id')!;
+    await init.text();
+
+    const del = await fetch(running.url, {
+      method: 'DELETE',
+      headers: headers({ 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-06-18' }),
+    });
+    expect(del.status).toBe(200);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(closed).toEqual([sessionId]);
+    expect(running.sessionCount()).toBe(0);
+  });
+
+  it('closes idle sessions', async () => {
+    const closed: string[] = [];
+    running = await startHttpServer({
+      port: 0,
+      host: '127.0.0.1',
+      createMcpServer,
+      idleTimeoutMs: 200,
+      onSessionClosed: (id) => { closed.push(id); },
+    });
+
+    const init = await fetch(running.url, { method: 'POST', headers: headers(), body: JSON.stringify(initializeBody) });
+    await init.text();
+    expect(running.sessionCount()).toBe(1);
+
+    await new Promise(resolve => setTimeout(resolve, 1500));
+    expect(running.sessionCount()).toBe(0);
+    expect(closed).toEqual([init.headers.get('mcp-session-id')]);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import { getPrompt, getPromptToolNames, listPrompts } from '../prompts.js';
+import { createToolDefinitions } from '../tools/common/registry.js';
+
+const registeredTools = new Set(createToolDefinitions().map(tool => tool.name));
+const textOf = (result: ReturnType<typeof getPrompt>) => (result.messages[0].content as { text: string }).text;
+
+describe('prompts', () => {
+  it('lists the built-in workflows with their arguments', () => {
+    const prompts = listPrompts();
+    expect(prompts.map(p => p.name)).toEqual(['debug-layout', 'investigate-failing-click', 'audit-page', 'diagnose-api-error']);
+    expect(prompts.find(p => p.name === 'audit-page')!.arguments).toEqual([
+      { name: 'url', description: 'Page to audit', required: true },
+    ]);
+  });
+
+  it('only references registered tools', () => {
+    for (const { name } of listPrompts()) {
+      for (const args of [{}, { compareWith: '#other' }]) {
+        for (const tool of getPromptToolNames(name, args)) {
+          expect(registeredTools).toContain(tool);
+        }
+      }
+    }
+  });
+
+  it('expands arguments into concrete tool calls', () => {
+    const text = textOf(getPrompt('debug-layout', { selector: 'testid:card', compareWith: '#sidebar' }, registeredTools));
+    expect(text).toContain('1. inspect_dom({ selector: "testid:card" })');
+    expect(text).toContain('compare_element_alignment({ selector1: "testid:card", selector2: "#sidebar" })');
+    expect(text).not.toContain('get_computed_styles');
+  });
+
+  it('leaves out steps for tools the server does not expose', () => {
+    const available = new Set(Array.from(registeredTools).filter(name => name !== 'mock_route'));
+    const text = textOf(getPrompt('diagnose-api-error', { urlPattern: '/api/orders' }, available));
+    expect(text).not.toMatch(/\bmock_route/);
+    expect(text).toContain('get_request_details');
+  });
+
+  it('rejects unknown prompts and missing arguments', () => {
+    expect(() => getPrompt('nope', {}, registeredTools)).toThrow('Prompt not found: nope');
+    expect(() => getPrompt('audit-page', {}, registeredTools)).toThrow('Missing required argument "url"');
+  });
+});
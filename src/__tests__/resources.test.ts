@@ -0,0 +1,65 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  listResources,
+  listResourceTemplates,
+  notifyResourcesUpdated,
+  readResource,
+  subscribeResource,
+  unsubscribeResource,
+} from '../resources.js';
+import { deleteSession, runInSession } from '../session.js';
+
+function fakeServer() {
+  return { sendResourceUpdated: jest.fn(async (_params: { uri: string }) => {}) } as any;
+}
+
+describe('resources', () => {
+  it('lists the fixed resources and templates', async () => {
+    const uris = (await listResources()).map(r => r.uri);
+    expect(uris).toEqual(expect.arrayContaining(['console://logs', 'network://requests', 'page://html', 'page://text', 'page://url']));
+    expect(listResourceTemplates().map(t => t.uriTemplate)).toEqual(
+      expect.arrayContaining(['network://requests/{index}', 'console://tabs/{tabId}'])
+    );
+  });
+
+  it('reads the network log as JSON without a browser', async () => {
+    const result = await readResource('network://requests');
+    expect(result.contents[0].mimeType).toBe('application/json');
+    expect(JSON.parse(result.contents[0].text as string)).toEqual([]);
+  });
+
+  it('reports missing requests, pages and unknown URIs', async () => {
+    await expect(readResource('network://requests/3')).rejects.toThrow('no request with index 3');
+    await expect(readResource('network://requests/abc')).rejects.toThrow('Resource not found');
+    await expect(readResource('page://html')).rejects.toThrow('No page is open');
+    await expect(readResource('nope://x')).rejects.toThrow('Resource not found: nope://x');
+  });
+});
+
+describe('resource subscriptions', () => {
+  it('notifies only subscribed URIs', () => {
+    const server = fakeServer();
+    runInSession('sub', () => {
+      subscribeResource(server, 'console://logs');
+      notifyResourcesUpdated(['console://logs', 'network://requests']);
+    });
+    expect(server.sendResourceUpdated).toHaveBeenCalledTimes(1);
+    expect(server.sendResourceUpdated).toHaveBeenCalledWith({ uri: 'console://logs' });
+
+    runInSession('sub', () => {
+      unsubscribeResource('console://logs');
+      notifyResourcesUpdated(['console://logs']);
+    });
+    expect(server.sendResourceUpdated).toHaveBeenCalledTimes(1);
+    deleteSession('sub');
+  });
+
+  it('keeps subscriptions per client session', () => {
+    const server = fakeServer();
+    runInSession('subscriber', () => subscribeResource(server, 'network://requests'));
+    runInSession('bystander', () => notifyResourcesUpdated(['network://requests']));
+    expect(server.sendResourceUpdated).not.toHaveBeenCalled();
+    deleteSession('subscriber');
+    deleteSession('bystander');
+  });
+});
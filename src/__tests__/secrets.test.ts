@@ -0,0 +1,84 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  clearResolvedSecrets,
+  configureSecrets,
+  isSecretRef,
+  maskSecrets,
+  maskSecretsInResult,
+  resolveSecretRef,
+} from '../secrets.js';
+
+describe('secrets', () => {
+  afterEach(() => {
+    configureSecrets({});
+    clearResolvedSecrets();
+  });
+
+  it('recognizes secret references', () => {
+    expect(isSecretRef('secret:STAGING_PASSWORD')).toBe(true);
+    expect(isSecretRef('password')).toBe(false);
+    expect(isSecretRef(undefined)).toBe(false);
+  });
+
+  it('resolves from the secrets file, prefixed env vars and listed env vars', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'wi-secrets-'));
+    try {
+      const file = join(dir, '.secrets');
+      writeFileSync(file, '# staging\nexport STAGING_PASSWORD="from-file"\n');
+      configureSecrets({ file, env: ['CI_TOKEN'] });
+      const env = { MCP_WEB_INSPECTOR_SECRET_API_KEY: 'from-env', CI_TOKEN: 'listed', HOME_TOKEN: 'unlisted' };
+
+      expect(resolveSecretRef('secret:STAGING_PASSWORD', env).value).toBe('from-file');
+      expect(resolveSecretRef('secret:API_KEY', env).value).toBe('from-env');
+      expect(resolveSecretRef('secret:CI_TOKEN', env).value).toBe('listed');
+      expect(() => resolveSecretRef('secret:HOME_TOKEN', env)).toThrow(
+        `Secret "HOME_TOKEN" is not defined. Looked in the secrets file ${file}, the MCP_WEB_INSPECTOR_SECRET_HOME_TOKEN environment variable, the listed environment variables (CI_TOKEN).`
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reads JSON secrets files and rejects malformed references', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'wi-secrets-'));
+    try {
+      const file = join(dir, 'secrets.json');
+      writeFileSync(file, JSON.stringify({ ADMIN: 'json-value' }));
+      configureSecrets({ file });
+      expect(resolveSecretRef('secret:ADMIN', {}).value).toBe('json-value');
+      expect(() => resolveSecretRef('secret:not valid', {})).toThrow('Invalid secret reference');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('masks resolved values in plain, URL-encoded and JSON-escaped form', () => {
+    expect(maskSecrets('nothing resolved yet')).toBe('nothing resolved yet');
+    resolveSecretRef('secret:PW', { MCP_WEB_INSPECTOR_SECRET_PW: 'p@ss "word"' });
+
+    expect(maskSecrets('typed p@ss "word" here')).toBe('typed [secret:PW] here');
+    expect(maskSecrets('user=a&password=p%40ss+%22word%22')).toBe('user=a&password=[secret:PW]');
+    expect(maskSecrets('{"password":"p@ss \\"word\\""}')).toBe('{"password":"[secret:PW]"}');
+  });
+
+  it('masks tool results but leaves image data alone', () => {
+    resolveSecretRef('secret:PW', { MCP_WEB_INSPECTOR_SECRET_PW: 'hunter2-staging' });
+    const result = {
+      content: [
+        { type: 'text', text: 'value="hunter2-staging"' },
+        { type: 'image', data: 'hunter2-staging', mimeType: 'image/png' },
+      ],
+      structuredContent: { rows: [{ body: 'hunter2-staging' }] },
+    };
+    expect(maskSecretsInResult(result)).toEqual({
+      content: [
+        { type: 'text', text: 'value="[secret:PW]"' },
+        { type: 'image', data: 'hunter2-staging', mimeType: 'image/png' },
+      ],
+      structuredContent: { rows: [{ body: '[secret:PW]' }] },
+    });
+  });
+});
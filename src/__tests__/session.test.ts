@@ -0,0 +1,89 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_SESSION_ID,
+  bindToSession,
+  deleteSession,
+  getCurrentSession,
+  getSessionSlot,
+  listSessionIds,
+  runInSession,
+} from '../session.js';
+import { registerPayloadThunk, consumeThunk } from '../tools/common/confirm_output.js';
+import { getToolInstance } from '../tools/common/registry.js';
+import { ClearConsoleLogsTool, GetConsoleLogsTool } from '../tools/browser/console/get_console_logs.js';
+import type { ToolContext } from '../tools/common/types.js';
+
+describe('client sessions', () => {
+  it('uses the default session outside of a call', () => {
+    expect(getCurrentSession().id).toBe(DEFAULT_SESSION_ID);
+    expect(runInSession(undefined, () => getCurrentSession().id)).toBe(DEFAULT_SESSION_ID);
+  });
+
+  it('keeps slots separate per session', () => {
+    runInSession('a', () => getSessionSlot('counter', () => ({ value: 0 })).value++);
+    runInSession('a', () => getSessionSlot('counter', () => ({ value: 0 })).value++);
+    const a = runInSession('a', () => getSessionSlot('counter', () => ({ value: 0 })).value);
+    const b = runInSession('b', () => getSessionSlot('counter', () => ({ value: 0 })).value);
+    expect(a).toBe(2);
+    expect(b).toBe(0);
+    deleteSession('a');
+    deleteSession('b');
+  });
+
+  it('keeps the session across awaits', async () => {
+    const id = await runInSession('async', async () => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return getCurrentSession().id;
+    });
+    expect(id).toBe('async');
+    deleteSession('async');
+  });
+
+  it('binds callbacks to the session they were created in', () => {
+    const callback = runInSession('bound', () => bindToSession(() => getCurrentSession().id));
+    expect(callback()).toBe('bound');
+    expect(runInSession('other', () => callback())).toBe('bound');
+    deleteSession('bound');
+    deleteSession('other');
+  });
+
+  it('forgets deleted sessions', () => {
+    runInSession('gone', () => getSessionSlot('x', () => 1));
+    expect(listSessionIds()).toContain('gone');
+    deleteSession('gone');
+    expect(listSessionIds()).not.toContain('gone');
+    expect(runInSession('gone', () => getSessionSlot('x', () => 2))).toBe(2);
+    deleteSession('gone');
+  });
+
+  it('does not share confirm_output tokens between sessions', () => {
+    const token = runInSession('owner', () => registerPayloadThunk(() => 'payload'));
+    expect(runInSession('intruder', () => consumeThunk(token)).ok).toBe(false);
+    expect(runInSession('owner', () => consumeThunk(token)).ok).toBe(true);
+    deleteSession('owner');
+    deleteSession('intruder');
+  });
+
+  it('gives each session its own tool instances', () => {
+    const first = runInSession('one', () => getToolInstance('get_console_logs', null));
+    const again = runInSession('one', () => getToolInstance('get_console_logs', null));
+    const second = runInSession('two', () => getToolInstance('get_console_logs', null));
+    expect(first).toBe(again);
+    expect(first).not.toBe(second);
+    deleteSession('one');
+    deleteSession('two');
+  });
+
+  it('clears console logs of the calling session only', async () => {
+    const logs = () => getToolInstance('get_console_logs', null) as GetConsoleLogsTool;
+    runInSession('a', () => logs().registerConsoleMessage('log', 'from a'));
+    runInSession('b', () => logs().registerConsoleMessage('log', 'from b'));
+
+    const result = await runInSession('a', () => new ClearConsoleLogsTool(null).execute({}, {} as ToolContext));
+    expect(result.content[0].text).toBe('Cleared 1 console log(s)');
+    expect(runInSession('a', () => logs().getConsoleLogs())).toEqual([]);
+    expect(runInSession('b', () => logs().getConsoleLogs())).toEqual(['[log] from b']);
+    deleteSession('a');
+    deleteSession('b');
+  });
+});
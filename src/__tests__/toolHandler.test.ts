@@ -61,14 +61,21 @@ jest.mock('playwright', () => {
     locator: mockLocator,
     isClosed: mockIsClosed,
     addInitScript: jest.fn(),
+    route: jest.fn().mockImplementation(() => Promise.resolve()),
+    opener: jest.fn().mockImplementation(() => Promise.resolve(null)),
+    bringToFront: jest.fn().mockImplementation(() => Promise.resolve()),
     setViewportSize: mockSetViewportSize,
     viewportSize: mockViewportSize
   };
 
   const mockNewPage = jest.fn().mockImplementation(() => Promise.resolve(mockPage));
   const mockContexts = jest.fn().mockReturnValue([]);
+  // Tab tracking listens for new pages and adopts the existing ones
   const mockContext = {
-    newPage: mockNewPage
+    newPage: mockNewPage,
+    on: jest.fn(),
+    pages: jest.fn().mockReturnValue([]),
+    route: jest.fn().mockImplementation(() => Promise.resolve())
   };
 
   const mockNewContext = jest.fn().mockImplementation(() => Promise.resolve(mockContext));
@@ -1,4 +1,4 @@
-import { createToolDefinitions, getBrowserToolNames } from '../tools/common/registry.js';
+import { configureToolAccess, createToolDefinitions, executeTool, getBrowserToolNames } from '../tools/common/registry.js';
 
 describe('Tool Definitions', () => {
   const toolDefinitions = createToolDefinitions();
@@ -18,6 +18,21 @@ describe('Tool Definitions', () => {
     });
   });
 
+  test('declared output schemas should describe an object', () => {
+    const withOutput = toolDefinitions.filter(tool => tool.outputSchema);
+    expect(withOutput.map(tool => tool.name)).toEqual(
+      expect.arrayContaining([
+        'inspect_dom', 'check_visibility', 'measure_element', 'list_network_requests',
+        'get_request_details', 'get_console_logs', 'get_computed_styles', 'query_selector', 'get_test_ids',
+        'get_performance_metrics', 'list_tabs', 'list_contexts', 'list_routes', 'audit_accessibility', 'check_contrast',
+      ])
+    );
+    withOutput.forEach(tool => {
+      expect(tool.outputSchema!.type).toBe('object');
+      expect(tool.outputSchema).toHaveProperty('properties');
+    });
+  });
+
   test('browser tool list should contain registered tool names', () => {
     const browserTools = getBrowserToolNames();
     expect(Array.isArray(browserTools)).toBe(true);
@@ -80,26 +95,40 @@ describe('Tool Definitions', () => {
     expect(waitForNetworkIdleTool!.inputSchema.required).toEqual([]);
   });
 
-  test('should have 33 tools registered as browser tools', () => {
+  test('browser tools should accept an optional context name', () => {
+    const clickTool = toolDefinitions.find(tool => tool.name === 'click');
+    expect(clickTool!.inputSchema.properties).toHaveProperty('context');
+    expect(clickTool!.inputSchema.required).toEqual(['selector']);
+
+    const closeTool = toolDefinitions.find(tool => tool.name === 'close');
+    expect(closeTool!.inputSchema.properties).not.toHaveProperty('context');
+    const confirmTool = toolDefinitions.find(tool => tool.name === 'confirm_output');
+    expect(confirmTool!.inputSchema.properties).not.toHaveProperty('context');
+  });
+
+  test('should have 53 tools registered as browser tools', () => {
     const browserTools = getBrowserToolNames();
-    expect(browserTools.length).toBe(33);
+    expect(browserTools.length).toBe(53);
   });
 
-  test('should have all tool definitions available (34 total incl. confirm tool)', () => {
+  test('should have all tool definitions available (54 total incl. confirm tool)', () => {
     // Removed HTTP API, codegen, iframe, and other unused tools; includes confirm_output
-    expect(toolDefinitions.length).toBe(34);
+    expect(toolDefinitions.length).toBe(54);
   });
 
   test('browser tool list should only contain web inspection tools', () => {
     const browserTools = getBrowserToolNames();
     const expectedTools = [
-      'navigate', 'go_history', 'scroll_to_element', 'scroll_by', 'visual_screenshot_for_humans', 'close',
+      'navigate', 'go_history', 'scroll_to_element', 'scroll_by', 'visual_screenshot_for_humans', 'close', 'connect_browser',
       'inspect_dom', 'inspect_ancestors', 'get_test_ids', 'query_selector', 'find_by_text',
       'check_visibility', 'compare_element_alignment', 'element_exists',
-      'get_computed_styles', 'measure_element', 'get_text', 'get_html', 'get_console_logs', 'clear_console_logs',
+      'get_computed_styles', 'measure_element', 'audit_accessibility', 'check_contrast', 'inspect_accessibility_tree', 'get_text', 'get_html', 'get_console_logs', 'clear_console_logs',
       'click', 'fill', 'hover', 'select', 'upload_file', 'drag', 'press_key',
-      'evaluate', 'wait_for_element', 'wait_for_network_idle', 'list_network_requests', 'get_request_details',
-      'set_color_scheme'
+      'evaluate', 'wait_for_element', 'wait_for_network_idle', 'list_network_requests', 'get_request_details', 'search_network_bodies',
+      'mock_route', 'unmock_route', 'list_routes', 'export_har', 'replay_har',
+      'get_performance_metrics', 'start_profiling', 'stop_profiling',
+      'set_color_scheme', 'list_tabs', 'new_tab', 'switch_tab', 'close_tab',
+      'create_context', 'list_contexts', 'destroy_context'
     ];
 
     expect(browserTools.sort()).toEqual(expectedTools.sort());
@@ -116,4 +145,53 @@ describe('Tool Definitions', () => {
       expect(browserTools.includes(toolName)).toBe(false);
     });
   });
-}); 
+});
+
+describe('Tool access', () => {
+  const listedNames = () => createToolDefinitions().map(tool => tool.name);
+  const totalTools = createToolDefinitions().length;
+
+  afterEach(() => configureToolAccess({}));
+
+  test('readonly profile hides tools that act on the page', () => {
+    configureToolAccess({ profile: 'readonly' });
+    const names = listedNames();
+    expect(names).toEqual(expect.arrayContaining(['navigate', 'inspect_dom', 'get_request_details', 'confirm_output']));
+    for (const name of ['evaluate', 'click', 'fill', 'upload_file', 'mock_route', 'connect_browser', 'export_har', 'start_profiling', 'stop_profiling']) {
+      expect(names).not.toContain(name);
+    }
+  });
+
+  test('interactive profile adds input tools but not evaluate', () => {
+    configureToolAccess({ profile: 'interactive' });
+    const names = listedNames();
+    expect(names).toEqual(expect.arrayContaining(['click', 'fill', 'press_key', 'export_har', 'start_profiling', 'stop_profiling']));
+    expect(names).not.toContain('evaluate');
+  });
+
+  test('explicit lists combine with profiles', () => {
+    configureToolAccess({ tools: ['inspect_dom', 'get_text'] });
+    expect(listedNames().sort()).toEqual(['confirm_output', 'get_text', 'inspect_dom']);
+
+    configureToolAccess({ profile: 'readonly', tools: ['evaluate'], excludeTools: ['get_html'] });
+    expect(listedNames()).toContain('evaluate');
+    expect(listedNames()).not.toContain('get_html');
+
+    configureToolAccess({ excludeTools: ['evaluate'] });
+    expect(listedNames()).toHaveLength(totalTools - 1);
+  });
+
+  test('refuses disabled tools with a clear message', async () => {
+    configureToolAccess({ profile: 'readonly' });
+    const result = await executeTool('evaluate', { script: '1' }, {}, null);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe(
+      'Tool "evaluate" is disabled on this server (profile "readonly"). Use one of the tools from tools/list instead.'
+    );
+  });
+
+  test('rejects unknown profiles and tool names', () => {
+    expect(() => configureToolAccess({ profile: 'admin' as any })).toThrow('Unknown tool profile "admin"');
+    expect(() => configureToolAccess({ tools: ['evaluat'] })).toThrow('Unknown tool name(s): evaluat');
+  });
+});
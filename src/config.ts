@@ -0,0 +1,399 @@
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, isAbsolute, join, resolve } from "node:path";
+import type { SessionConfig } from "./tools/common/types.js";
+import type { ToolProfile } from "./tools/common/registry.js";
+import { validateRedactionRules, type BuiltInPattern } from "./redaction.js";
+
+export const CONFIG_FILE_NAME = "web-inspector.config.json";
+
+type BrowserType = "chromium" | "firefox" | "webkit";
+const TOOL_PROFILE_NAMES: ToolProfile[] = ["readonly", "interactive", "full"];
+const BROWSER_TYPES: BrowserType[] = ["chromium", "firefox", "webkit"];
+
+/**
+ * Shape of web-inspector.config.json. Every field is optional; missing fields
+ * fall back to the next layer (see loadConfig).
+ */
+export interface WebInspectorConfig {
+  saveSession?: boolean;
+  // Base directory for the browser profile and screenshots (relative to the config file)
+  userDataDir?: string;
+  headless?: boolean;
+  exposeSensitiveNetworkData?: boolean;
+  browser?: {
+    type?: BrowserType;
+    viewport?: { width: number; height: number };
+    // Device preset name, e.g. "iphone-14" (see the device parameter of navigate)
+    device?: string;
+  };
+  // Defaults in milliseconds when a tool call does not pass its own timeout
+  timeouts?: {
+    navigation?: number;
+    waitForElement?: number;
+    networkIdle?: number;
+  };
+  // Attributes get_test_ids scans when the call does not list its own
+  testIdAttributes?: string[];
+  output?: {
+    // Default maxLength of get_html / get_text
+    maxLength?: number;
+    // Payloads at least this long are previewed behind a confirm_output token
+    previewThreshold?: number;
+    // Default limit of list_network_requests
+    networkRequestLimit?: number;
+  };
+  // Network capture: entries kept per tab (oldest dropped first) and the largest body kept, in bytes
+  network?: {
+    logSize?: number;
+    maxBodySize?: number;
+  };
+  // What is hidden in tool output (see redaction.ts); lists add to the built-in rules
+  redaction?: {
+    // false turns redaction off for every output
+    enabled?: boolean;
+    // Header names (case-insensitive) treated like Authorization and Cookie
+    headers?: string[];
+    // Cookie names whose values are hidden in Cookie / Set-Cookie ("*" for all)
+    cookies?: string[];
+    // Body fields and query parameters, e.g. "token" or "user.ssn"
+    jsonPaths?: string[];
+    // Built-in value patterns to apply (replaces the default selection)
+    patterns?: BuiltInPattern[];
+    // Extra regular expressions whose matches are hidden
+    regexes?: string[];
+  };
+  // Where secret:NAME references of fill are resolved (see secrets.ts)
+  secrets?: {
+    // JSON object or KEY=VALUE lines (relative to the config file)
+    file?: string;
+    // Environment variables usable as secrets by their plain name
+    env?: string[];
+  };
+  // Which URLs may be loaded as pages, frames or popups (see urlPolicy.ts)
+  navigation?: {
+    allow?: string[];
+    deny?: string[];
+    denySchemes?: string[];
+  };
+  // Which tools are exposed (see configureToolAccess in tools/common/registry.ts)
+  tools?: {
+    profile?: ToolProfile;
+    include?: string[];
+    exclude?: string[];
+  };
+}
+
+/**
+ * Built-in defaults (the bottom layer)
+ */
+export const CONFIG_DEFAULTS = {
+  userDataDir: "./.mcp-web-inspector",
+  browserType: "chromium" as BrowserType,
+  timeouts: { navigation: 30000, waitForElement: 10000, networkIdle: 10000 },
+  testIdAttributes: ["data-testid", "data-test", "data-cy"],
+  output: { maxLength: 20000, previewThreshold: 2000, networkRequestLimit: 50 },
+  network: { logSize: 1000, maxBodySize: 1024 * 1024 },
+};
+
+/**
+ * Startup configuration problem: unreadable file, bad JSON or invalid values.
+ * The message lists every problem with its source.
+ */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(p => `  - ${p}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value > 0;
+
+/**
+ * Checks a parsed config object and returns it typed. Collects problems as
+ * "<source>: <path> <problem>" instead of stopping at the first one.
+ */
+export function validateConfig(raw: unknown, source: string, knownDevices: string[] = []): { config: WebInspectorConfig; problems: string[] } {
+  const problems: string[] = [];
+  const problem = (path: string, message: string) => problems.push(`${source}: ${path} ${message}`);
+
+  if (!isObject(raw)) {
+    problem("(root)", "must be a JSON object");
+    return { config: {}, problems };
+  }
+
+  const checkKeys = (obj: Record<string, unknown>, allowed: string[], prefix: string) => {
+    for (const key of Object.keys(obj)) {
+      if (key === "$schema") continue;
+      if (!allowed.includes(key)) problem(`${prefix}${key}`, `is not a known option (expected one of: ${allowed.join(", ")})`);
+    }
+  };
+  const checkBoolean = (obj: Record<string, unknown>, key: string, prefix = "") => {
+    if (key in obj && typeof obj[key] !== "boolean") problem(`${prefix}${key}`, "must be true or false");
+  };
+  const checkPositive = (obj: Record<string, unknown>, key: string, prefix: string) => {
+    if (key in obj && !isPositiveInteger(obj[key])) problem(`${prefix}${key}`, "must be a positive integer");
+  };
+  const checkSection = (key: string, allowed: string[], check: (section: Record<string, unknown>, prefix: string) => void) => {
+    if (!(key in raw)) return;
+    const section = raw[key];
+    if (!isObject(section)) {
+      problem(key, "must be an object");
+      return;
+    }
+    checkKeys(section, allowed, `${key}.`);
+    check(section, `${key}.`);
+  };
+  const checkStringList = (value: unknown, path: string) => {
+    if (!Array.isArray(value) || value.some(item => typeof item !== "string" || !item.trim())) {
+      problem(path, "must be a list of non-empty strings");
+    }
+  };
+
+  checkKeys(raw, ["saveSession", "userDataDir", "headless", "exposeSensitiveNetworkData", "browser", "timeouts", "testIdAttributes", "output", "network", "redaction", "secrets", "navigation", "tools"], "");
+  checkBoolean(raw, "saveSession");
+  checkBoolean(raw, "headless");
+  checkBoolean(raw, "exposeSensitiveNetworkData");
+  if ("userDataDir" in raw && (typeof raw.userDataDir !== "string" || !raw.userDataDir.trim())) {
+    problem("userDataDir", "must be a non-empty string");
+  }
+
+  checkSection("browser", ["type", "viewport", "device"], (browser, prefix) => {
+    if ("type" in browser && !BROWSER_TYPES.includes(browser.type as BrowserType)) {
+      problem(`${prefix}type`, `must be one of: ${BROWSER_TYPES.join(", ")}`);
+    }
+    if ("viewport" in browser) {
+      const viewport = browser.viewport;
+      if (!isObject(viewport) || !isPositiveInteger(viewport.width) || !isPositiveInteger(viewport.height)) {
+        problem(`${prefix}viewport`, "must be { width, height } with positive integers");
+      }
+    }
+    if ("device" in browser) {
+      if (typeof browser.device !== "string") {
+        problem(`${prefix}device`, "must be a string");
+      } else if (knownDevices.length && !knownDevices.includes(browser.device)) {
+        problem(`${prefix}device`, `"${browser.device}" is not a device preset (expected one of: ${knownDevices.join(", ")})`);
+      }
+    }
+  });
+
+  checkSection("timeouts", ["navigation", "waitForElement", "networkIdle"], (timeouts, prefix) => {
+    for (const key of Object.keys(timeouts)) checkPositive(timeouts, key, prefix);
+  });
+
+  if ("testIdAttributes" in raw) {
+    checkStringList(raw.testIdAttributes, "testIdAttributes");
+  }
+
+  checkSection("output", ["maxLength", "previewThreshold", "networkRequestLimit"], (output, prefix) => {
+    for (const key of Object.keys(output)) checkPositive(output, key, prefix);
+  });
+
+  checkSection("network", ["logSize", "maxBodySize"], (network, prefix) => {
+    for (const key of Object.keys(network)) checkPositive(network, key, prefix);
+  });
+
+  checkSection("redaction", ["enabled", "headers", "cookies", "jsonPaths", "patterns", "regexes"], (redaction, prefix) => {
+    checkBoolean(redaction, "enabled", prefix);
+    const lists = ["headers", "cookies", "jsonPaths", "patterns", "regexes"].filter(key => key in redaction);
+    for (const key of lists) checkStringList(redaction[key], `${prefix}${key}`);
+    if (lists.every(key => Array.isArray(redaction[key]))) {
+      for (const { key, message } of validateRedactionRules(redaction)) problem(`${prefix}${key}`, message);
+    }
+  });
+
+  checkSection("secrets", ["file", "env"], (secrets, prefix) => {
+    if ("file" in secrets && (typeof secrets.file !== "string" || !secrets.file.trim())) {
+      problem(`${prefix}file`, "must be a non-empty string");
+    }
+    if ("env" in secrets) checkStringList(secrets.env, `${prefix}env`);
+  });
+
+  checkSection("navigation", ["allow", "deny", "denySchemes"], (navigation, prefix) => {
+    for (const key of Object.keys(navigation)) checkStringList(navigation[key], `${prefix}${key}`);
+  });
+
+  checkSection("tools", ["profile", "include", "exclude"], (tools, prefix) => {
+    if ("profile" in tools && !TOOL_PROFILE_NAMES.includes(tools.profile as ToolProfile)) {
+      problem(`${prefix}profile`, `must be one of: ${TOOL_PROFILE_NAMES.join(", ")}`);
+    }
+    if ("include" in tools) checkStringList(tools.include, `${prefix}include`);
+    if ("exclude" in tools) checkStringList(tools.exclude, `${prefix}exclude`);
+  });
+
+  return { config: raw as WebInspectorConfig, problems };
+}
+
+/**
+ * Merges layers left to right: later layers win, nested sections merge key by
+ * key, lists replace. Undefined values never override.
+ */
+export function mergeConfigs(...layers: WebInspectorConfig[]): WebInspectorConfig {
+  const merged: Record<string, unknown> = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value === undefined) continue;
+      const current = merged[key];
+      merged[key] = isObject(value) && isObject(current) && key !== "viewport"
+        ? mergeConfigs(current as WebInspectorConfig, value as WebInspectorConfig)
+        : value;
+    }
+  }
+  return merged as WebInspectorConfig;
+}
+
+function parseBooleanEnv(value: string, name: string, problems: string[]): boolean | undefined {
+  if (/^(1|true|yes)$/i.test(value)) return true;
+  if (/^(0|false|no)$/i.test(value)) return false;
+  problems.push(`env ${name}: must be true or false (got "${value}")`);
+  return undefined;
+}
+
+/**
+ * Reads MCP_WEB_INSPECTOR_* environment variables into a config layer
+ */
+export function configFromEnv(env: NodeJS.ProcessEnv): { config: WebInspectorConfig; problems: string[] } {
+  const problems: string[] = [];
+  const config: WebInspectorConfig = {};
+  const read = (name: string) => {
+    const value = env[`MCP_WEB_INSPECTOR_${name}`];
+    return value === undefined || value === "" ? undefined : value;
+  };
+
+  const readBoolean = (name: string): boolean | undefined => {
+    const value = read(name);
+    return value === undefined ? undefined : parseBooleanEnv(value, `MCP_WEB_INSPECTOR_${name}`, problems);
+  };
+
+  const headless = readBoolean("HEADLESS");
+  if (headless !== undefined) config.headless = headless;
+  const saveSession = readBoolean("SAVE_SESSION");
+  if (saveSession !== undefined) config.saveSession = saveSession;
+  const exposeSensitive = readBoolean("EXPOSE_SENSITIVE_NETWORK_DATA");
+  if (exposeSensitive !== undefined) config.exposeSensitiveNetworkData = exposeSensitive;
+  const userDataDir = read("USER_DATA_DIR");
+  if (userDataDir !== undefined) config.userDataDir = userDataDir;
+
+  const browserType = read("BROWSER");
+  const device = read("DEVICE");
+  if (browserType !== undefined || device !== undefined) {
+    config.browser = {};
+    if (browserType !== undefined) {
+      if (BROWSER_TYPES.includes(browserType as BrowserType)) {
+        config.browser.type = browserType as BrowserType;
+      } else {
+        problems.push(`env MCP_WEB_INSPECTOR_BROWSER: must be one of: ${BROWSER_TYPES.join(", ")} (got "${browserType}")`);
+      }
+    }
+    if (device !== undefined) config.browser.device = device;
+  }
+
+  return { config, problems };
+}
+
+function readConfigFile(path: string, knownDevices: string[], problems: string[]): WebInspectorConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    problems.push(`${path}: ${(error as Error).message}`);
+    return {};
+  }
+  const { config, problems: fileProblems } = validateConfig(raw, path, knownDevices);
+  problems.push(...fileProblems);
+  // Relative paths in a config file are relative to that file
+  if (typeof config.userDataDir === "string" && !isAbsolute(config.userDataDir)) {
+    config.userDataDir = resolve(dirname(path), config.userDataDir);
+  }
+  if (typeof config.secrets?.file === "string" && !isAbsolute(config.secrets.file)) {
+    config.secrets = { ...config.secrets, file: resolve(dirname(path), config.secrets.file) };
+  }
+  return config;
+}
+
+/**
+ * User-level config location: $XDG_CONFIG_HOME/mcp-web-inspector or ~/.config/mcp-web-inspector
+ */
+export function userConfigPath(env: NodeJS.ProcessEnv = process.env, home: string = homedir()): string {
+  const base = env.XDG_CONFIG_HOME || join(home, ".config");
+  return join(base, "mcp-web-inspector", CONFIG_FILE_NAME);
+}
+
+export interface LoadConfigOptions {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  // Explicit --config path; replaces the project-level lookup and must exist
+  configPath?: string;
+  // Values from CLI flags (only flags that were actually passed)
+  cli?: WebInspectorConfig;
+  userConfigFile?: string;
+  knownDevices?: string[];
+}
+
+/**
+ * Resolves the effective configuration. Layers, lowest first: built-in
+ * defaults, user-level file, project-level file (or --config), environment
+ * variables, CLI flags. Throws ConfigError listing every problem found.
+ */
+export function loadConfig(options: LoadConfigOptions): { config: WebInspectorConfig; sources: string[] } {
+  const problems: string[] = [];
+  const sources: string[] = [];
+  const knownDevices = options.knownDevices ?? [];
+  const layers: WebInspectorConfig[] = [];
+
+  const userFile = options.userConfigFile ?? userConfigPath(options.env);
+  if (existsSync(userFile)) {
+    layers.push(readConfigFile(userFile, knownDevices, problems));
+    sources.push(userFile);
+  }
+
+  const projectFile = options.configPath ? resolve(options.cwd, options.configPath) : join(options.cwd, CONFIG_FILE_NAME);
+  if (existsSync(projectFile)) {
+    layers.push(readConfigFile(projectFile, knownDevices, problems));
+    sources.push(projectFile);
+  } else if (options.configPath) {
+    problems.push(`--config: ${projectFile} does not exist`);
+  }
+
+  const fromEnv = configFromEnv(options.env);
+  problems.push(...fromEnv.problems);
+  const envValidation = validateConfig(fromEnv.config, "env", knownDevices);
+  problems.push(...envValidation.problems);
+  layers.push(fromEnv.config);
+
+  if (options.cli) {
+    layers.push(options.cli);
+  }
+
+  if (problems.length) {
+    throw new ConfigError(problems);
+  }
+  return { config: mergeConfigs(...layers), sources };
+}
+
+/**
+ * Maps the resolved configuration onto the SessionConfig used by the tools
+ */
+export function toSessionConfig(config: WebInspectorConfig): SessionConfig {
+  const baseDir = config.userDataDir ?? CONFIG_DEFAULTS.userDataDir;
+  return {
+    saveSession: config.saveSession ?? true,
+    userDataDir: `${baseDir}/user-data`,
+    screenshotsDir: `${baseDir}/screenshots`,
+    headlessDefault: config.headless ?? false,
+    exposeSensitiveNetworkData: config.exposeSensitiveNetworkData ?? false,
+    defaultBrowserType: config.browser?.type ?? CONFIG_DEFAULTS.browserType,
+    defaultViewport: config.browser?.viewport,
+    defaultDevice: config.browser?.device,
+    timeouts: { ...CONFIG_DEFAULTS.timeouts, ...config.timeouts },
+    testIdAttributes: config.testIdAttributes ?? CONFIG_DEFAULTS.testIdAttributes,
+    outputLimits: { ...CONFIG_DEFAULTS.output, ...config.output },
+    networkCapture: { ...CONFIG_DEFAULTS.network, ...config.network },
+    redaction: config.redaction,
+    urlPolicy: config.navigation,
+  };
+}
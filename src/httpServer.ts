@@ -0,0 +1,195 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  /** When set, every request must carry `Authorization: Bearer <authToken>` */
+  authToken?: string;
+  /** Creates a fresh MCP server for each new session (a Server binds to one transport) */
+  createMcpServer: () => Server;
+  /** Called once a session ends (client DELETE, idle timeout or shutdown) to release its resources */
+  onSessionClosed?: (sessionId: string) => void | Promise<void>;
+  /** Sessions without requests for this long are closed (0 or omitted: never) */
+  idleTimeoutMs?: number;
+}
+
+export interface RunningHttpServer {
+  url: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+export const MCP_HTTP_PATH = "/mcp";
+
+// Initialize requests are small; anything larger than this is not a valid MCP message
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Checks the Authorization header against the expected bearer token
+ */
+export function isAuthorized(header: string | undefined, token: string | undefined): boolean {
+  if (!token) return true;
+  const match = /^Bearer\s+(.+)$/i.exec(header || "");
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error("Request body too large");
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Serves MCP over Streamable HTTP on a single endpoint (/mcp).
+ *
+ * Each client gets its own session ID (Mcp-Session-Id header) and its own
+ * transport + Server instance. Requests carry that ID into the tool calls
+ * (see session.ts), so each client also gets its own browser state.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<RunningHttpServer> {
+  const sessions = new Map<string, { transport: StreamableHTTPServerTransport; server: Server; lastActivity: number }>();
+  const pendingCleanups = new Set<Promise<void>>();
+
+  const releaseSession = (id: string) => {
+    if (!options.onSessionClosed) return;
+    const cleanup = Promise.resolve()
+      .then(() => options.onSessionClosed!(id))
+      .catch((error) => console.error(`Error releasing session ${id}:`, error))
+      .finally(() => pendingCleanups.delete(cleanup));
+    pendingCleanups.add(cleanup);
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const pathname = new URL(req.url || "/", "http://localhost").pathname;
+    if (pathname !== MCP_HTTP_PATH) {
+      sendJsonRpcError(res, 404, `Not found. The MCP endpoint is ${MCP_HTTP_PATH}`);
+      return;
+    }
+
+    if (!isAuthorized(req.headers.authorization, options.authToken)) {
+      sendJsonRpcError(res, 401, "Unauthorized: missing or invalid bearer token", { "WWW-Authenticate": "Bearer" });
+      return;
+    }
+
+    const sessionIdHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader;
+
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(res, 400, `Invalid request body: ${(error as Error).message}`);
+        return;
+      }
+    }
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, "Session not found. Start a new session with an initialize request.");
+        return;
+      }
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "Bad request: missing Mcp-Session-Id header (only initialize may start a session)");
+      return;
+    }
+
+    const server = options.createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, lastActivity: Date.now() });
+        console.error(`HTTP session started: ${id} (${sessions.size} active)`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        console.error(`HTTP session closed: ${transport.sessionId} (${sessions.size} active)`);
+        releaseSession(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error("Error handling MCP HTTP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  // Reclaim sessions of clients that went away without a DELETE
+  let idleTimer: NodeJS.Timeout | undefined;
+  if (options.idleTimeoutMs && options.idleTimeoutMs > 0) {
+    const idleTimeoutMs = options.idleTimeoutMs;
+    idleTimer = setInterval(() => {
+      const cutoff = Date.now() - idleTimeoutMs;
+      for (const [id, session] of Array.from(sessions.entries())) {
+        if (session.lastActivity < cutoff) {
+          console.error(`HTTP session ${id} idle for over ${Math.round(idleTimeoutMs / 1000)}s, closing`);
+          session.server.close().catch((error) => console.error(`Error closing idle session ${id}:`, error));
+        }
+      }
+    }, Math.min(60_000, Math.max(1000, idleTimeoutMs / 2)));
+    idleTimer.unref();
+  }
+
+  const address = httpServer.address();
+  const port = typeof address === "object" && address ? address.port : options.port;
+
+  return {
+    url: `http://${options.host.includes(":") ? `[${options.host}]` : options.host}:${port}${MCP_HTTP_PATH}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      if (idleTimer) clearInterval(idleTimer);
+      for (const { server } of Array.from(sessions.values())) {
+        await server.close().catch((error) => console.error("Error closing MCP session:", error));
+      }
+      sessions.clear();
+      await Promise.all(Array.from(pendingCleanups));
+      // Drop idle keep-alive sockets so close() resolves promptly
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
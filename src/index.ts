@@ -2,11 +2,15 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { startHttpServer } from "./httpServer.js";
 import { createToolDefinitions } from "./tools/common/registry.js";
 import type { ToolMetadata } from "./tools/common/types.js";
 import { setupRequestHandlers } from "./requestHandler.js";
 import { parseArgs } from "node:util";
-import { setSessionConfig } from "./toolHandler.js";
+import { setSessionConfig, closeBrowser, endClientSession, getDevicePresetNames } from "./toolHandler.js";
+import { configureToolAccess, type ToolProfile } from "./tools/common/registry.js";
+import { configureSecrets } from "./secrets.js";
+import { ConfigError, loadConfig, toSessionConfig, type WebInspectorConfig } from "./config.js";
 import { readFileSync } from "node:fs";
 import { fileURLToPath } from "node:url";
 import { dirname, join } from "node:path";
@@ -29,21 +33,43 @@ const VERSION = packageJson.version;
 // Parse command line arguments
 const { values } = parseArgs({
   options: {
+    // No defaults for options that web-inspector.config.json can also set:
+    // an absent flag must not override the file
+    'config': {
+      type: 'string',
+    },
     'no-save-session': {
       type: 'boolean',
-      default: false,
     },
     'expose-sensitive-network-data': {
       type: 'boolean',
-      default: false,
     },
     'user-data-dir': {
       type: 'string',
-      default: './.mcp-web-inspector',
     },
     'headless': {
       type: 'boolean',
-      default: false,
+    },
+    'secrets-file': {
+      type: 'string',
+    },
+    'allow-urls': {
+      type: 'string',
+    },
+    'deny-urls': {
+      type: 'string',
+    },
+    'deny-schemes': {
+      type: 'string',
+    },
+    'tool-profile': {
+      type: 'string',
+    },
+    'tools': {
+      type: 'string',
+    },
+    'exclude-tools': {
+      type: 'string',
     },
     'print-tools-json': {
       type: 'boolean',
@@ -53,18 +79,89 @@ const { values } = parseArgs({
       type: 'boolean',
       default: false,
     },
+    'transport': {
+      type: 'string',
+      default: 'stdio',
+    },
+    'port': {
+      type: 'string',
+      default: '3000',
+    },
+    'host': {
+      type: 'string',
+      default: '127.0.0.1',
+    },
+    'auth-token': {
+      type: 'string',
+    },
+    'session-idle-timeout': {
+      type: 'string',
+      default: '30',
+    },
+    'cdp-endpoint': {
+      type: 'string',
+    },
+    'ws-endpoint': {
+      type: 'string',
+    },
   },
   strict: false,
 });
 
-// Configure session settings (session saving is enabled by default)
-const baseDir = String(values['user-data-dir'] || './.mcp-web-inspector');
+// Comma-separated list flag, e.g. --tools click,fill
+const listFlag = (name: string): string[] | undefined =>
+  values[name] ? String(values[name]).split(',').map(item => item.trim()).filter(Boolean) : undefined;
+
+// CLI flags are the top configuration layer (session saving is enabled by default)
+const cliConfig: WebInspectorConfig = {
+  saveSession: values['no-save-session'] ? false : undefined,
+  userDataDir: values['user-data-dir'] ? String(values['user-data-dir']) : undefined,
+  headless: values['headless'] ? true : undefined,
+  exposeSensitiveNetworkData: values['expose-sensitive-network-data'] ? true : undefined,
+  secrets: {
+    file: values['secrets-file'] ? String(values['secrets-file']) : undefined,
+  },
+  navigation: {
+    allow: listFlag('allow-urls'),
+    deny: listFlag('deny-urls'),
+    denySchemes: listFlag('deny-schemes'),
+  },
+  tools: {
+    profile: values['tool-profile'] ? String(values['tool-profile']) as ToolProfile : undefined,
+    include: listFlag('tools'),
+    exclude: listFlag('exclude-tools'),
+  },
+};
+
+// Merge built-in defaults, config files, environment and CLI flags; invalid settings stop startup
+let resolvedConfig: ReturnType<typeof loadConfig>;
+try {
+  resolvedConfig = loadConfig({
+    cwd: process.cwd(),
+    env: process.env,
+    configPath: values['config'] ? String(values['config']) : undefined,
+    cli: cliConfig,
+    knownDevices: getDevicePresetNames(),
+  });
+  const { profile, include, exclude } = resolvedConfig.config.tools ?? {};
+  try {
+    configureToolAccess({ profile, tools: include, excludeTools: exclude });
+  } catch (error) {
+    throw new ConfigError([(error as Error).message]);
+  }
+  configureSecrets({ ...resolvedConfig.config.secrets });
+} catch (error) {
+  if (error instanceof ConfigError) {
+    console.error(error.message);
+    process.exit(1);
+  }
+  throw error;
+}
+
 const sessionConfig = {
-  saveSession: !Boolean(values['no-save-session']),
-  userDataDir: `${baseDir}/user-data`,
-  screenshotsDir: `${baseDir}/screenshots`,
-  headlessDefault: Boolean(values['headless']),
-  exposeSensitiveNetworkData: Boolean(values['expose-sensitive-network-data']),
+  ...toSessionConfig(resolvedConfig.config),
+  cdpEndpoint: values['cdp-endpoint'] ? String(values['cdp-endpoint']) : undefined,
+  wsEndpoint: values['ws-endpoint'] ? String(values['ws-endpoint']) : undefined,
 };
 setSessionConfig(sessionConfig);
 
@@ -84,23 +181,46 @@ async function runServer() {
     return;
   }
 
+  if (sessionConfig.cdpEndpoint && sessionConfig.wsEndpoint) {
+    throw new Error('Use either --cdp-endpoint or --ws-endpoint, not both');
+  }
+
+  const transportKind = String(values['transport'] || 'stdio');
+  if (transportKind !== 'stdio' && transportKind !== 'http') {
+    throw new Error(`Unknown --transport "${transportKind}" (expected "stdio" or "http")`);
+  }
+
   console.error(`Starting mcp-web-inspector v${VERSION}`);
+  if (resolvedConfig.sources.length) {
+    console.error(`Configuration: ${resolvedConfig.sources.join(', ')}`);
+  }
 
-  const server = new Server(
-    {
-      name: "mcp-web-inspector",
-      version: VERSION,
-    },
-    {
-      capabilities: {
-        resources: {},
-        tools: {},
+  function createMcpServer(): Server {
+    const server = new Server(
+      {
+        name: "mcp-web-inspector",
+        version: VERSION,
       },
-    }
-  );
+      {
+        capabilities: {
+          resources: { subscribe: true, listChanged: true },
+          tools: {},
+          prompts: {},
+        },
+      }
+    );
+
+    // Setup request handlers
+    setupRequestHandlers(server, TOOLS);
+    return server;
+  }
+
+  if (transportKind === 'http') {
+    await runHttpServer(createMcpServer);
+    return;
+  }
 
-  // Setup request handlers
-  setupRequestHandlers(server, TOOLS);
+  const server = createMcpServer();
 
   // Graceful shutdown logic
   function shutdown() {
@@ -120,6 +240,47 @@ async function runServer() {
   await server.connect(transport);
 }
 
+// Long-lived shared service: several clients attach over Streamable HTTP
+async function runHttpServer(createMcpServer: () => Server) {
+  const port = Number(values['port']);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid --port "${values['port']}"`);
+  }
+  const authToken = String(values['auth-token'] || process.env.MCP_WEB_INSPECTOR_AUTH_TOKEN || '') || undefined;
+  const idleMinutes = Number(values['session-idle-timeout']);
+  if (!Number.isFinite(idleMinutes) || idleMinutes < 0) {
+    throw new Error(`Invalid --session-idle-timeout "${values['session-idle-timeout']}" (minutes, 0 to disable)`);
+  }
+
+  const httpServer = await startHttpServer({
+    port,
+    host: String(values['host'] || '127.0.0.1'),
+    authToken,
+    createMcpServer,
+    // Each client has its own browser; close it when the client goes away
+    onSessionClosed: endClientSession,
+    idleTimeoutMs: idleMinutes * 60_000,
+  });
+  console.error(`MCP Streamable HTTP endpoint: ${httpServer.url}${authToken ? ' (bearer token required)' : ''}`);
+
+  // Graceful shutdown: stop accepting clients, close sessions, then the browser
+  let shuttingDown = false;
+  async function shutdown() {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.error('Shutdown signal received');
+    await httpServer.close().catch((err) => console.error('Error closing HTTP server:', err));
+    await closeBrowser();
+    process.exit(0);
+  }
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+  process.on('uncaughtException', (err) => {
+    console.error('Uncaught Exception:', err);
+  });
+}
+
 runServer().catch((error) => {
   console.error("Fatal error in main():", error);
   process.exit(1);
@@ -0,0 +1,148 @@
+import type { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * One step of a debugging workflow: a concrete tool call and what to look for
+ */
+export interface PromptStep {
+  tool: string;
+  call: string;
+  why: string;
+}
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: { name: string; description: string; required: boolean }[];
+  intro(args: Record<string, string>): string;
+  steps(args: Record<string, string>): PromptStep[];
+  outro?: string;
+}
+
+// Selectors and URLs go into example calls as JSON strings so quotes stay valid
+const q = (value: string) => JSON.stringify(value);
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: "debug-layout",
+    description: "Step plan to find why an element is mispositioned, misaligned or sized wrong (structure first, screenshots last)",
+    arguments: [
+      { name: "selector", description: "Element that looks wrong, e.g. testid:submit or #sidebar", required: true },
+      { name: "compareWith", description: "Optional second element it should line up with", required: false },
+    ],
+    intro: (args) => `Debug the layout of ${args.selector}. Work through these steps in order and stop as soon as the cause is clear:`,
+    steps: (args) => [
+      { tool: "inspect_dom", call: `inspect_dom({ selector: ${q(args.selector)} })`, why: "position, size, edge distances and spacing of its children" },
+      { tool: "inspect_ancestors", call: `inspect_ancestors({ selector: ${q(args.selector)} })`, why: "parent constraints: widths, margins, overflow, flex/grid context" },
+      { tool: "measure_element", call: `measure_element({ selector: ${q(args.selector)} })`, why: "box model (padding, border, margin) of the element itself" },
+      args.compareWith
+        ? { tool: "compare_element_alignment", call: `compare_element_alignment({ selector1: ${q(args.selector)}, selector2: ${q(args.compareWith)} })`, why: "pixel offsets between the two edges and centers" }
+        : { tool: "get_computed_styles", call: `get_computed_styles({ selector: ${q(args.selector)} })`, why: "the CSS values behind what the previous steps showed" },
+      { tool: "visual_screenshot_for_humans", call: `visual_screenshot_for_humans({ name: "layout-debug", selector: ${q(args.selector)} })`, why: "only if a person needs to see it; the structural tools above are cheaper and more precise" },
+    ],
+    outro: "Report the root cause (which element and CSS property) and the smallest fix.",
+  },
+  {
+    name: "investigate-failing-click",
+    description: "Step plan to find why clicking an element does nothing or fails (missing, hidden, covered, or no handler)",
+    arguments: [
+      { name: "selector", description: "Element the click targets", required: true },
+    ],
+    intro: (args) => `Find out why clicking ${args.selector} fails. Work through these steps in order:`,
+    steps: (args) => [
+      { tool: "element_exists", call: `element_exists({ selector: ${q(args.selector)} })`, why: "the selector matches at all" },
+      { tool: "query_selector", call: `query_selector({ selector: ${q(args.selector)} })`, why: "how many elements match and which are visible; ambiguous selectors click the wrong one" },
+      { tool: "check_visibility", call: `check_visibility({ selector: ${q(args.selector)} })`, why: "hidden, clipped, off-screen or covered by another element (and by which)" },
+      { tool: "inspect_ancestors", call: `inspect_ancestors({ selector: ${q(args.selector)} })`, why: "an ancestor with overflow:hidden, pointer-events:none or zero size" },
+      { tool: "click", call: `click({ selector: ${q(args.selector)} })`, why: "retry once the element is reachable; read the error text if it still fails" },
+      { tool: "get_console_logs", call: `get_console_logs({ since: "last-interaction" })`, why: "errors thrown by the click handler" },
+      { tool: "list_network_requests", call: "list_network_requests({ limit: 10 })", why: "whether the click started the request it should" },
+    ],
+    outro: "Report whether the problem is the selector, the element's visibility/interactability, or the page's handler.",
+  },
+  {
+    name: "audit-page",
+    description: "Step plan for a quick quality pass over a page: console errors, accessibility, contrast, performance and failed requests",
+    arguments: [
+      { name: "url", description: "Page to audit", required: true },
+    ],
+    intro: (args) => `Audit ${args.url}. Run each step and collect findings:`,
+    steps: (args) => [
+      { tool: "navigate", call: `navigate({ url: ${q(args.url)} })`, why: "load the page (console errors right after load are reported here)" },
+      { tool: "wait_for_network_idle", call: "wait_for_network_idle({})", why: "let late requests and rendering settle" },
+      { tool: "get_console_logs", call: `get_console_logs({ type: "error", since: "last-navigation" })`, why: "runtime errors and failed resource loads" },
+      { tool: "inspect_dom", call: "inspect_dom({})", why: "page structure overview: landmarks, interactive elements, test ID coverage" },
+      { tool: "audit_accessibility", call: "audit_accessibility({})", why: "missing labels, alt text, roles and other axe-style violations" },
+      { tool: "check_contrast", call: `check_contrast({ selector: "body", scan: true })`, why: "text that fails WCAG contrast" },
+      { tool: "get_performance_metrics", call: "get_performance_metrics({})", why: "Core Web Vitals and the heaviest resources" },
+      { tool: "list_network_requests", call: "list_network_requests({})", why: "4xx/5xx responses and slow or oversized requests" },
+    ],
+    outro: "Summarize findings grouped by severity, each with the tool output that shows it.",
+  },
+  {
+    name: "diagnose-api-error",
+    description: "Step plan to diagnose a failing or misbehaving API call: find it, read request and response, reproduce with a mock",
+    arguments: [
+      { name: "urlPattern", description: "Part of the API URL, e.g. /api/orders", required: true },
+    ],
+    intro: (args) => `Diagnose the API calls matching ${args.urlPattern}. Work through these steps in order:`,
+    steps: (args) => [
+      { tool: "list_network_requests", call: `list_network_requests({ url: ${q(args.urlPattern)} })`, why: "find the matching calls and note their index and status (add status: \"4xx\", \"5xx\" or \"failed\" to narrow down)" },
+      { tool: "get_request_details", call: "get_request_details({ index: <index from step 1> })", why: "request headers/body sent and the response body returned" },
+      { tool: "get_console_logs", call: `get_console_logs({ type: "error" })`, why: "how the page reacted to the response" },
+      { tool: "mock_route", call: `mock_route({ url: ${q(`**${args.urlPattern}*`)}, status: 200, body: { } })`, why: "optional: replay with a known-good response to confirm whether the server or the client is at fault" },
+      { tool: "unmock_route", call: "unmock_route({})", why: "remove the mock when done" },
+    ],
+    outro: "Report whether the request, the server response, or the client handling is wrong, quoting the relevant headers or body.",
+  },
+];
+
+/**
+ * Prompt list for prompts/list (argument metadata only)
+ */
+export function listPrompts(): Prompt[] {
+  return PROMPTS.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }));
+}
+
+/**
+ * Tool names a prompt may reference (for checks against the registry)
+ */
+export function getPromptToolNames(name: string, args: Record<string, string> = {}): string[] {
+  const prompt = PROMPTS.find(p => p.name === name);
+  return prompt ? prompt.steps(args).map(step => step.tool) : [];
+}
+
+/**
+ * Expands a prompt into a numbered step plan. Steps whose tool is not in
+ * availableTools (i.e. not exposed by this server) are left out.
+ */
+export function getPrompt(name: string, args: Record<string, string> | undefined, availableTools: Set<string>): GetPromptResult {
+  const prompt = PROMPTS.find(p => p.name === name);
+  if (!prompt) {
+    throw new Error(`Prompt not found: ${name}. Available: ${PROMPTS.map(p => p.name).join(', ')}`);
+  }
+
+  const values: Record<string, string> = {};
+  for (const arg of prompt.arguments) {
+    const value = args?.[arg.name]?.trim();
+    if (value) {
+      values[arg.name] = value;
+    } else if (arg.required) {
+      throw new Error(`Missing required argument "${arg.name}" for prompt ${name}`);
+    }
+  }
+
+  const steps = prompt.steps(values).filter(step => availableTools.has(step.tool));
+  const lines = [
+    prompt.intro(values),
+    '',
+    ...steps.map((step, i) => `${i + 1}. ${step.call} — ${step.why}`),
+  ];
+  if (prompt.outro) {
+    lines.push('', prompt.outro);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: "user", content: { type: "text", text: lines.join('\n') } }],
+  };
+}
@@ -0,0 +1,275 @@
+/**
+ * Redaction pipeline for everything that leaves the server: network details,
+ * HAR files, console logs, evaluate results and page text/HTML. Rules come
+ * from the redaction section of web-inspector.config.json (see config.ts).
+ */
+
+export type RedactionChannel = 'network' | 'console' | 'evaluate' | 'dom';
+
+export const BUILT_IN_PATTERNS = ['jwt', 'bearer', 'email', 'credit-card'] as const;
+export type BuiltInPattern = typeof BUILT_IN_PATTERNS[number];
+
+export interface RedactionRules {
+  // Header names (case-insensitive) whose whole value is hidden
+  headers: string[];
+  // Cookie names hidden inside Cookie / Set-Cookie values ("*" for all)
+  cookies: string[];
+  // Body fields: "password" matches the key at any depth, "user.token" from the
+  // root; "*" matches any key and arrays are stepped through. Also applies to
+  // form-encoded bodies and URL query parameters.
+  jsonPaths: string[];
+  // Built-in value patterns, applied to all text
+  patterns: BuiltInPattern[];
+  // Extra regular expressions (JavaScript syntax), applied to all text
+  regexes: string[];
+}
+
+/**
+ * Redaction settings of SessionConfig. Lists extend the defaults, except
+ * patterns, which selects the built-in patterns to use.
+ */
+export interface RedactionConfig extends Partial<RedactionRules> {
+  enabled?: boolean;
+}
+
+export const DEFAULT_REDACTION_RULES: RedactionRules = {
+  headers: ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key', 'x-auth-token'],
+  cookies: [],
+  jsonPaths: ['password', 'pass', 'passwd', 'client_secret', 'access_token', 'refresh_token'],
+  patterns: ['jwt', 'bearer', 'credit-card'],
+  regexes: [],
+};
+
+export const REDACTED = '<redacted>';
+
+export function resolveRedactionRules(config?: RedactionConfig): RedactionRules {
+  return {
+    headers: [...DEFAULT_REDACTION_RULES.headers, ...(config?.headers ?? [])],
+    cookies: [...DEFAULT_REDACTION_RULES.cookies, ...(config?.cookies ?? [])],
+    jsonPaths: [...DEFAULT_REDACTION_RULES.jsonPaths, ...(config?.jsonPaths ?? [])],
+    patterns: config?.patterns ?? DEFAULT_REDACTION_RULES.patterns,
+    regexes: [...DEFAULT_REDACTION_RULES.regexes, ...(config?.regexes ?? [])],
+  };
+}
+
+// Card numbers: 13-19 digits starting with a 3-6 issuer prefix, confirmed by the Luhn check
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+interface TextRule {
+  kind: string;
+  regex: RegExp;
+  replace: (match: string, ...groups: string[]) => string | null;
+}
+
+const PATTERN_RULES: Record<BuiltInPattern, Omit<TextRule, 'kind'>> = {
+  'jwt': {
+    regex: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]*/g,
+    replace: () => '<redacted:jwt>',
+  },
+  'bearer': {
+    regex: /\b(Bearer)\s+[A-Za-z0-9._~+/-]{8,}=*/gi,
+    replace: (_match, scheme) => `${scheme} <redacted:bearer>`,
+  },
+  'email': {
+    regex: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    replace: () => '<redacted:email>',
+  },
+  'credit-card': {
+    regex: /\b[3-6](?:\d[ -]?){11,17}\d\b/g,
+    replace: (match) => {
+      const digits = match.replace(/[ -]/g, '');
+      return digits.length >= 13 && digits.length <= 19 && isLuhnValid(digits) ? '<redacted:credit-card>' : null;
+    },
+  },
+};
+
+/**
+ * Checks user-supplied rules; returns the offending key and why for each problem
+ */
+export function validateRedactionRules(config: RedactionConfig): Array<{ key: keyof RedactionRules; message: string }> {
+  const problems: Array<{ key: keyof RedactionRules; message: string }> = [];
+  for (const pattern of config.patterns ?? []) {
+    if (!(BUILT_IN_PATTERNS as readonly string[]).includes(pattern)) {
+      problems.push({ key: 'patterns', message: `"${pattern}" is not a built-in pattern (expected one of: ${BUILT_IN_PATTERNS.join(', ')})` });
+    }
+  }
+  for (const source of config.regexes ?? []) {
+    try {
+      new RegExp(source, 'g');
+    } catch (error) {
+      problems.push({ key: 'regexes', message: `"${source}" is not a valid regular expression (${(error as Error).message})` });
+    }
+  }
+  return problems;
+}
+
+/**
+ * Applies the rules to one tool output and counts what it hid. Create one per
+ * tool call and add summary() to the response.
+ */
+export class Redactor {
+  count = 0;
+  private readonly headerNames: Set<string>;
+  private readonly cookieNames: Set<string>;
+  private readonly paths: string[][];
+  private readonly textRules: TextRule[];
+
+  constructor(rules: RedactionRules = DEFAULT_REDACTION_RULES, readonly enabled = true) {
+    this.headerNames = new Set(rules.headers.map(h => h.toLowerCase()));
+    this.cookieNames = new Set(rules.cookies.map(c => c.toLowerCase()));
+    this.paths = rules.jsonPaths.map(path => path.toLowerCase().split('.'));
+    this.textRules = [
+      ...rules.patterns.filter(p => PATTERN_RULES[p]).map(kind => ({ kind, ...PATTERN_RULES[kind] })),
+      ...rules.regexes.map(source => ({ kind: 'custom', regex: new RegExp(source, 'g'), replace: () => '<redacted:custom>' })),
+    ];
+  }
+
+  /**
+   * Applies the value patterns (JWTs, bearer tokens, ...) to free text
+   */
+  text(text: string): string {
+    if (!this.enabled || !text) return text;
+    let result = text;
+    for (const rule of this.textRules) {
+      result = result.replace(rule.regex, (match: string, ...groups: any[]) => {
+        const replacement = rule.replace(match, ...groups);
+        if (replacement === null) return match;
+        this.count++;
+        return replacement;
+      });
+    }
+    return result;
+  }
+
+  isSensitiveHeader(name: string): boolean {
+    return this.enabled && this.headerNames.has(name.toLowerCase());
+  }
+
+  headerValue(name: string, value: string): string {
+    if (!this.enabled) return value;
+    const lower = name.toLowerCase();
+    if (this.headerNames.has(lower)) {
+      this.count++;
+      return REDACTED;
+    }
+    if (lower === 'cookie' && this.cookieNames.size) {
+      value = value.split(/;\s*/).map(pair => this.cookiePair(pair)).join('; ');
+    } else if (lower === 'set-cookie' && this.cookieNames.size) {
+      // Playwright joins several Set-Cookie headers with newlines
+      value = value.split('\n').map(line => {
+        const [pair, ...attributes] = line.split(';');
+        return [this.cookiePair(pair), ...attributes].join(';');
+      }).join('\n');
+    }
+    return this.text(value);
+  }
+
+  headers(headers: Record<string, string> | undefined): Record<string, string> {
+    return Object.fromEntries(Object.entries(headers || {}).map(([name, value]) => [name, this.headerValue(name, String(value))]));
+  }
+
+  /**
+   * Redacts a request or response body: configured fields of JSON and
+   * form-encoded bodies, then the value patterns
+   */
+  body(body: string | null | undefined): string | null {
+    if (body === null || body === undefined) return null;
+    if (!this.enabled || !body) return body;
+
+    let result = body;
+    const trimmed = body.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      try {
+        const before = this.count;
+        const redacted = this.redactJson(JSON.parse(trimmed), []);
+        // Keep the original text (and formatting) when no field matched
+        if (this.count > before) result = JSON.stringify(redacted);
+      } catch {
+        // Not JSON after all
+      }
+    } else if (/^[^\s=&]+=[^\s&]*(?:&[^\s=&]+=[^\s&]*)*$/.test(trimmed)) {
+      result = this.formFields(trimmed);
+    }
+    return this.text(result);
+  }
+
+  /**
+   * Redacts configured query parameters and value patterns in a URL
+   */
+  url(url: string): string {
+    if (!this.enabled) return url;
+    const queryStart = url.indexOf('?');
+    if (queryStart === -1) return this.text(url);
+    const hashStart = url.indexOf('#', queryStart);
+    const query = url.slice(queryStart + 1, hashStart === -1 ? undefined : hashStart);
+    const rest = hashStart === -1 ? '' : url.slice(hashStart);
+    return this.text(`${url.slice(0, queryStart + 1)}${this.formFields(query)}${rest}`);
+  }
+
+  /**
+   * One-line note for the tool response, or null when nothing was redacted
+   */
+  summary(): string | null {
+    return this.count > 0 ? `Redacted: ${this.count} value${this.count === 1 ? '' : 's'} (redaction rules)` : null;
+  }
+
+  private cookiePair(pair: string): string {
+    const eq = pair.indexOf('=');
+    if (eq === -1) return pair;
+    const name = pair.slice(0, eq).trim().toLowerCase();
+    if (!this.cookieNames.has('*') && !this.cookieNames.has(name)) return pair;
+    this.count++;
+    return `${pair.slice(0, eq)}=${REDACTED}`;
+  }
+
+  private matchesPath(path: string[]): boolean {
+    return this.paths.some(rule => {
+      if (rule.length === 1) return rule[0] === '*' || rule[0] === path[path.length - 1];
+      return rule.length === path.length && rule.every((segment, i) => segment === '*' || segment === path[i]);
+    });
+  }
+
+  private redactJson(value: unknown, path: string[]): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactJson(item, path));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, child]) => {
+        const childPath = [...path, key.toLowerCase()];
+        if (this.matchesPath(childPath) && child !== null && child !== undefined && typeof child !== 'object') {
+          this.count++;
+          return [key, REDACTED];
+        }
+        return [key, this.redactJson(child, childPath)];
+      }));
+    }
+    return value;
+  }
+
+  private formFields(query: string): string {
+    return query.split('&').map(pair => {
+      const eq = pair.indexOf('=');
+      if (eq === -1) return pair;
+      let name: string;
+      try {
+        name = decodeURIComponent(pair.slice(0, eq).replace(/\+/g, ' ')).toLowerCase();
+      } catch {
+        return pair;
+      }
+      if (!this.matchesPath([name]) || eq === pair.length - 1) return pair;
+      this.count++;
+      return `${pair.slice(0, eq)}=${REDACTED}`;
+    }).join('&');
+  }
+}
@@ -1,61 +1,59 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { 
   ListResourcesRequestSchema, 
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema, 
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ListToolsRequestSchema, 
   CallToolRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   Tool
 } from "@modelcontextprotocol/sdk/types.js";
-import { handleToolCall, getConsoleLogs, getScreenshots } from "./toolHandler.js";
+import { handleToolCall } from "./toolHandler.js";
+import { runInSession } from "./session.js";
+import { createProgressReporter } from "./tools/common/progress.js";
+import { listPrompts, getPrompt } from "./prompts.js";
+import { listResources, listResourceTemplates, readResource, subscribeResource, unsubscribeResource } from "./resources.js";
+import { maskSecretsInResult } from "./secrets.js";
 
+// Requests run in the client session of their connection (extra.sessionId is
+// set by the HTTP transport; stdio requests use the default session)
 export function setupRequestHandlers(server: Server, tools: Tool[]) {
-  // List resources handler
-  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-    resources: [
-      {
-        uri: "console://logs",
-        mimeType: "text/plain",
-        name: "Browser console logs",
-      },
-      ...Array.from(getScreenshots().keys()).map(name => ({
-        uri: `screenshot://${name}`,
-        mimeType: "image/png",
-        name: `Screenshot: ${name}`,
-      })),
-    ],
+  // Resources: console, network log, current page and screenshots of the client session
+  server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => runInSession(extra.sessionId, async () => ({
+    resources: await listResources(),
+  })));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: listResourceTemplates(),
   }));
 
-  // Read resource handler
-  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-    const uri = request.params.uri.toString();
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) =>
+    runInSession(extra.sessionId, async () => maskSecretsInResult(await readResource(request.params.uri.toString())))
+  );
 
-    if (uri === "console://logs") {
-      const logs = getConsoleLogs().join("\n");
-      return {
-        contents: [{
-          uri,
-          mimeType: "text/plain",
-          text: logs,
-        }],
-      };
-    }
+  // Subscribers get notifications/resources/updated on new console errors and failed requests
+  server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => runInSession(extra.sessionId, () => {
+    subscribeResource(server, request.params.uri);
+    return {};
+  }));
 
-    if (uri.startsWith("screenshot://")) {
-      const name = uri.split("://")[1];
-      const screenshot = getScreenshots().get(name);
-      if (screenshot) {
-        return {
-          contents: [{
-            uri,
-            mimeType: "image/png",
-            blob: screenshot,
-          }],
-        };
-      }
-    }
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request, extra) => runInSession(extra.sessionId, () => {
+    unsubscribeResource(request.params.uri);
+    return {};
+  }));
 
-    throw new Error(`Resource not found: ${uri}`);
-  });
+  // Prompts: debugging workflows expanded into concrete tool calls
+  const toolNames = new Set(tools.map(tool => tool.name));
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: listPrompts(),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+    getPrompt(request.params.name, request.params.arguments, toolNames)
+  );
 
   // List tools handler
   server.setRequestHandler(ListToolsRequestSchema, async () => ({
@@ -63,7 +61,12 @@ export function setupRequestHandlers(server: Server, tools: Tool[]) {
   }));
 
   // Call tool handler
-  server.setRequestHandler(CallToolRequestSchema, async (request) =>
-    handleToolCall(request.params.name, request.params.arguments ?? {}, server)
+  // The abort signal fires on notifications/cancelled; progress goes back on the request's own stream.
+  // Values typed from secret references (fill) are masked in every result.
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) =>
+    runInSession(extra.sessionId, async () => maskSecretsInResult(await handleToolCall(request.params.name, request.params.arguments ?? {}, server, {
+      signal: extra.signal,
+      reportProgress: createProgressReporter(request.params._meta?.progressToken, extra.sendNotification),
+    })))
   );
 }
\ No newline at end of file
@@ -0,0 +1,189 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { ReadResourceResult, Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import { getSessionSlot } from "./session.js";
+
+export const CONSOLE_LOGS_URI = "console://logs";
+export const CONSOLE_TABS_URI = "console://tabs";
+export const NETWORK_REQUESTS_URI = "network://requests";
+const PAGE_URIS = ["page://html", "page://text", "page://url"] as const;
+
+// Resources whose content changes as the page runs; clients may subscribe to them
+const STATIC_RESOURCES: Resource[] = [
+  { uri: CONSOLE_LOGS_URI, mimeType: "text/plain", name: "Browser console logs", description: "Console output of the active tab" },
+  { uri: NETWORK_REQUESTS_URI, mimeType: "application/json", name: "Network requests", description: "Requests captured in the active tab (index, method, URL, status, timing)" },
+  { uri: "page://html", mimeType: "text/html", name: "Page HTML", description: "Current DOM of the active tab, serialized" },
+  { uri: "page://text", mimeType: "text/plain", name: "Page text", description: "Visible text of the active tab" },
+  { uri: "page://url", mimeType: "text/plain", name: "Page URL", description: "URL and title of the active tab" },
+];
+
+const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  { uriTemplate: `${NETWORK_REQUESTS_URI}/{index}`, mimeType: "application/json", name: "Network request", description: "One captured request with headers and full request/response bodies (index from network://requests)" },
+  { uriTemplate: `${CONSOLE_TABS_URI}/{tabId}`, mimeType: "text/plain", name: "Tab console logs", description: "Console output of one tab (IDs from list_tabs)" },
+  { uriTemplate: "screenshot://{name}", mimeType: "image/png", name: "Screenshot", description: "Screenshot stored in memory by visual_screenshot_for_humans" },
+];
+
+export function listResourceTemplates(): ResourceTemplate[] {
+  return RESOURCE_TEMPLATES;
+}
+
+/**
+ * Lists the fixed resources plus one entry per open tab and stored screenshot
+ */
+export async function listResources(): Promise<Resource[]> {
+  const { listTabs, getScreenshots } = await import("./toolHandler.js");
+  const tabs = await listTabs().catch(() => []);
+  return [
+    ...STATIC_RESOURCES,
+    ...tabs.map(tab => ({
+      uri: `${CONSOLE_TABS_URI}/${tab.id}`,
+      mimeType: "text/plain",
+      name: `Console logs: tab ${tab.id}${tab.title ? ` (${tab.title})` : ''}`,
+    })),
+    ...Array.from(getScreenshots().keys()).map(name => ({
+      uri: `screenshot://${name}`,
+      mimeType: "image/png",
+      name: `Screenshot: ${name}`,
+    })),
+  ];
+}
+
+function parseIndex(value: string, uri: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Resource not found: ${uri}`);
+  }
+  return Number(value);
+}
+
+/**
+ * Reads a resource of the current client session. Never launches a browser:
+ * page:// resources need a page opened by navigate (or connect_browser) first.
+ */
+export async function readResource(uri: string): Promise<ReadResourceResult> {
+  const toolHandler = await import("./toolHandler.js");
+  const text = (value: string, mimeType = "text/plain"): ReadResourceResult => ({ contents: [{ uri, mimeType, text: value }] });
+  const json = (value: unknown) => text(JSON.stringify(value, null, 2), "application/json");
+
+  if (uri === CONSOLE_LOGS_URI) {
+    const redactor = toolHandler.createRedactor("console");
+    return text(redactor.text(toolHandler.getConsoleLogs().join("\n")));
+  }
+
+  if (uri.startsWith(`${CONSOLE_TABS_URI}/`)) {
+    const tabId = parseIndex(uri.slice(CONSOLE_TABS_URI.length + 1), uri);
+    const redactor = toolHandler.createRedactor("console");
+    return text(redactor.text(toolHandler.getConsoleLogsForTab(tabId).join("\n")));
+  }
+
+  if (uri === NETWORK_REQUESTS_URI) {
+    const redactor = toolHandler.createRedactor("network");
+    return json(toolHandler.getNetworkLog().map(req => ({
+      index: req.index,
+      method: req.method,
+      url: redactor.url(req.url),
+      resourceType: req.resourceType,
+      status: req.status ?? null,
+      statusText: req.statusText ?? null,
+      timingMs: req.timing ?? null,
+      failure: req.failure ?? null,
+      mockedRouteId: req.mocked?.routeId ?? null,
+    })));
+  }
+
+  if (uri.startsWith(`${NETWORK_REQUESTS_URI}/`)) {
+    const index = parseIndex(uri.slice(NETWORK_REQUESTS_URI.length + 1), uri);
+    const req = toolHandler.findNetworkRequest(index);
+    if (req === "evicted") {
+      throw new Error(`Resource not found: ${uri} (request ${index} was dropped from the network log to make room for newer requests)`);
+    }
+    if (!req) {
+      throw new Error(`Resource not found: ${uri} (no request with index ${index} in the active tab)`);
+    }
+    const redactor = toolHandler.createRedactor("network");
+    return json({
+      index: req.index,
+      method: req.method,
+      url: redactor.url(req.url),
+      resourceType: req.resourceType,
+      timestamp: new Date(req.timestamp).toISOString(),
+      status: req.status ?? null,
+      statusText: req.statusText ?? null,
+      timingMs: req.timing ?? null,
+      failure: req.failure ?? null,
+      mocked: req.mocked ?? null,
+      request: {
+        headers: redactor.headers(req.requestData.headers),
+        body: redactor.body(req.requestData.postData),
+      },
+      response: req.responseData
+        ? {
+          headers: redactor.headers(req.responseData.headers),
+          body: redactor.body(req.responseData.body),
+          size: req.responseData.size ?? null,
+          bodyOmitted: req.responseData.bodyOmitted ?? null,
+        }
+        : null,
+    });
+  }
+
+  if ((PAGE_URIS as readonly string[]).includes(uri)) {
+    const page = toolHandler.getActivePage();
+    if (!page) {
+      throw new Error(`No page is open. Call navigate (or connect_browser) before reading ${uri}`);
+    }
+    const redactor = toolHandler.createRedactor("dom");
+    if (uri === "page://html") {
+      return text(redactor.text(await page.content()), "text/html");
+    }
+    if (uri === "page://text") {
+      return text(redactor.text(await page.innerText("body").catch(() => "")));
+    }
+    const title = await page.title().catch(() => "");
+    return text(title ? `${page.url()}\nTitle: ${title}` : page.url());
+  }
+
+  if (uri.startsWith("screenshot://")) {
+    const name = uri.slice("screenshot://".length);
+    const screenshot = toolHandler.getScreenshots().get(name);
+    if (screenshot) {
+      return { contents: [{ uri, mimeType: "image/png", blob: screenshot }] };
+    }
+  }
+
+  throw new Error(`Resource not found: ${uri}`);
+}
+
+// Subscriptions belong to the client session; updates go out through that session's server
+interface Subscriptions {
+  server?: Server;
+  uris: Set<string>;
+}
+
+function getSubscriptions(): Subscriptions {
+  return getSessionSlot("resourceSubscriptions", (): Subscriptions => ({ uris: new Set() }));
+}
+
+export function subscribeResource(server: Server, uri: string): void {
+  const subscriptions = getSubscriptions();
+  subscriptions.server = server;
+  subscriptions.uris.add(uri);
+}
+
+export function unsubscribeResource(uri: string): void {
+  getSubscriptions().uris.delete(uri);
+}
+
+/**
+ * Sends notifications/resources/updated for the subscribed URIs among `uris`.
+ * Called from browser event listeners, which run in their client session.
+ */
+export function notifyResourcesUpdated(uris: string[]): void {
+  const { server, uris: subscribed } = getSubscriptions();
+  if (!server || subscribed.size === 0) return;
+  for (const uri of uris) {
+    if (subscribed.has(uri)) {
+      server.sendResourceUpdated({ uri }).catch(() => {
+        // The client may have disconnected; updates are best-effort
+      });
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { readFileSync } from "node:fs";
+
+/**
+ * Secret references: tools that type into the page (fill) accept
+ * "secret:NAME" instead of a literal value. The value is resolved here,
+ * server-side, so credentials never pass through the model, and every value
+ * resolved so far is masked in what goes back to the client.
+ */
+export const SECRET_PREFIX = "secret:";
+
+// Prefix for environment variables that may be used as secrets without listing them
+export const SECRET_ENV_PREFIX = "MCP_WEB_INSPECTOR_SECRET_";
+
+// Shorter values would mask unrelated text all over the output
+const MIN_MASKED_LENGTH = 4;
+
+const SECRET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export interface SecretsOptions {
+  // JSON object or KEY=VALUE lines (.env style)
+  file?: string;
+  // Environment variables usable as secret:NAME, besides MCP_WEB_INSPECTOR_SECRET_NAME
+  env?: string[];
+}
+
+let secretsOptions: SecretsOptions = {};
+
+// Resolved values by name, shared by all client sessions: a value one session
+// typed must not leak through another
+const resolvedSecrets = new Map<string, string>();
+
+export function configureSecrets(options: SecretsOptions): void {
+  secretsOptions = { ...options };
+}
+
+export function isSecretRef(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(SECRET_PREFIX);
+}
+
+function parseSecretsFile(text: string): Record<string, string> {
+  if (text.trim().startsWith("{")) {
+    const parsed = JSON.parse(text);
+    return Object.fromEntries(Object.entries(parsed).filter(([, value]) => typeof value === "string")) as Record<string, string>;
+  }
+  const entries: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/);
+    if (!match) continue;
+    entries[match[1]] = match[2].replace(/^(["'])(.*)\1$/, "$2");
+  }
+  return entries;
+}
+
+function readSecretsFile(file: string): Record<string, string> {
+  try {
+    return parseSecretsFile(readFileSync(file, "utf8"));
+  } catch (error) {
+    // Never include file contents in the message
+    throw new Error(`Secrets file ${file} could not be read (${(error as Error).name})`);
+  }
+}
+
+/**
+ * Resolves "secret:NAME": the secrets file first, then MCP_WEB_INSPECTOR_SECRET_NAME,
+ * then NAME when it is listed in the secrets env option. Errors name the
+ * secret and where it was looked up, never a value.
+ */
+export function resolveSecretRef(ref: string, env: NodeJS.ProcessEnv = process.env): { name: string; value: string } {
+  const name = ref.slice(SECRET_PREFIX.length).trim();
+  if (!SECRET_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid secret reference "${ref}" (expected secret:NAME with letters, digits and _)`);
+  }
+
+  const fromFile = secretsOptions.file ? readSecretsFile(secretsOptions.file)[name] : undefined;
+  const value = fromFile
+    ?? env[`${SECRET_ENV_PREFIX}${name}`]
+    ?? (secretsOptions.env?.includes(name) ? env[name] : undefined);
+  if (value === undefined) {
+    const places = [
+      secretsOptions.file ? `the secrets file ${secretsOptions.file}` : "",
+      `the ${SECRET_ENV_PREFIX}${name} environment variable`,
+      secretsOptions.env?.length ? `the listed environment variables (${secretsOptions.env.join(", ")})` : "",
+    ].filter(Boolean);
+    throw new Error(`Secret "${name}" is not defined. Looked in ${places.join(", ")}.`);
+  }
+
+  resolvedSecrets.set(name, value);
+  return { name, value };
+}
+
+/**
+ * Replaces every resolved secret value in text with [secret:NAME], including
+ * URL-encoded and JSON-escaped forms as they appear in request bodies
+ */
+export function maskSecrets(text: string): string {
+  if (!resolvedSecrets.size || !text) return text;
+  let masked = text;
+  for (const [name, value] of resolvedSecrets) {
+    if (value.length < MIN_MASKED_LENGTH) continue;
+    const forms = new Set([
+      value,
+      encodeURIComponent(value),
+      encodeURIComponent(value).replace(/%20/g, "+"),
+      JSON.stringify(value).slice(1, -1),
+    ]);
+    // Longest first, so a form containing another is replaced whole
+    for (const form of [...forms].sort((a, b) => b.length - a.length)) {
+      masked = masked.split(form).join(`[${SECRET_PREFIX}${name}]`);
+    }
+  }
+  return masked;
+}
+
+/**
+ * Masks secrets in a tool or resource result: text content, resource text and structuredContent
+ */
+export function maskSecretsInResult<T>(result: T): T {
+  if (!resolvedSecrets.size) return result;
+  const walk = (value: unknown, key?: string): unknown => {
+    if (typeof value === "string") {
+      // Base64 payloads (screenshots) cannot contain a typed value verbatim
+      return key === "data" || key === "blob" ? value : maskSecrets(value);
+    }
+    if (Array.isArray(value)) return value.map(item => walk(item));
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, walk(v, k)]));
+    }
+    return value;
+  };
+  return walk(result) as T;
+}
+
+// Test hook: forget resolved values
+export function clearResolvedSecrets(): void {
+  resolvedSecrets.clear();
+}
@@ -0,0 +1,84 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Per-client session state.
+ *
+ * Every MCP connection (the single stdio client, or each Streamable HTTP
+ * session) gets its own ClientSession: its own browser, tabs, console logs,
+ * screenshots, tool instances and confirm_output tokens. Modules keep their
+ * state in named slots of the current session instead of module-level
+ * variables, so two clients never see each other's data.
+ */
+export interface ClientSession {
+  id: string;
+  createdAt: number;
+  lastActivity: number;
+  slots: Map<string, unknown>;
+}
+
+// Session used when no connection is bound (stdio transport, tests, CLI)
+export const DEFAULT_SESSION_ID = 'default';
+
+const sessions = new Map<string, ClientSession>();
+const storage = new AsyncLocalStorage<ClientSession>();
+
+function getOrCreateSession(id: string): ClientSession {
+  let session = sessions.get(id);
+  if (!session) {
+    const now = Date.now();
+    session = { id, createdAt: now, lastActivity: now, slots: new Map() };
+    sessions.set(id, session);
+  }
+  return session;
+}
+
+/**
+ * Gets the session of the running call (the default session outside of one)
+ */
+export function getCurrentSession(): ClientSession {
+  return storage.getStore() ?? getOrCreateSession(DEFAULT_SESSION_ID);
+}
+
+/**
+ * Runs fn with the given session as the current one. Calls without a
+ * session ID (stdio) run in the default session.
+ */
+export function runInSession<T>(id: string | undefined, fn: () => T): T {
+  const session = getOrCreateSession(id || DEFAULT_SESSION_ID);
+  session.lastActivity = Date.now();
+  return storage.run(session, fn);
+}
+
+/**
+ * Wraps a callback so it runs in the session that is current now. Needed for
+ * Playwright event listeners, which fire outside of any tool call.
+ */
+export function bindToSession<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => R {
+  const session = getCurrentSession();
+  return (...args: A) => storage.run(session, () => fn(...args));
+}
+
+/**
+ * Gets a named piece of state of the current session, creating it on first use
+ */
+export function getSessionSlot<T>(key: string, create: () => T): T {
+  const slots = getCurrentSession().slots;
+  if (!slots.has(key)) {
+    slots.set(key, create());
+  }
+  return slots.get(key) as T;
+}
+
+/**
+ * Forgets a session and all of its state (its resources must be released first)
+ */
+export function deleteSession(id: string): boolean {
+  return sessions.delete(id);
+}
+
+/**
+ * Lists the IDs of known sessions
+ */
+export function listSessionIds(): string[] {
+  return Array.from(sessions.keys());
+}
@@ -1,12 +1,20 @@
-import type { Browser, Page } from 'playwright';
+import type { Browser, BrowserContext, ConsoleMessage, Page, Request, Response, Route } from 'playwright';
 import { chromium, firefox, webkit, devices } from 'playwright';
 import { join } from 'node:path';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import type { ToolContext, SessionConfig } from './tools/common/types.js';
+import type { ProgressReporter } from './tools/common/progress.js';
 import { checkBrowsersInstalled, getInstallationInstructions } from './utils/browserCheck.js';
-import { getToolInstance, isBrowserTool, executeTool } from './tools/common/registry.js';
+import { getToolInstance, isBrowserTool, executeTool, getDisabledToolMessage } from './tools/common/registry.js';
 import { ScreenshotTool } from './tools/browser/content/screenshot.js';
 import { GetConsoleLogsTool } from './tools/browser/console/get_console_logs.js';
+import { installPerformanceObservers } from './tools/browser/performance/observers.js';
+import { getSessionSlot, bindToSession, getCurrentSession, runInSession, deleteSession } from './session.js';
+import { notifyResourcesUpdated, CONSOLE_LOGS_URI, CONSOLE_TABS_URI, NETWORK_REQUESTS_URI } from './resources.js';
+import { CONFIG_DEFAULTS } from './config.js';
+import { checkUrlPolicy, isUrlPolicyActive } from './tools/browser/navigation/urlPolicy.js';
+import { Redactor, resolveRedactionRules, type RedactionChannel } from './redaction.js';
+import { captureResponseBody } from './tools/browser/network/capture.js';
 
 // Network request tracking
 export interface NetworkRequest {
@@ -25,15 +33,139 @@ export interface NetworkRequest {
   responseData?: {
     headers: Record<string, string>;
     body: string | null;
+    // Body size in bytes when known, also for bodies that were not kept
+    size?: number;
+    // Why body is null: binary content or over the capture limit
+    bodyOmitted?: string;
+  };
+  // Set when a mock route (mock_route tool) handled the request
+  mocked?: {
+    routeId: number;
+    action: 'fulfill' | 'abort' | 'delay';
+  };
+  // Set when the request failed: DNS errors, refused connections, CORS blocks,
+  // aborts (e.g. "net::ERR_CONNECTION_REFUSED")
+  failure?: string;
+}
+
+// Tab tracking: every page opened in a browser context (including popups)
+// gets a stable numeric ID and its own network log. Console history is kept
+// per tab by GetConsoleLogsTool using the same ID.
+export interface TrackedTab {
+  id: number;
+  page: Page;
+  contextName: string;
+  openerId?: number;
+  // Most recent requests, at most networkCapture.logSize; indices stay stable when old ones are dropped
+  networkLog: NetworkRequest[];
+  nextRequestIndex: number;
+}
+
+export interface TabSummary {
+  id: number;
+  url: string;
+  title: string;
+  active: boolean;
+  openerId?: number;
+}
+
+type ColorSchemeOverride = 'light' | 'dark' | 'no-preference';
+
+// Named browser contexts: isolated cookies/storage with their own tabs,
+// console/network history and color scheme override. The "default" context
+// is created with the browser; others are created via create_context.
+export const DEFAULT_CONTEXT_NAME = 'default';
+
+interface NamedContext {
+  name: string;
+  context: BrowserContext;
+  tabs: TrackedTab[];
+  activeTabId?: number;
+  colorSchemeOverride: ColorSchemeOverride | null;
+  routes: MockRoute[];
+  harReplay?: HarReplay;
+  createdAt: number;
+}
+
+export interface ContextSummary {
+  name: string;
+  tabCount: number;
+  activeUrl?: string;
+  colorScheme: ColorSchemeOverride | null;
+  persistent: boolean;
+}
+
+/**
+ * Browser state of one client session (see session.ts): every MCP connection
+ * gets its own browser, named contexts and tabs
+ */
+interface BrowserState {
+  browser: Browser | undefined;
+  page: Page | undefined;
+  currentBrowserType: 'chromium' | 'firefox' | 'webkit';
+  currentDevice: string | undefined;
+  contexts: Map<string, NamedContext>;
+  currentContextName: string;
+  nextTabId: number;
+  nextRouteId: number;
+  // Options used for the default context; reused for named contexts so they
+  // share viewport/device emulation
+  contextCreationOptions: Record<string, any>;
+  // Whether this session's default context uses the persistent profile
+  persistent: boolean;
+  // Set when attached to a browser we did not launch (close only disconnects)
+  connection?: BrowserConnection;
+  // Navigations refused by the URL policy, most recent last
+  blockedNavigations: BlockedNavigation[];
+}
+
+/**
+ * A navigation refused by the URL policy (see urlPolicy.ts)
+ */
+export interface BlockedNavigation {
+  url: string;
+  reason: string;
+  timestamp: number;
+  tabId?: number;
+}
+
+const MAX_BLOCKED_NAVIGATIONS = 50;
+
+/**
+ * How the current browser was attached (see connect_browser tool)
+ */
+export interface BrowserConnection {
+  kind: 'cdp' | 'ws';
+  endpoint: string;
+}
+
+function createBrowserState(): BrowserState {
+  return {
+    browser: undefined,
+    page: undefined,
+    currentBrowserType: 'chromium',
+    currentDevice: undefined,
+    contexts: new Map(),
+    currentContextName: DEFAULT_CONTEXT_NAME,
+    nextTabId: 1,
+    nextRouteId: 1,
+    contextCreationOptions: {},
+    persistent: false,
+    connection: undefined,
+    blockedNavigations: [],
   };
 }
 
-// Global state
-let browser: Browser | undefined;
-let page: Page | undefined;
-let currentBrowserType: 'chromium' | 'firefox' | 'webkit' = 'chromium';
-let currentDevice: string | undefined;
-let networkLog: NetworkRequest[] = [];
+/**
+ * Gets the browser state of the current client session
+ */
+function state(): BrowserState {
+  return getSessionSlot('browser', createBrowserState);
+}
+
+// Session that owns the persistent profile (--user-data-dir). Chromium locks
+// the profile directory, so concurrent sessions get non-persistent browsers.
+let persistentProfileOwner: string | undefined;
 
 let sessionConfig: SessionConfig = {
   saveSession: false,
@@ -43,9 +175,6 @@ let sessionConfig: SessionConfig = {
   exposeSensitiveNetworkData: false,
 };
 
-type ColorSchemeOverride = 'light' | 'dark' | 'no-preference';
-let colorSchemeOverride: ColorSchemeOverride | null = null;
-
 // Resolve package root for child processes (like npx). Entry point sets
 // MCP_WEB_INSPECTOR_PACKAGE_ROOT using import.meta.url; tests and other
 // environments fall back to process.cwd().
@@ -65,6 +194,37 @@ export function getSessionConfig(): SessionConfig {
   return sessionConfig;
 }
 
+/**
+ * Gets the default timeouts (ms) for navigation and waits, with configured overrides
+ */
+export function getTimeouts(): typeof CONFIG_DEFAULTS.timeouts {
+  return { ...CONFIG_DEFAULTS.timeouts, ...sessionConfig.timeouts };
+}
+
+/**
+ * Gets the default output limits, with configured overrides
+ */
+export function getOutputLimits(): typeof CONFIG_DEFAULTS.output {
+  return { ...CONFIG_DEFAULTS.output, ...sessionConfig.outputLimits };
+}
+
+/**
+ * Creates a redactor for one tool output. exposeSensitiveNetworkData turns
+ * redaction off for the network channel only.
+ */
+export function createRedactor(channel: RedactionChannel): Redactor {
+  const { redaction, exposeSensitiveNetworkData } = sessionConfig;
+  const enabled = redaction?.enabled !== false && !(channel === 'network' && exposeSensitiveNetworkData);
+  return new Redactor(resolveRedactionRules(redaction), enabled);
+}
+
+/**
+ * Gets the attributes get_test_ids scans by default
+ */
+export function getTestIdAttributes(): string[] {
+  return sessionConfig.testIdAttributes?.length ? sessionConfig.testIdAttributes : CONFIG_DEFAULTS.testIdAttributes;
+}
+
 /**
  * Gets the screenshots directory
  */
@@ -72,6 +232,13 @@ export function getScreenshotsDir(): string {
   return sessionConfig.screenshotsDir;
 }
 
+/**
+ * Gets the engine of the running browser (chromium, firefox or webkit)
+ */
+export function getCurrentBrowserType(): 'chromium' | 'firefox' | 'webkit' {
+  return state().currentBrowserType;
+}
+
 /**
  * Gets the default headless setting
  */
@@ -84,50 +251,752 @@ export function getHeadlessDefault(): boolean {
  * Used when browser is closed
  */
 export function resetBrowserState() {
-  browser = undefined;
-  page = undefined;
-  currentBrowserType = 'chromium';
-  currentDevice = undefined;
-  networkLog = [];
+  const s = state();
+  s.browser = undefined;
+  s.page = undefined;
+  s.currentBrowserType = 'chromium';
+  s.currentDevice = undefined;
+  s.connection = undefined;
+  clearContexts();
+}
+
+/**
+ * Closes the browser (if any) and resets state. Returns false when no browser was running.
+ * For attached browsers (see connectBrowser), Playwright's close() only
+ * disconnects and closes contexts this server created; the browser keeps running.
+ */
+export async function closeBrowser(): Promise<boolean> {
+  const s = state();
+  if (!s.browser) {
+    return false;
+  }
+  try {
+    if (s.browser.isConnected()) {
+      await s.browser.close().catch(e => console.error("Error closing browser:", e));
+    }
+  } catch (error) {
+    console.error("Error during browser close:", error);
+  } finally {
+    resetBrowserState();
+  }
+  return true;
+}
+
+/**
+ * Gets how the current browser was attached, if it was not launched by this server
+ */
+export function getBrowserConnection(): BrowserConnection | undefined {
+  return state().connection;
+}
+
+/**
+ * Picks the page to work with in an attached browser: the first page whose
+ * URL contains urlContains, else the first regular web page, else the first page
+ */
+export function pickAttachedPage<T extends { url(): string }>(pages: T[], urlContains?: string): T | undefined {
+  if (urlContains) {
+    return pages.find(p => p.url().includes(urlContains));
+  }
+  const isInternal = (url: string) => /^(devtools|chrome|chrome-extension|chrome-untrusted|edge):/.test(url);
+  return pages.find(p => /^(https?|file):/.test(p.url()))
+    ?? pages.find(p => !isInternal(p.url()))
+    ?? pages[0];
+}
+
+/**
+ * Attaches to an already running browser instead of launching one: over the
+ * Chrome DevTools Protocol (Chrome with --remote-debugging-port, Electron) or
+ * to a Playwright browser server (browserType.launchServer). Replaces the
+ * current browser of the session. Existing pages are tracked as tabs of the
+ * default context with the usual console and network capture.
+ */
+export async function connectBrowser(options: {
+  cdpEndpoint?: string;
+  wsEndpoint?: string;
+  browserType?: 'chromium' | 'firefox' | 'webkit';
+  urlContains?: string;
+  timeout?: number;
+}): Promise<{ connection: BrowserConnection; tab: TrackedTab; tabCount: number }> {
+  const s = state();
+  if (!options.cdpEndpoint === !options.wsEndpoint) {
+    throw new Error("Provide exactly one of cdpEndpoint or wsEndpoint");
+  }
+  if (options.cdpEndpoint && options.browserType && options.browserType !== 'chromium') {
+    throw new Error("CDP endpoints are Chromium-only; use wsEndpoint for Firefox/WebKit browser servers");
+  }
+
+  await closeBrowser();
+
+  const browserType = options.cdpEndpoint ? 'chromium' : (options.browserType ?? 'chromium');
+  const connection: BrowserConnection = options.cdpEndpoint
+    ? { kind: 'cdp', endpoint: options.cdpEndpoint }
+    : { kind: 'ws', endpoint: options.wsEndpoint! };
+  const browserInstance = browserType === 'firefox' ? firefox : browserType === 'webkit' ? webkit : chromium;
+
+  console.warn(`Connecting to ${browserType} over ${connection.kind.toUpperCase()} at ${connection.endpoint}...`);
+  const connected = connection.kind === 'cdp'
+    ? await chromium.connectOverCDP(connection.endpoint, { timeout: options.timeout })
+    : await browserInstance.connect(connection.endpoint, { timeout: options.timeout });
+
+  s.browser = connected;
+  s.currentBrowserType = browserType;
+  s.currentDevice = undefined;
+  s.connection = connection;
+
+  connected.on('disconnected', bindToSession(() => {
+    console.warn(`Attached browser at ${connection.endpoint} disconnected`);
+    // A later browser may already have replaced this one
+    if (s.browser !== connected) return;
+    s.browser = undefined;
+    s.page = undefined;
+    s.connection = undefined;
+    clearContexts();
+  }));
+
+  try {
+    // CDP exposes the browser's default context; a browser server starts without contexts
+    const context = connected.contexts()[0] ?? await connected.newContext();
+    s.contextCreationOptions = {};
+    const defaultContext = await trackContext(DEFAULT_CONTEXT_NAME, context);
+
+    const pages = context.pages();
+    const target = pickAttachedPage(pages, options.urlContains);
+    if (!target && options.urlContains) {
+      const urls = pages.map(p => p.url()).join(', ') || '(no pages)';
+      throw new Error(`No page URL contains "${options.urlContains}". Open pages: ${urls}`);
+    }
+    const tab = await activatePage(defaultContext, target ?? await context.newPage());
+    return { connection, tab, tabCount: defaultContext.tabs.length };
+  } catch (error) {
+    await closeBrowser();
+    throw error;
+  }
+}
+
+/**
+ * Ends a client session: closes its browser and drops its logs, screenshots,
+ * tool state and confirm_output tokens
+ */
+export async function endClientSession(id: string): Promise<void> {
+  await runInSession(id, async () => {
+    await closeBrowser();
+    resetBrowserState();
+  });
+  deleteSession(id);
+}
+
+/**
+ * Claims the persistent profile for the current session. Returns false when
+ * another session's browser is using it.
+ */
+function claimPersistentProfile(): boolean {
+  const id = getCurrentSession().id;
+  if (persistentProfileOwner && persistentProfileOwner !== id) {
+    console.warn(`Persistent profile is in use by another session; launching a fresh browser for session ${id}`);
+    return false;
+  }
+  persistentProfileOwner = id;
+  state().persistent = true;
+  return true;
+}
+
+function clearContexts(): void {
+  const s = state();
+  if (s.persistent) {
+    s.persistent = false;
+    persistentProfileOwner = undefined;
+  }
+  s.contexts = new Map();
+  s.currentContextName = DEFAULT_CONTEXT_NAME;
+  s.nextTabId = 1;
+  s.nextRouteId = 1;
+  getConsoleLogsTool()?.setActiveTab(null);
 }
 
 /**
- * Gets the network log
+ * Gets the network log of the active tab
  */
 export function getNetworkLog(): NetworkRequest[] {
-  return networkLog;
+  return getActiveTab()?.networkLog ?? [];
+}
+
+/**
+ * Finds a request of the active tab by its index. Returns "evicted" when the
+ * request was dropped from the log to make room for newer ones.
+ */
+export function findNetworkRequest(index: number): NetworkRequest | 'evicted' | undefined {
+  const tab = getActiveTab();
+  if (!tab || !Number.isInteger(index) || index < 0 || index >= tab.nextRequestIndex) return undefined;
+  return tab.networkLog.find(req => req.index === index) ?? 'evicted';
+}
+
+/**
+ * Gets the network capture limits (log size per tab, largest body kept)
+ */
+export function getNetworkCaptureLimits(): typeof CONFIG_DEFAULTS.network {
+  return { ...CONFIG_DEFAULTS.network, ...sessionConfig.networkCapture };
+}
+
+// Routine cancellations (navigating away, superseded loads) rather than failures
+const CANCELLED_REQUEST_ERRORS = ['net::ERR_ABORTED', 'NS_BINDING_ABORTED', 'cancelled'];
+
+/**
+ * Requests of the active tab that started at or after the given time (ms) and
+ * failed, oldest first. Leaves out cancellations and mock_route aborts.
+ */
+export function getFailedRequestsSince(since: number): NetworkRequest[] {
+  return getNetworkLog().filter(req =>
+    req.failure &&
+    req.timestamp >= since &&
+    req.mocked?.action !== 'abort' &&
+    !CANCELLED_REQUEST_ERRORS.some(text => req.failure!.includes(text)));
+}
+
+/**
+ * Gets the page of the active tab without launching a browser
+ */
+export function getActivePage(): Page | undefined {
+  const page = state().page;
+  return page && !page.isClosed() ? page : undefined;
 }
 
 /**
- * Clears the network log
+ * Clears the network log of the active tab
  */
 export function clearNetworkLog() {
-  networkLog = [];
+  const tab = getActiveTab();
+  if (tab) {
+    tab.networkLog = [];
+    tab.nextRequestIndex = 0;
+  }
+}
+
+function getConsoleLogsTool(): GetConsoleLogsTool | null {
+  return getToolInstance("get_console_logs", null) as GetConsoleLogsTool;
+}
+
+function getCurrentContext(): NamedContext | undefined {
+  const s = state();
+  return s.contexts.get(s.currentContextName);
+}
+
+function getActiveTab(): TrackedTab | undefined {
+  const ctx = getCurrentContext();
+  return ctx?.tabs.find(t => t.id === ctx.activeTabId);
+}
+
+function findTab(target: Page): TrackedTab | undefined {
+  const s = state();
+  for (const ctx of s.contexts.values()) {
+    const tab = ctx.tabs.find(t => t.page === target);
+    if (tab) return tab;
+  }
+  return undefined;
+}
+
+/**
+ * Re-points the global page and console capture to the current context's active tab
+ */
+function syncActivePage(): void {
+  const s = state();
+  const tab = getActiveTab();
+  s.page = tab?.page;
+  getConsoleLogsTool()?.setActiveTab(tab?.id ?? null);
+}
+
+/**
+ * Starts tracking a page as a tab of the given context: assigns an ID and
+ * registers console, network and color scheme handling. Idempotent for
+ * already tracked pages.
+ */
+async function trackPage(ctx: NamedContext, newPage: Page): Promise<TrackedTab> {
+  const s = state();
+  const existing = findTab(newPage);
+  if (existing) return existing;
+
+  const tab: TrackedTab = { id: s.nextTabId++, page: newPage, contextName: ctx.name, networkLog: [], nextRequestIndex: 0 };
+  ctx.tabs.push(tab);
+
+  newPage.on('close', bindToSession(() => untrackPage(newPage)));
+
+  await registerConsoleMessage(newPage);
+  await registerNetworkListeners(newPage);
+  await installUrlPolicyRoute(newPage);
+  // Core Web Vitals observers for get_performance_metrics (from the next navigation on)
+  await newPage.addInitScript(installPerformanceObservers);
+  await applyColorScheme(newPage);
+
+  // Popups know their opener; remember it to show where a tab came from
+  try {
+    const opener = await newPage.opener();
+    const openerTab = opener ? findTab(opener) : undefined;
+    if (openerTab) tab.openerId = openerTab.id;
+  } catch {
+    // Opener lookup is best-effort
+  }
+  return tab;
+}
+
+function untrackPage(closedPage: Page): void {
+  const s = state();
+  const tab = findTab(closedPage);
+  const ctx = tab ? s.contexts.get(tab.contextName) : undefined;
+  if (!tab || !ctx) return;
+  ctx.tabs = ctx.tabs.filter(t => t !== tab);
+
+  if (ctx.activeTabId === tab.id) {
+    // Fall back to the most recently opened remaining tab
+    ctx.activeTabId = ctx.tabs[ctx.tabs.length - 1]?.id;
+    if (ctx.name === s.currentContextName) syncActivePage();
+  }
+}
+
+/**
+ * Registers a browser context under a name and tracks its pages, including
+ * popups and tabs opened by the page itself (target=_blank, window.open,
+ * OAuth flows).
+ */
+async function trackContext(name: string, context: BrowserContext): Promise<NamedContext> {
+  const s = state();
+  const existing = s.contexts.get(name);
+  if (existing && existing.context === context) return existing;
+
+  const ctx: NamedContext = {
+    name,
+    context,
+    tabs: [],
+    colorSchemeOverride: existing?.colorSchemeOverride ?? null,
+    routes: [],
+    createdAt: Date.now(),
+  };
+  s.contexts.set(name, ctx);
+  await installUrlPolicyRoute(context);
+
+  context.on('page', bindToSession((newPage: Page) => {
+    trackPage(ctx, newPage).catch(err => console.error("Failed to track new tab:", err));
+  }));
+
+  for (const existingPage of context.pages()) {
+    await trackPage(ctx, existingPage);
+  }
+  return ctx;
+}
+
+/**
+ * Makes the given page the active tab of its context. When that context is
+ * the current one, tools, console and network capture are re-pointed to it.
+ */
+async function activatePage(ctx: NamedContext, target: Page): Promise<TrackedTab> {
+  const s = state();
+  const tab = await trackPage(ctx, target);
+  ctx.activeTabId = tab.id;
+  if (ctx.name === s.currentContextName) syncActivePage();
+  return tab;
 }
+
 /**
  * Sets the provided page to the global page variable
  * @param newPage The Page object to set as the global page
  */
 export async function setGlobalPage(newPage: Page): Promise<void> {
-  page = newPage;
-
-  // Register console message handlers and network listeners for the new page
-  await registerConsoleMessage(page);
-  await registerNetworkListeners(page);
-  await applyColorScheme(page);
+  const s = state();
+  const owner = findTab(newPage)?.contextName ?? s.currentContextName;
+  const ctx = s.contexts.get(owner);
+  if (!ctx) {
+    throw new Error(`Browser context "${owner}" not found`);
+  }
+  s.currentContextName = ctx.name;
+  await activatePage(ctx, newPage);
 
-  page.bringToFront();// Bring the new tab to the front
+  await newPage.bringToFront(); // Bring the new tab to the front
   console.error("Global page has been updated with listeners registered.");
 }
 
-function getColorSchemeValue(): ColorSchemeOverride | null {
-  return colorSchemeOverride;
+/**
+ * Lists tracked tabs of the current context in the order they were opened
+ */
+export async function listTabs(): Promise<TabSummary[]> {
+  const ctx = getCurrentContext();
+  const result: TabSummary[] = [];
+  for (const tab of ctx?.tabs ?? []) {
+    if (tab.page.isClosed()) continue;
+    let title = '';
+    try { title = await tab.page.title(); } catch {}
+    result.push({
+      id: tab.id,
+      url: tab.page.url(),
+      title,
+      active: tab.id === ctx.activeTabId,
+      openerId: tab.openerId,
+    });
+  }
+  return result;
+}
+
+/**
+ * Opens a new tab in the current browser context and makes it active
+ */
+export async function openNewTab(): Promise<TrackedTab> {
+  const ctx = getCurrentContext();
+  if (!ctx) {
+    throw new Error("Browser page not initialized!");
+  }
+  const newPage = await ctx.context.newPage();
+  await setGlobalPage(newPage);
+  return findTab(newPage)!;
+}
+
+/**
+ * Switches the active tab of the current context by ID
+ */
+export async function switchToTab(id: number): Promise<TrackedTab> {
+  const tab = getCurrentContext()?.tabs.find(t => t.id === id);
+  if (!tab || tab.page.isClosed()) {
+    throw new Error(`Tab ${id} not found. Use list_tabs to see open tabs.`);
+  }
+  await setGlobalPage(tab.page);
+  return tab;
+}
+
+/**
+ * Closes a tab by ID (defaults to the active tab). When the active tab is
+ * closed, the most recently opened remaining tab becomes active.
+ */
+export async function closeTab(id?: number): Promise<{ closedId: number; active?: TrackedTab }> {
+  const ctx = getCurrentContext();
+  const targetId = id ?? ctx?.activeTabId;
+  const tab = ctx?.tabs.find(t => t.id === targetId);
+  if (!tab) {
+    throw new Error(`Tab ${targetId} not found. Use list_tabs to see open tabs.`);
+  }
+  if (!tab.page.isClosed()) {
+    await tab.page.close();
+  }
+  untrackPage(tab.page);
+  return { closedId: tab.id, active: getActiveTab() };
+}
+
+/**
+ * Gets the ID of the active tab
+ */
+export function getActiveTabId(): number | undefined {
+  return getCurrentContext()?.activeTabId;
+}
+
+/**
+ * Selects the browser context that subsequent tool code operates on.
+ * Unknown names (other than the default context) are rejected.
+ */
+export function selectContext(name: string = DEFAULT_CONTEXT_NAME): void {
+  const s = state();
+  if (name !== DEFAULT_CONTEXT_NAME && !s.contexts.has(name)) {
+    const known = Array.from(s.contexts.keys()).join(', ') || DEFAULT_CONTEXT_NAME;
+    throw new Error(`Browser context "${name}" not found. Available: ${known}. Use create_context to create it.`);
+  }
+  s.currentContextName = name;
+  syncActivePage();
+}
+
+/**
+ * Gets the name of the selected browser context
+ */
+export function getCurrentContextName(): string {
+  return state().currentContextName;
+}
+
+/**
+ * Creates an isolated named browser context (own cookies, storage, tabs,
+ * console and network logs) with a single blank tab
+ */
+export async function createNamedContext(name: string): Promise<NamedContext> {
+  const s = state();
+  if (!s.browser) {
+    throw new Error("Browser not initialized!");
+  }
+  if (s.contexts.has(name)) {
+    throw new Error(`Browser context "${name}" already exists`);
+  }
+
+  let context: BrowserContext;
+  try {
+    context = await s.browser.newContext(s.contextCreationOptions);
+  } catch (error) {
+    throw new Error(
+      `Failed to create browser context "${name}": ${(error as Error).message}` +
+      (s.persistent ? '\nTip: restart with --no-save-session if the persistent session does not support extra contexts.' : '')
+    );
+  }
+
+  const ctx = await trackContext(name, context);
+  await activatePage(ctx, await context.newPage());
+  return ctx;
+}
+
+/**
+ * Closes a named browser context and all its tabs. The default context
+ * cannot be destroyed (use close to shut down the browser).
+ */
+export async function destroyNamedContext(name: string): Promise<number> {
+  const s = state();
+  if (name === DEFAULT_CONTEXT_NAME) {
+    throw new Error(`The ${DEFAULT_CONTEXT_NAME} context cannot be destroyed. Use close to shut down the browser.`);
+  }
+  const ctx = s.contexts.get(name);
+  if (!ctx) {
+    throw new Error(`Browser context "${name}" not found`);
+  }
+
+  const tabCount = ctx.tabs.length;
+  s.contexts.delete(name);
+  if (s.currentContextName === name) {
+    s.currentContextName = DEFAULT_CONTEXT_NAME;
+    syncActivePage();
+  }
+  await ctx.context.close().catch(err => console.error(`Error closing context ${name}:`, err));
+  return tabCount;
+}
+
+/**
+ * Lists named browser contexts
+ */
+export function listContexts(): ContextSummary[] {
+  const s = state();
+  return Array.from(s.contexts.values()).map(ctx => {
+    const active = ctx.tabs.find(t => t.id === ctx.activeTabId);
+    let activeUrl: string | undefined;
+    try { activeUrl = active && !active.page.isClosed() ? active.page.url() : undefined; } catch {}
+    return {
+      name: ctx.name,
+      tabCount: ctx.tabs.length,
+      activeUrl,
+      colorScheme: ctx.colorSchemeOverride,
+      persistent: ctx.name === DEFAULT_CONTEXT_NAME && s.persistent,
+    };
+  });
+}
+
+/**
+ * Spec for a mocked route (see mock_route tool)
+ */
+export interface MockRouteSpec {
+  // Playwright glob (e.g. "**/api/users*") or a regex literal (e.g. "/\\/api\\/v\\d+\\//i")
+  pattern: string;
+  method?: string;
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string;
+  contentType?: string;
+  // Abort instead of fulfilling (Playwright error code, e.g. 'failed', 'timedout')
+  abortCode?: string;
+  delayMs?: number;
+  times?: number;
+}
+
+export interface MockRoute extends MockRouteSpec {
+  id: number;
+  action: 'fulfill' | 'abort' | 'delay';
+  hits: number;
+  contextName: string;
+  matcher: string | RegExp;
+  handler: (route: Route) => Promise<void>;
+}
+
+/**
+ * Parses a route pattern: "/.../flags" becomes a RegExp, anything else is a Playwright glob
+ */
+export function parseRoutePattern(pattern: string): string | RegExp {
+  const m = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (m) {
+    return new RegExp(m[1], m[2]);
+  }
+  return pattern;
+}
+
+// Requests handled by a mock route, used to mark network log entries.
+// The route handler and the 'request' event may run in either order,
+// so both sides record what they know.
+const mockedRequests = new WeakMap<Request, { routeId: number; action: MockRoute['action'] }>();
+const requestEntries = new WeakMap<Request, NetworkRequest>();
+
+function markMocked(request: Request, route: MockRoute): void {
+  const mocked = { routeId: route.id, action: route.action };
+  const entry = requestEntries.get(request);
+  if (entry) {
+    entry.mocked = mocked;
+  } else {
+    mockedRequests.set(request, mocked);
+  }
+}
+
+/**
+ * Registers a mock route on every tab of the selected browser context
+ */
+export async function addMockRoute(spec: MockRouteSpec): Promise<MockRoute> {
+  const s = state();
+  const ctx = getCurrentContext();
+  if (!ctx) {
+    throw new Error("Browser page not initialized!");
+  }
+
+  const action: MockRoute['action'] = spec.abortCode
+    ? 'abort'
+    : (spec.status !== undefined || spec.body !== undefined) ? 'fulfill' : 'delay';
+  const wantedMethod = spec.method ? spec.method.toUpperCase() : undefined;
+
+  const mock: MockRoute = {
+    ...spec,
+    method: wantedMethod,
+    id: s.nextRouteId++,
+    action,
+    hits: 0,
+    contextName: ctx.name,
+    matcher: parseRoutePattern(spec.pattern),
+    handler: async (route: Route) => {
+      const request = route.request();
+      const exhausted = mock.times !== undefined && mock.hits >= mock.times;
+      if ((wantedMethod && request.method() !== wantedMethod) || exhausted) {
+        await route.fallback();
+        return;
+      }
+
+      mock.hits++;
+      markMocked(request, mock);
+
+      if (mock.delayMs) {
+        await new Promise(resolve => setTimeout(resolve, mock.delayMs));
+      }
+
+      if (mock.action === 'abort') {
+        await route.abort(mock.abortCode);
+      } else if (mock.action === 'fulfill') {
+        await route.fulfill({
+          status: mock.status ?? 200,
+          headers: mock.headers,
+          contentType: mock.contentType,
+          body: mock.body ?? '',
+        });
+      } else {
+        await route.fallback();
+      }
+    },
+  };
+
+  await ctx.context.route(mock.matcher, mock.handler);
+  ctx.routes.push(mock);
+  return mock;
+}
+
+/**
+ * Removes a mock route by ID, or all mock routes of the selected context when no ID is given
+ */
+export async function removeMockRoutes(id?: number): Promise<MockRoute[]> {
+  const ctx = getCurrentContext();
+  if (!ctx) return [];
+
+  const removed = id === undefined ? [...ctx.routes] : ctx.routes.filter(r => r.id === id);
+  if (id !== undefined && removed.length === 0) {
+    throw new Error(`Mock route #${id} not found. Use list_routes to see active routes.`);
+  }
+  for (const mock of removed) {
+    await ctx.context.unroute(mock.matcher, mock.handler).catch(() => {});
+  }
+  ctx.routes = ctx.routes.filter(r => !removed.includes(r));
+  return removed;
+}
+
+/**
+ * Lists mock routes of the selected browser context
+ */
+export function listMockRoutes(): MockRoute[] {
+  return getCurrentContext()?.routes ?? [];
+}
+
+/**
+ * Looks up a mock route by ID across contexts (for describing mocked requests)
+ */
+export function findMockRoute(id: number): MockRoute | undefined {
+  const s = state();
+  for (const ctx of s.contexts.values()) {
+    const found = ctx.routes.find(r => r.id === id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Active HAR replay of a browser context (see replay_har tool)
+ */
+export interface HarReplay {
+  path: string;
+  url?: string;
+  notFound: 'abort' | 'fallback';
+  startedAt: number;
+}
+
+/**
+ * Serves matching requests of the selected browser context from a HAR file.
+ * Replaces an earlier replay of the same context.
+ */
+export async function startHarReplay(harPath: string, options: { url?: string; notFound?: 'abort' | 'fallback' } = {}): Promise<HarReplay> {
+  const ctx = getCurrentContext();
+  if (!ctx) {
+    throw new Error("Browser page not initialized!");
+  }
+  if (ctx.harReplay) {
+    await stopHarReplay();
+  }
+
+  const notFound = options.notFound ?? 'fallback';
+  await ctx.context.routeFromHAR(harPath, {
+    url: options.url ? parseRoutePattern(options.url) : undefined,
+    notFound,
+  });
+  // Mock routes registered later take precedence over the HAR, as they would
+  // when added after the replay started
+  for (const mock of ctx.routes) {
+    await ctx.context.unroute(mock.matcher, mock.handler).catch(() => {});
+    await ctx.context.route(mock.matcher, mock.handler);
+  }
+
+  ctx.harReplay = { path: harPath, url: options.url, notFound, startedAt: Date.now() };
+  return ctx.harReplay;
+}
+
+/**
+ * Stops the HAR replay of the selected browser context. Playwright has no
+ * handle for HAR routes, so all routes are removed and mock routes re-added.
+ */
+export async function stopHarReplay(): Promise<HarReplay | undefined> {
+  const ctx = getCurrentContext();
+  const replay = ctx?.harReplay;
+  if (!ctx || !replay) return undefined;
+
+  await ctx.context.unrouteAll({ behavior: 'ignoreErrors' });
+  await installUrlPolicyRoute(ctx.context);
+  for (const mock of ctx.routes) {
+    await ctx.context.route(mock.matcher, mock.handler);
+  }
+  ctx.harReplay = undefined;
+  return replay;
+}
+
+/**
+ * Gets the HAR replay of the selected browser context, if any
+ */
+export function getHarReplay(): HarReplay | undefined {
+  return getCurrentContext()?.harReplay;
+}
+
+function getColorSchemeValue(targetPage: Page): ColorSchemeOverride | null {
+  const s = state();
+  const owner = findTab(targetPage)?.contextName ?? s.currentContextName;
+  return s.contexts.get(owner)?.colorSchemeOverride ?? null;
 }
 
 async function applyColorScheme(targetPage: Page | undefined): Promise<void> {
   if (!targetPage) return;
 
-  const scheme = getColorSchemeValue();
+  const scheme = getColorSchemeValue(targetPage);
 
   try {
     // Some test environments or mocks may not implement emulateMedia
@@ -153,17 +1022,24 @@ async function applyColorScheme(targetPage: Page | undefined): Promise<void> {
   }
 }
 
+/**
+ * Sets the color scheme override of the selected browser context
+ */
 export async function setColorSchemeOverride(
   scheme: ColorSchemeOverride | null
 ): Promise<void> {
-  colorSchemeOverride = scheme;
-  if (page && !page.isClosed()) {
-    await applyColorScheme(page);
+  const ctx = getCurrentContext();
+  if (!ctx) return;
+  ctx.colorSchemeOverride = scheme;
+  for (const tab of ctx.tabs) {
+    if (!tab.page.isClosed()) {
+      await applyColorScheme(tab.page);
+    }
   }
 }
 
 export function getColorSchemeOverride(): ColorSchemeOverride | null {
-  return colorSchemeOverride;
+  return getCurrentContext()?.colorSchemeOverride ?? null;
 }
 
 interface BrowserSettings {
@@ -195,6 +1071,28 @@ const DEVICE_PRESETS: Record<string, string> = {
   'laptop-hd': 'Laptop HD'
 };
 
+/**
+ * Names accepted by the device parameter and the browser.device config option
+ */
+export function getDevicePresetNames(): string[] {
+  return Object.keys(DEVICE_PRESETS);
+}
+
+/**
+ * Fills in launch settings the tool call left open from the configuration.
+ * Only used when launching, so a configured viewport or device never
+ * overrides one chosen later by a tool call.
+ */
+function withConfiguredDefaults(browserSettings?: BrowserSettings): BrowserSettings {
+  const settings: BrowserSettings = { ...browserSettings };
+  if (settings.viewport?.width === undefined && settings.viewport?.height === undefined && sessionConfig.defaultViewport) {
+    settings.viewport = sessionConfig.defaultViewport;
+  }
+  settings.device ??= sessionConfig.defaultDevice;
+  settings.browserType ??= sessionConfig.defaultBrowserType;
+  return settings;
+}
+
 /**
  * Custom device configurations for presets not in Playwright's built-in devices
  */
@@ -228,13 +1126,62 @@ const CUSTOM_DEVICE_CONFIGS: Record<string, any> = {
   }
 };
 
+/**
+ * Checks a URL against the navigation policy (--allow-urls, --deny-urls,
+ * --deny-schemes). Returns why it is blocked, or null when allowed.
+ */
+export function checkNavigationUrl(url: string): string | null {
+  return checkUrlPolicy(url, sessionConfig.urlPolicy);
+}
+
+/**
+ * Logs a refused navigation to stderr and to the console log of the tab it came from
+ */
+export function recordBlockedNavigation(url: string, reason: string, tabId?: number): BlockedNavigation {
+  const blocked: BlockedNavigation = { url, reason, timestamp: Date.now(), tabId };
+  const list = state().blockedNavigations;
+  list.push(blocked);
+  if (list.length > MAX_BLOCKED_NAVIGATIONS) list.shift();
+
+  console.warn(`[url-policy] Blocked navigation to ${url}: ${reason}`);
+  getConsoleLogsTool()?.registerConsoleMessage('warning', `[url-policy] Blocked navigation to ${url} (${reason})`, tabId);
+  return blocked;
+}
+
+/**
+ * Navigations blocked since the given time (ms), oldest first
+ */
+export function getBlockedNavigationsSince(since: number): BlockedNavigation[] {
+  return state().blockedNavigations.filter(b => b.timestamp >= since);
+}
+
+// Aborts document requests (pages, frames, popups, redirects) that the policy refuses.
+// Page routes run before context routes, so mock routes and HAR replay cannot bypass it;
+// the context route covers popups before they are tracked.
+async function installUrlPolicyRoute(target: BrowserContext | Page): Promise<void> {
+  if (!isUrlPolicyActive(sessionConfig.urlPolicy)) return;
+  await target.route('**/*', bindToSession(async (route: Route) => {
+    const request = route.request();
+    const reason = request.isNavigationRequest() ? checkNavigationUrl(request.url()) : null;
+    if (!reason) {
+      await route.fallback();
+      return;
+    }
+    const frame = request.frame();
+    recordBlockedNavigation(request.url(), reason, findTab(frame.page())?.id);
+    await route.abort('blockedbyclient');
+  }));
+}
+
 /**
  * Register network event listeners
  */
 async function registerNetworkListeners(page) {
-  page.on('request', (request) => {
-    networkLog.push({
-      index: networkLog.length,
+  page.on('request', bindToSession((request: Request) => {
+    const tab = findTab(page);
+    if (!tab) return;
+    const entry: NetworkRequest = {
+      index: tab.nextRequestIndex++,
       method: request.method(),
       url: request.url(),
       resourceType: request.resourceType(),
@@ -242,47 +1189,67 @@ async function registerNetworkListeners(page) {
       requestData: {
         headers: request.headers(),
         postData: request.postData() || null
-      }
-    });
-  });
-
-  page.on('response', async (response) => {
-    // Find the matching request by URL and method (most recent match)
-    const url = response.url();
-    const method = response.request().method();
-
-    for (let i = networkLog.length - 1; i >= 0; i--) {
-      if (networkLog[i].url === url &&
-          networkLog[i].method === method &&
-          !networkLog[i].status) {
-
-        networkLog[i].status = response.status();
-        networkLog[i].statusText = response.statusText();
-        networkLog[i].timing = Date.now() - networkLog[i].timestamp;
-
-        // Try to capture response body (may fail for some resource types)
-        let responseBody: string | null = null;
-        try {
-          responseBody = await response.text();
-        } catch (e) {
-          // Ignore errors (e.g., image/binary responses)
-          responseBody = null;
-        }
-
-        networkLog[i].responseData = {
-          headers: response.headers(),
-          body: responseBody
-        };
+      },
+      mocked: mockedRequests.get(request),
+    };
+    requestEntries.set(request, entry);
+    tab.networkLog.push(entry);
+    // Ring buffer: drop the oldest entries
+    const { logSize } = getNetworkCaptureLimits();
+    if (tab.networkLog.length > logSize) {
+      tab.networkLog.splice(0, tab.networkLog.length - logSize);
+    }
+  }));
+
+  page.on('response', bindToSession(async (response: Response) => {
+    // Keyed by the Request object, so concurrent identical requests (polling,
+    // duplicate fetches) each get their own response
+    const entry = requestEntries.get(response.request());
+    if (!entry) return;
+
+    entry.status = response.status();
+    entry.statusText = response.statusText();
+    entry.timing = Date.now() - entry.timestamp;
+
+    const headers = response.headers();
+    entry.responseData = { headers, body: null };
+    const captured = await captureResponseBody(headers, () => response.body(), getNetworkCaptureLimits().maxBodySize);
+    entry.responseData = {
+      headers,
+      body: captured.body,
+      ...(captured.size !== undefined ? { size: captured.size } : {}),
+      ...(captured.omitted ? { bodyOmitted: captured.omitted } : {}),
+    };
 
-        break;
-      }
+    if (response.status() >= 400) {
+      notifyResourcesUpdated([NETWORK_REQUESTS_URI, `${NETWORK_REQUESTS_URI}/${entry.index}`]);
     }
-  });
+  }));
+
+  page.on('requestfailed', bindToSession((request: Request) => {
+    const entry = requestEntries.get(request);
+    if (!entry) return;
+    entry.failure = request.failure()?.errorText || 'unknown error';
+    entry.timing = Date.now() - entry.timestamp;
+    notifyResourcesUpdated([NETWORK_REQUESTS_URI, `${NETWORK_REQUESTS_URI}/${entry.index}`]);
+  }));
+
+  page.on('requestfinished', bindToSession((request: Request) => {
+    const entry = requestEntries.get(request);
+    // Total duration, including the body download after the response headers
+    if (entry) entry.timing = Date.now() - entry.timestamp;
+  }));
+}
+
+// Subscribed clients hear about new errors instead of polling get_console_logs
+function notifyConsoleError(tabId: number | undefined): void {
+  notifyResourcesUpdated(tabId === undefined ? [CONSOLE_LOGS_URI] : [CONSOLE_LOGS_URI, `${CONSOLE_TABS_URI}/${tabId}`]);
 }
 
 async function registerConsoleMessage(page) {
-  page.on("console", (msg) => {
-    const consoleLogsTool = getToolInstance("get_console_logs", null) as GetConsoleLogsTool;
+  page.on("console", bindToSession((msg: ConsoleMessage) => {
+    const consoleLogsTool = getConsoleLogsTool();
+    const tabId = findTab(page)?.id;
     if (consoleLogsTool) {
       const type = msg.type();
       let text = msg.text();
@@ -290,7 +1257,8 @@ async function registerConsoleMessage(page) {
       // "Unhandled Rejection In Promise" we injected
       if (text.startsWith("[Playwright]")) {
         const payload = text.replace("[Playwright]", "");
-        consoleLogsTool.registerConsoleMessage("exception", payload);
+        consoleLogsTool.registerConsoleMessage("exception", payload, tabId);
+        notifyConsoleError(tabId);
       } else {
         // Truncate stack traces for error messages to keep output compact
         if (type === 'error' && text.includes('\n')) {
@@ -300,23 +1268,26 @@ async function registerConsoleMessage(page) {
             text = lines.slice(0, 4).join('\n') + '\n  ...[stack trace truncated]';
           }
         }
-        consoleLogsTool.registerConsoleMessage(type, text);
+        consoleLogsTool.registerConsoleMessage(type, text, tabId);
+        if (type === 'error') notifyConsoleError(tabId);
       }
     }
-  });
+  }));
 
   // Uncaught exception
-  page.on("pageerror", (error) => {
-    const consoleLogsTool = getToolInstance("get_console_logs", null) as GetConsoleLogsTool;
+  page.on("pageerror", bindToSession((error: Error) => {
+    const consoleLogsTool = getConsoleLogsTool();
     if (consoleLogsTool) {
       const message = error.message;
       const stack = error.stack || "";
       const truncatedStack = stack
         ? '\n  ' + stack.split('\n').slice(0, 3).join('\n  ') + '\n  ...[truncated]'
         : '';
-      consoleLogsTool.registerConsoleMessage("exception", `${message}${truncatedStack}`);
+      const tabId = findTab(page)?.id;
+      consoleLogsTool.registerConsoleMessage("exception", `${message}${truncatedStack}`, tabId);
+      notifyConsoleError(tabId);
     }
-  });
+  }));
 
   // Unhandled rejection in promise
   await page.addInitScript(() => {
@@ -336,6 +1307,15 @@ async function registerConsoleMessage(page) {
   });
 }
 
+/**
+ * Strips launch-only options (headless, executablePath) so persistent context
+ * options can be reused for browser.newContext()
+ */
+function withoutLaunchOptions(options: Record<string, any>): Record<string, any> {
+  const { headless, executablePath, ...rest } = options;
+  return rest;
+}
+
 // Track if we've checked browser installation
 let browserInstallationChecked = false;
 
@@ -375,9 +1355,15 @@ async function getScreenSize(): Promise<{ width: number; height: number }> {
  * Ensures a browser is launched and returns the page
  */
 export async function ensureBrowser(browserSettings?: BrowserSettings) {
+  const s = state();
   try {
+    // Attach to the browser given on the command line instead of launching one
+    if (!s.browser && (sessionConfig.cdpEndpoint || sessionConfig.wsEndpoint)) {
+      await connectBrowser({ cdpEndpoint: sessionConfig.cdpEndpoint, wsEndpoint: sessionConfig.wsEndpoint });
+    }
+
     // Check if browsers are installed on first launch (only once)
-    if (!browser && !browserInstallationChecked) {
+    if (!s.browser && !browserInstallationChecked) {
       browserInstallationChecked = true;
       const browserCheck = checkBrowsersInstalled();
       if (!browserCheck.installed) {
@@ -403,10 +1389,10 @@ export async function ensureBrowser(browserSettings?: BrowserSettings) {
     }
 
     // Check if browser exists but is disconnected
-    if (browser && !browser.isConnected()) {
+    if (s.browser && !s.browser.isConnected()) {
       console.warn("Browser exists but is disconnected. Cleaning up...");
       try {
-        await browser.close().catch(err => console.error("Error closing disconnected browser:", err));
+        await s.browser.close().catch(err => console.error("Error closing disconnected browser:", err));
       } catch (e) {
         // Ignore errors when closing disconnected browser
       }
@@ -414,11 +1400,11 @@ export async function ensureBrowser(browserSettings?: BrowserSettings) {
       resetBrowserState();
     }
 
-    // Check if device preset has changed (requires browser restart)
-    if (browser && browserSettings?.device && browserSettings.device !== currentDevice) {
-      console.warn(`Device preset changed from ${currentDevice || 'none'} to ${browserSettings.device}. Restarting browser...`);
+    // Check if device preset has changed (requires browser restart; never for attached browsers)
+    if (s.browser && !s.connection && browserSettings?.device && browserSettings.device !== s.currentDevice) {
+      console.warn(`Device preset changed from ${s.currentDevice || 'none'} to ${browserSettings.device}. Restarting browser...`);
       try {
-        await browser.close().catch(err => console.error("Error closing browser on device change:", err));
+        await s.browser.close().catch(err => console.error("Error closing browser on device change:", err));
       } catch (e) {
         // Ignore errors when closing browser
       }
@@ -426,30 +1412,30 @@ export async function ensureBrowser(browserSettings?: BrowserSettings) {
     }
 
     // If browser exists and viewport settings changed, resize the viewport
-    if (browser && page && !page.isClosed() && browserSettings?.viewport) {
+    if (s.browser && s.page && !s.page.isClosed() && browserSettings?.viewport) {
       const { width, height } = browserSettings.viewport;
       // Only resize if width or height are explicitly provided
       if (width !== undefined || height !== undefined) {
-        const currentViewport = page.viewportSize();
+        const currentViewport = s.page.viewportSize();
         const targetWidth = width ?? currentViewport?.width ?? 1280;
         const targetHeight = height ?? currentViewport?.height ?? 720;
 
         // Check if viewport size actually changed
         if (!currentViewport || currentViewport.width !== targetWidth || currentViewport.height !== targetHeight) {
           console.error(`Resizing viewport to ${targetWidth}x${targetHeight}`);
-          await page.setViewportSize({ width: targetWidth, height: targetHeight });
+          await s.page.setViewportSize({ width: targetWidth, height: targetHeight });
         }
       }
     }
 
     // Launch new browser if needed
-    if (!browser) {
-      const { viewport, userAgent, headless = sessionConfig.headlessDefault, browserType = 'chromium', device } = browserSettings ?? {};
+    if (!s.browser) {
+      const { viewport, userAgent, headless = sessionConfig.headlessDefault, browserType = 'chromium', device } = withConfiguredDefaults(browserSettings);
 
       // If browser type is changing, force a new browser instance
-      if (browser && currentBrowserType !== browserType) {
+      if (s.browser && s.currentBrowserType !== browserType) {
         try {
-          await browser.close().catch(err => console.error("Error closing browser on type change:", err));
+          await s.browser.close().catch(err => console.error("Error closing browser on type change:", err));
         } catch (e) {
           // Ignore errors
         }
@@ -464,13 +1450,13 @@ export async function ensureBrowser(browserSettings?: BrowserSettings) {
         deviceConfig = CUSTOM_DEVICE_CONFIGS[playwrightDeviceName] || devices[playwrightDeviceName];
         if (deviceConfig) {
           console.error(`Using device preset: ${device} (${playwrightDeviceName})`);
-          currentDevice = device;
+          s.currentDevice = device;
         } else {
           console.warn(`Warning: Device preset ${playwrightDeviceName} not found`);
-          currentDevice = undefined;
+          s.currentDevice = undefined;
         }
       } else {
-        currentDevice = undefined;
+        s.currentDevice = undefined;
       }
 
       console.warn(`Launching new ${browserType} browser instance...`);
@@ -531,39 +1517,44 @@ export async function ensureBrowser(browserSettings?: BrowserSettings) {
       }
 
       // Use persistent context if session saving is enabled
-      if (sessionConfig.saveSession) {
+      if (sessionConfig.saveSession && claimPersistentProfile()) {
         console.warn(`Launching ${browserType} with persistent context at ${sessionConfig.userDataDir}...`);
 
         const context = await browserInstance.launchPersistentContext(sessionConfig.userDataDir, contextOptions);
 
         // Get the browser instance from the context
-        browser = context.browser()!;
-        currentBrowserType = browserType;
+        s.browser = context.browser()!;
+        s.currentBrowserType = browserType;
 
         // Add cleanup logic when browser is disconnected
-        browser.on('disconnected', () => {
+        s.browser.on('disconnected', bindToSession(() => {
           console.warn("Browser disconnected event triggered");
-          browser = undefined;
-          page = undefined;
-        });
+          s.browser = undefined;
+          s.page = undefined;
+          clearContexts();
+        }));
 
         // Get or create the first page
         const pages = context.pages();
-        page = pages.length > 0 ? pages[0] : await context.newPage();
+        const firstPage = pages.length > 0 ? pages[0] : await context.newPage();
+        s.contextCreationOptions = withoutLaunchOptions(contextOptions);
+        const defaultContext = await trackContext(DEFAULT_CONTEXT_NAME, context);
+        await activatePage(defaultContext, firstPage);
       } else {
-        browser = await browserInstance.launch({
+        s.browser = await browserInstance.launch({
           headless,
           executablePath: executablePath
         });
 
-        currentBrowserType = browserType;
+        s.currentBrowserType = browserType;
 
         // Add cleanup logic when browser is disconnected
-        browser.on('disconnected', () => {
+        s.browser.on('disconnected', bindToSession(() => {
           console.warn("Browser disconnected event triggered");
-          browser = undefined;
-          page = undefined;
-        });
+          s.browser = undefined;
+          s.page = undefined;
+          clearContexts();
+        }));
 
         // Prepare new context options (without headless and executablePath which are for launch)
         const newContextOptions: any = {};
@@ -580,38 +1571,45 @@ export async function ensureBrowser(browserSettings?: BrowserSettings) {
           newContextOptions.deviceScaleFactor = 1;
         }
 
-        const context = await browser.newContext(newContextOptions);
+        const context = await s.browser.newContext(newContextOptions);
+        s.contextCreationOptions = newContextOptions;
 
-        page = await context.newPage();
+        // Track tabs (console/network listeners are registered per tab)
+        const defaultContext = await trackContext(DEFAULT_CONTEXT_NAME, context);
+        await activatePage(defaultContext, await context.newPage());
       }
-
-      // Register console message handler and network listeners
-      await registerConsoleMessage(page);
-      await registerNetworkListeners(page);
-      await applyColorScheme(page);
     }
     
     // Verify page is still valid
-    if (!page || page.isClosed()) {
-      console.warn("Page is closed or invalid. Creating new page...");
-      // Create a new page if the current one is invalid
-      const context = browser.contexts()[0] || await browser.newContext();
-      page = await context.newPage();
-      
-      // Re-register console message handler and network listeners
-      await registerConsoleMessage(page);
-      await registerNetworkListeners(page);
-      await applyColorScheme(page);
+    if (!s.page || s.page.isClosed()) {
+      // Prefer another tab of the selected context that is still open (e.g., the active tab was closed)
+      let ctx = getCurrentContext();
+      const openTab = ctx ? [...ctx.tabs].reverse().find(t => !t.page.isClosed()) : undefined;
+      if (ctx && openTab) {
+        await activatePage(ctx, openTab.page);
+      } else {
+        console.warn("Page is closed or invalid. Creating new page...");
+        // Create a new page if the current one is invalid
+        if (!ctx) {
+          const context = s.browser.contexts()[0] || await s.browser.newContext(s.contextCreationOptions);
+          ctx = await trackContext(s.currentContextName, context);
+        }
+        await activatePage(ctx, await ctx.context.newPage());
+      }
     }
     
-    await applyColorScheme(page);
-    return page!;
+    await applyColorScheme(s.page);
+    return s.page!;
   } catch (error) {
     console.error("Error ensuring browser:", error);
+    // Launching a fresh browser would silently replace the one we were asked to attach to
+    if (sessionConfig.cdpEndpoint || sessionConfig.wsEndpoint) {
+      throw error;
+    }
     // If something went wrong, clean up completely and retry once
     try {
-      if (browser) {
-        await browser.close().catch(() => {});
+      if (s.browser) {
+        await s.browser.close().catch(() => {});
       }
     } catch (e) {
       // Ignore errors during cleanup
@@ -620,7 +1618,7 @@ export async function ensureBrowser(browserSettings?: BrowserSettings) {
     resetBrowserState();
 
     // Try one more time from scratch
-    const { viewport, userAgent, headless = sessionConfig.headlessDefault, browserType = 'chromium', device } = browserSettings ?? {};
+    const { viewport, userAgent, headless = sessionConfig.headlessDefault, browserType = 'chromium', device } = withConfiguredDefaults(browserSettings);
 
     // Get device configuration if device preset is specified
     let deviceConfig = null;
@@ -629,12 +1627,12 @@ export async function ensureBrowser(browserSettings?: BrowserSettings) {
       // Check custom configs first, then Playwright's built-in devices
       deviceConfig = CUSTOM_DEVICE_CONFIGS[playwrightDeviceName] || devices[playwrightDeviceName];
       if (deviceConfig) {
-        currentDevice = device;
+        s.currentDevice = device;
       } else {
-        currentDevice = undefined;
+        s.currentDevice = undefined;
       }
     } else {
-      currentDevice = undefined;
+      s.currentDevice = undefined;
     }
 
     // Use the appropriate browser engine
@@ -690,34 +1688,39 @@ export async function ensureBrowser(browserSettings?: BrowserSettings) {
     }
 
     // Use persistent context if session saving is enabled
-    if (sessionConfig.saveSession) {
+    if (sessionConfig.saveSession && claimPersistentProfile()) {
       console.warn(`Launching ${browserType} with persistent context at ${sessionConfig.userDataDir} (retry)...`);
 
       const context = await browserInstance.launchPersistentContext(sessionConfig.userDataDir, retryContextOptions);
 
-      browser = context.browser()!;
-      currentBrowserType = browserType;
+      s.browser = context.browser()!;
+      s.currentBrowserType = browserType;
 
-      browser.on('disconnected', () => {
+      s.browser.on('disconnected', bindToSession(() => {
         console.warn("Browser disconnected event triggered (retry)");
-        browser = undefined;
-        page = undefined;
-      });
+        s.browser = undefined;
+        s.page = undefined;
+        clearContexts();
+      }));
 
       const pages = context.pages();
-      page = pages.length > 0 ? pages[0] : await context.newPage();
+      const firstPage = pages.length > 0 ? pages[0] : await context.newPage();
+      s.contextCreationOptions = withoutLaunchOptions(retryContextOptions);
+      const defaultContext = await trackContext(DEFAULT_CONTEXT_NAME, context);
+      await activatePage(defaultContext, firstPage);
     } else {
-      browser = await browserInstance.launch({
+      s.browser = await browserInstance.launch({
         headless,
         executablePath: executablePath
       });
-      currentBrowserType = browserType;
+      s.currentBrowserType = browserType;
 
-      browser.on('disconnected', () => {
+      s.browser.on('disconnected', bindToSession(() => {
         console.warn("Browser disconnected event triggered (retry)");
-        browser = undefined;
-        page = undefined;
-      });
+        s.browser = undefined;
+        s.page = undefined;
+        clearContexts();
+      }));
 
       // Prepare new context options (without headless and executablePath which are for launch)
       const retryNewContextOptions: any = {};
@@ -734,16 +1737,14 @@ export async function ensureBrowser(browserSettings?: BrowserSettings) {
         retryNewContextOptions.deviceScaleFactor = 1;
       }
 
-      const context = await browser.newContext(retryNewContextOptions);
+      const context = await s.browser.newContext(retryNewContextOptions);
+      s.contextCreationOptions = retryNewContextOptions;
 
-      page = await context.newPage();
+      const defaultContext = await trackContext(DEFAULT_CONTEXT_NAME, context);
+      await activatePage(defaultContext, await context.newPage());
     }
 
-    await registerConsoleMessage(page);
-    await registerNetworkListeners(page);
-    await applyColorScheme(page);
-
-    return page!;
+    return s.page!;
   }
 }
 
@@ -754,26 +1755,30 @@ export async function ensureBrowser(browserSettings?: BrowserSettings) {
 export async function handleToolCall(
   name: string,
   args: any,
-  server: any
+  server: any,
+  options: { signal?: AbortSignal; reportProgress?: ProgressReporter } = {}
 ): Promise<CallToolResult> {
+  const s = state();
   try {
+    // Disabled tools are refused before anything touches the browser
+    const disabled = getDisabledToolMessage(name);
+    if (disabled) {
+      return {
+        content: [{ type: "text", text: disabled }],
+        isError: true,
+      };
+    }
 
     // Special case for browser close to ensure it always works
     if (name === "close") {
-      if (browser) {
-        try {
-          if (browser.isConnected()) {
-            await browser.close().catch(e => console.error("Error closing browser:", e));
-          }
-        } catch (error) {
-          console.error("Error during browser close in handler:", error);
-        } finally {
-          resetBrowserState();
-        }
+      const connection = state().connection;
+      if (await closeBrowser()) {
         return {
           content: [{
             type: "text",
-            text: "Browser closed successfully",
+            text: connection
+              ? `Disconnected from browser at ${connection.endpoint} (the browser keeps running)`
+              : "Browser closed successfully",
           }],
           isError: false,
         };
@@ -787,13 +1792,14 @@ export async function handleToolCall(
       };
     }
 
-    const requiresBrowser = isBrowserTool(name);
+    // connect_browser attaches instead of launching, so it must not trigger a launch first
+    const requiresBrowser = isBrowserTool(name) && name !== 'connect_browser';
 
     // Check if we have a disconnected browser that needs cleanup
-    if (browser && !browser.isConnected() && requiresBrowser) {
+    if (s.browser && !s.browser.isConnected() && requiresBrowser) {
       console.warn("Detected disconnected browser before tool execution, cleaning up...");
       try {
-        await browser.close().catch(() => {}); // Ignore errors
+        await s.browser.close().catch(() => {}); // Ignore errors
       } catch (e) {
         // Ignore any errors during cleanup
       }
@@ -802,11 +1808,26 @@ export async function handleToolCall(
 
     // Prepare context based on tool requirements
     const context: ToolContext = {
-      server
+      server,
+      signal: options.signal,
+      reportProgress: options.reportProgress,
     };
 
     // Set up browser if needed
     if (requiresBrowser) {
+      // Route the call to the requested named browser context (default when omitted)
+      try {
+        selectContext(typeof args.context === 'string' && args.context ? args.context : DEFAULT_CONTEXT_NAME);
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: (error as Error).message,
+          }],
+          isError: true,
+        };
+      }
+
       const browserSettings = {
         viewport: {
           width: args.width,
@@ -814,13 +1835,13 @@ export async function handleToolCall(
         },
         userAgent: name === "set_user_agent" ? args.userAgent : undefined,
         headless: args.headless,
-        browserType: args.browserType || 'chromium',
+        browserType: args.browserType || sessionConfig.defaultBrowserType || 'chromium',
         device: args.device
       };
 
       try {
         context.page = await ensureBrowser(browserSettings);
-        context.browser = browser;
+        context.browser = s.browser;
       } catch (error) {
         console.error("Failed to ensure browser:", error);
         return {
@@ -879,6 +1900,14 @@ export function getConsoleLogs(): string[] {
   return consoleLogsTool?.getConsoleLogs() ?? [];
 }
 
+/**
+ * Get console logs of one tab (by tab ID, see list_tabs)
+ */
+export function getConsoleLogsForTab(tabId: number): string[] {
+  const consoleLogsTool = getToolInstance("get_console_logs", null) as GetConsoleLogsTool;
+  return consoleLogsTool?.getTabLogs(tabId) ?? [];
+}
+
 /**
  * Get console logs captured after the last navigation
  */
@@ -906,6 +1935,14 @@ export function getScreenshots(): Map<string, string> {
   return screenshotTool?.getScreenshots() ?? new Map();
 }
 
+/**
+ * Time (ms) of the last navigation or interaction, for "since" filters
+ */
+export function getLastActionTimestamp(kind: 'navigation' | 'interaction'): number {
+  const consoleLogsTool = getToolInstance("get_console_logs", null) as GetConsoleLogsTool;
+  return consoleLogsTool?.getLastActionTimestamp(kind) ?? 0;
+}
+
 /**
  * Update last interaction timestamp
  */
@@ -923,11 +1960,14 @@ export function updateLastNavigationTimestamp(): void {
 }
 
 /**
- * Clear console logs
+ * Clear console logs of the active tab; returns how many were cleared
  */
-export function clearConsoleLogs(): void {
+export function clearConsoleLogs(): number {
   const consoleLogsTool = getToolInstance("get_console_logs", null) as GetConsoleLogsTool;
-  consoleLogsTool?.clearConsoleLogs();
+  if (!consoleLogsTool) return 0;
+  const count = consoleLogsTool.getConsoleLogs().length;
+  consoleLogsTool.clearConsoleLogs();
+  return count;
 }
 
 export { registerConsoleMessage };
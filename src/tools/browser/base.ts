@@ -1,5 +1,9 @@
 import type { Browser, Page } from 'playwright';
 import { ToolHandler, ToolContext, ToolResponse, createErrorResponse } from '../common/types.js';
+import { cancellable, ToolCancelledError } from '../common/progress.js';
+
+// Pseudo-classes that make "label:..." / "title:..." a CSS selector rather than a shorthand
+const CSS_PSEUDO_CLASS = /^(hover|focus|focus-within|focus-visible|active|visited|link|checked|disabled|enabled|required|optional|valid|invalid|empty|root|target|first-child|last-child|only-child|first-of-type|last-of-type|only-of-type|nth-child|nth-last-child|nth-of-type|nth-last-of-type|not|is|where|has|placeholder-shown|read-only|read-write|default|indeterminate|scope|defined|lang|dir)(\(|$|[\s>+~.,:#\[])/;
 
 /**
  * Base class for all browser-based tools
@@ -22,6 +26,12 @@ export abstract class BrowserToolBase implements ToolHandler {
    * - "testid:foo" → "[data-testid=\"foo\"]"
    * - "data-test:bar" → "[data-test=\"bar\"]"
    * - "data-cy:baz" → "[data-cy=\"baz\"]"
+   * - User-facing shorthands modeled on Playwright's getBy* locators (case-insensitive
+   *   substring match; quote the value for an exact match, e.g. label:"Email"):
+   *     "role:button[name=\"Save\"]" → "role=button[name=\"Save\"]"
+   *     "label:Email" → "internal:label=\"Email\"i"
+   *     "placeholder:Search" / "alt:Logo" / "title:Close" → "internal:attr=[placeholder=\"Search\"i]" etc.
+   *   Shorthands can be chained with ">>", e.g. "testid:signup >> role:button".
    * - Convert simple ID-only selectors with special chars to Playwright's id engine:
    *     "#radix-\:rc\:-content-123" → "id=radix-:rc:-content-123"
    * - Remove unnecessary escapes for bracket characters only (\\[ and \\])
@@ -36,6 +46,19 @@ export abstract class BrowserToolBase implements ToolHandler {
       return '';
     }
 
+    // Chained selectors: normalize each segment when any of them uses a user-facing shorthand
+    if (raw.includes('>>')) {
+      const segments = raw.split(/\s*>>\s*/);
+      if (segments.length > 1 && segments.some(segment => this.expandUserFacingShorthand(segment) !== null)) {
+        return segments.map(segment => this.normalizeSelector(segment)).join(' >> ');
+      }
+    }
+
+    const userFacing = this.expandUserFacingShorthand(raw);
+    if (userFacing !== null) {
+      return userFacing;
+    }
+
     const prefixMap: Record<string, string> = {
       'testid:': 'data-testid',
       'data-test:': 'data-test',
@@ -98,6 +121,41 @@ export abstract class BrowserToolBase implements ToolHandler {
     return cleaned;
   }
 
+  /**
+   * Expands role:, label:, placeholder:, alt: and title: shorthands into Playwright
+   * selector engines. Returns null when the selector is not such a shorthand, including
+   * CSS like "label:hover" or "title::before" that happens to share the prefix.
+   */
+  private expandUserFacingShorthand(selector: string): string | null {
+    const match = selector.match(/^(role|label|placeholder|alt|title):(.+)$/s);
+    if (!match) {
+      return null;
+    }
+    const [, kind, rawValue] = match;
+    const value = rawValue.trim();
+
+    // <label> and <title> are also element names; keep pseudo-class/element CSS intact
+    if ((kind === 'label' || kind === 'title') && (rawValue.startsWith(':') || CSS_PSEUDO_CLASS.test(rawValue))) {
+      return null;
+    }
+    if (!value) {
+      return null;
+    }
+
+    if (kind === 'role') {
+      return `role=${value}`;
+    }
+
+    // Quoted value means exact match, bare value a case-insensitive substring match
+    const quoted = value.match(/^"(.*)"$/s) || value.match(/^'(.*)'$/s);
+    const text = JSON.stringify(quoted ? quoted[1] : value) + (quoted ? 's' : 'i');
+
+    if (kind === 'label') {
+      return `internal:label=${text}`;
+    }
+    return `internal:attr=[${kind}=${text}]`;
+  }
+
   /**
    * Sanitize verbose Playwright selector engine messages by removing stack traces and
    * keeping only the essential syntax error information.
@@ -175,8 +233,13 @@ export abstract class BrowserToolBase implements ToolHandler {
         return createErrorResponse("Page is closed. Please retry the operation.");
       }
 
-      return await operation(context.page!);
+      // A cancelled call returns right away; the page and browser stay as they are
+      return await cancellable(operation(context.page!), context.signal);
     } catch (error) {
+      if (error instanceof ToolCancelledError) {
+        return createErrorResponse(`${error.message}. The browser was left as is.`);
+      }
+
       const errorMessage = (error as Error).message;
 
       // Check for common browser disconnection errors
@@ -435,6 +498,15 @@ export abstract class BrowserToolBase implements ToolHandler {
       );
     }
 
+    // Role/label shorthands match substrings case-insensitively by default
+    if (/^(role|label|placeholder|alt|title):/.test(selector) && this.expandUserFacingShorthand(selector) !== null) {
+      return (
+        `💡 Tip: User-facing selectors match case-insensitive substrings. Narrow them down:\n` +
+        `   Exact match: quote the value (label:"Email") or add s to the name (role:button[name="Save"s]).\n` +
+        `   Scope to a container: testid:checkout-form >> ${selector}\n\n`
+      );
+    }
+
     // Suggest testid for non-testid selectors
     return (
       `💡 Tip: Consider adding a unique data-testid attribute for more reliable selection.\n` +
@@ -472,16 +544,18 @@ export abstract class BrowserToolBase implements ToolHandler {
   /**
    * Describe matched elements in a compact, copyable format for disambiguation errors.
    * Shows: index, tag, trimmed text, nearest parent marker, and a suggested selector.
-   * Suggests testid:VALUE when present; otherwise falls back to id=VALUE or original >> nth=i.
+   * Suggests testid:VALUE when present; otherwise a role:ROLE[name="NAME"] selector built from
+   * the element's role and accessible name, then id=VALUE or original >> nth=i.
    */
   protected async describeMatchedElements(locator: any, originalSelector: string, count: number): Promise<string> {
     const maxItems = Math.min(count, 5);
     const lines: string[] = [];
 
+    const infos: any[] = [];
     for (let i = 0; i < maxItems; i++) {
       const nth = locator.nth(i);
       try {
-        const info = await nth.evaluate((el: any) => {
+        infos.push(await nth.evaluate((el: any) => {
           const tag = (el.tagName || '').toLowerCase();
           let text = (el as HTMLElement).innerText || el.textContent || '';
           text = (text || '').replace(/\s+/g, ' ').trim();
@@ -500,32 +574,96 @@ export abstract class BrowserToolBase implements ToolHandler {
             else if (pid) parentLabel = `#${pid}`;
             p = p.parentElement;
           }
-          return { tag, text, testid, id, parentLabel };
-        });
-
-        const truncatedText = info.text && info.text.length > 80 ? `${info.text.slice(0, 77)}...` : info.text;
-
-        let selectorSuggestion = `${originalSelector} >> nth=${i}`;
-        let altSuggestion: string | undefined;
-        if (info?.testid) {
-          selectorSuggestion = `testid:${info.testid}`;
-          altSuggestion = `${originalSelector} >> nth=${i}`;
-        } else if (info?.id) {
-          selectorSuggestion = `id=${info.id}`;
-          altSuggestion = `${originalSelector} >> nth=${i}`;
-        }
 
-        const parts = [
-          `[${i}] <${info.tag}>${truncatedText ? ` "${truncatedText}"` : ''}`,
-          info.parentLabel ? `    parent: ${info.parentLabel}` : undefined,
-          `    selector: ${selectorSuggestion}`,
-          altSuggestion ? `    alt: ${altSuggestion}` : undefined,
-        ].filter(Boolean) as string[];
+          // Implicit ARIA role and a simplified accessible name for role-based suggestions
+          const explicitRole = (el.getAttribute?.('role') || '').trim().split(/\s+/)[0] || null;
+          const type = (el.getAttribute?.('type') || 'text').toLowerCase();
+          const implicitRoles: Record<string, string> = {
+            button: 'button', select: 'combobox', textarea: 'textbox', nav: 'navigation', main: 'main',
+            h1: 'heading', h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading',
+            img: 'img', dialog: 'dialog', li: 'listitem', ul: 'list', ol: 'list', option: 'option',
+          };
+          const inputRoles: Record<string, string> = {
+            button: 'button', submit: 'button', reset: 'button', image: 'button', checkbox: 'checkbox',
+            radio: 'radio', range: 'slider', number: 'spinbutton', search: 'searchbox',
+            text: 'textbox', email: 'textbox', tel: 'textbox', url: 'textbox', password: 'textbox',
+          };
+          let role: string | null = explicitRole;
+          if (!role) {
+            if (tag === 'a' && el.hasAttribute?.('href')) role = 'link';
+            else if (tag === 'input') role = inputRoles[type] || null;
+            else role = implicitRoles[tag] || null;
+          }
+
+          const clean = (s: string | null | undefined) => (s || '').replace(/\s+/g, ' ').trim();
+          let name = clean(el.getAttribute?.('aria-label'));
+          if (!name && el.getAttribute?.('aria-labelledby')) {
+            name = clean(el.getAttribute('aria-labelledby').split(/\s+/)
+              .map((ref: string) => el.ownerDocument.getElementById(ref)?.textContent || '').join(' '));
+          }
+          if (!name && el.labels && el.labels.length) {
+            name = clean(Array.from(el.labels as ArrayLike<HTMLElement>).map(l => l.textContent).join(' '));
+          }
+          if (!name && tag === 'img') name = clean(el.getAttribute?.('alt'));
+          if (!name && tag === 'input' && ['button', 'submit', 'reset'].includes(type)) name = clean(el.getAttribute?.('value'));
+          if (!name && role && ['button', 'link', 'heading', 'tab', 'menuitem', 'option', 'checkbox', 'radio', 'listitem'].includes(role)) {
+            name = text;
+          }
+          if (!name) name = clean(el.getAttribute?.('title'));
 
-        lines.push(parts.join('\n'));
+          return { tag, text, testid, id, parentLabel, role, name };
+        }));
       } catch {
+        infos.push(null);
+      }
+    }
+
+    // A role selector only disambiguates when no other match has a name containing it
+    const roleSuggestionFor = (i: number): string | undefined => {
+      const info = infos[i];
+      if (!info?.role || !info.name || info.name.length > 60) return undefined;
+      const name = info.name.toLowerCase();
+      const others = infos.filter((other, j) => j !== i && other?.role === info.role && other.name);
+      if (!others.some(other => other.name.toLowerCase().includes(name))) {
+        return `role:${info.role}[name=${JSON.stringify(info.name)}]`;
+      }
+      if (!others.some(other => other.name === info.name)) {
+        return `role:${info.role}[name=${JSON.stringify(info.name)}s]`;
+      }
+      return undefined;
+    };
+
+    for (let i = 0; i < maxItems; i++) {
+      const info = infos[i];
+      if (!info) {
         lines.push(`[${i}] (element)\n    selector: ${originalSelector} >> nth=${i}`);
+        continue;
+      }
+
+      const truncatedText = info.text && info.text.length > 80 ? `${info.text.slice(0, 77)}...` : info.text;
+      const roleSuggestion = roleSuggestionFor(i);
+
+      let selectorSuggestion = `${originalSelector} >> nth=${i}`;
+      let altSuggestion: string | undefined;
+      if (info.testid) {
+        selectorSuggestion = `testid:${info.testid}`;
+        altSuggestion = `${originalSelector} >> nth=${i}`;
+      } else if (roleSuggestion) {
+        selectorSuggestion = roleSuggestion;
+        altSuggestion = info.id ? `id=${info.id}` : `${originalSelector} >> nth=${i}`;
+      } else if (info.id) {
+        selectorSuggestion = `id=${info.id}`;
+        altSuggestion = `${originalSelector} >> nth=${i}`;
       }
+
+      const parts = [
+        `[${i}] <${info.tag}>${truncatedText ? ` "${truncatedText}"` : ''}`,
+        info.parentLabel ? `    parent: ${info.parentLabel}` : undefined,
+        `    selector: ${selectorSuggestion}`,
+        altSuggestion ? `    alt: ${altSuggestion}` : undefined,
+      ].filter(Boolean) as string[];
+
+      lines.push(parts.join('\n'));
     }
 
     if (count > maxItems) {
@@ -9,6 +9,19 @@ export async function gatherConsoleErrorsSince(since: 'navigation' | 'interactio
   return logs.filter(l => l.startsWith('[error]') || l.startsWith('[exception]'));
 }
 
+// Report requests that failed (DNS, refused connection, CORS, ERR_*) since a start time (ms)
+export async function failedRequestLines(since: number, max = 5): Promise<string[]> {
+  const { getFailedRequestsSince, createRedactor } = await import('../../../toolHandler.js');
+  const failed = getFailedRequestsSince(since);
+  const redactor = createRedactor('network');
+  const lines = failed.slice(0, max).map(req =>
+    `Failed request: [${req.index}] ${req.method} ${redactor.url(req.url)} (${req.failure})`);
+  if (failed.length > max) {
+    lines.push(`... and ${failed.length - max} more failed request(s) (see list_network_requests)`);
+  }
+  return lines;
+}
+
 // Provide a compact, best-effort network idle note
 export async function quickNetworkIdleNote(page: Page): Promise<string> {
   try {
@@ -43,3 +56,20 @@ export async function titleUrlChangeLines(page: Page, initial: { url?: string; t
   return lines;
 }
 
+
+// IDs of currently open tabs, used as a baseline for newTabLines()
+export async function currentTabIds(): Promise<number[]> {
+  const { listTabs } = await import('../../../toolHandler.js');
+  const tabs = await listTabs();
+  return tabs.map(t => t.id);
+}
+
+// Report tabs opened since the baseline (target=_blank links, window.open, OAuth popups)
+export async function newTabLines(knownIds: number[]): Promise<string[]> {
+  const { listTabs } = await import('../../../toolHandler.js');
+  const tabs = await listTabs();
+  const known = new Set(knownIds);
+  return tabs
+    .filter(t => !known.has(t.id))
+    .map(t => `New tab opened: [${t.id}] ${t.url} (use switch_tab({ id: ${t.id} }) to inspect it)`);
+}
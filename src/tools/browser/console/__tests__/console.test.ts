@@ -1,5 +1,7 @@
 import { GetConsoleLogsTool, ClearConsoleLogsTool } from '../get_console_logs.js';
 import { ToolContext } from '../../../common/types.js';
+import { getToolInstance } from '../../../common/registry.js';
+import { clearResolvedSecrets, resolveSecretRef } from '../../../../secrets.js';
 import { jest } from '@jest/globals';
 
 // Mock the server
@@ -68,6 +70,21 @@ describe('GetConsoleLogsTool', () => {
     expect(result.content[1].text).not.toContain('Another warning message');
   });
 
+  test('should not match redacted or masked values when searching', async () => {
+    const { value } = resolveSecretRef('secret:PW', { MCP_WEB_INSPECTOR_SECRET_PW: 'hunter2-staging' });
+    consoleLogsTool.registerConsoleMessage('log', 'Authorization: Bearer abcdef0123456789');
+    consoleLogsTool.registerConsoleMessage('log', `Logging in with ${value}`);
+
+    for (const search of ['abcdef0123', 'hunter2']) {
+      const result = await consoleLogsTool.execute({ search }, mockContext);
+      expect(result.content[0].text).toContain('No console logs matching the criteria');
+    }
+
+    const masked = await consoleLogsTool.execute({ search: '[secret:PW]' }, mockContext);
+    expect(masked.content[0].text).toContain('Retrieved 1 console log(s)');
+    clearResolvedSecrets();
+  });
+
   test('should retrieve console logs with limit', async () => {
     for (let i = 0; i < 10; i++) {
       consoleLogsTool.registerConsoleMessage('log', `Test log message ${i}`);
@@ -89,8 +106,10 @@ describe('GetConsoleLogsTool', () => {
   });
 
   test('should clear console logs using clear_console_logs tool', async () => {
-    consoleLogsTool.registerConsoleMessage('log', 'Test log message');
-    consoleLogsTool.registerConsoleMessage('error', 'Test error message');
+    // clear_console_logs works on the session's get_console_logs instance
+    const sessionTool = getToolInstance('get_console_logs', mockServer) as GetConsoleLogsTool;
+    sessionTool.registerConsoleMessage('log', 'Test log message');
+    sessionTool.registerConsoleMessage('error', 'Test error message');
 
     const clearer = new ClearConsoleLogsTool(mockServer);
     const result = await clearer.execute({}, mockContext);
@@ -99,7 +118,7 @@ describe('GetConsoleLogsTool', () => {
     expect(result.content[0].text).toContain('Cleared 2 console log(s)');
 
     // Logs should be cleared
-    const logs = consoleLogsTool.getConsoleLogs();
+    const logs = sessionTool.getConsoleLogs();
     expect(logs.length).toBe(0);
   });
 
@@ -316,4 +335,44 @@ describe('GetConsoleLogsTool', () => {
     expect(text).toContain('[exception] Hook failed');
     expect(text).toContain('[error] Console error');
   });
-}); 
+
+  test('should return grouped entries as structured content', async () => {
+    consoleLogsTool.registerConsoleMessage('error', 'Failed to load');
+    consoleLogsTool.registerConsoleMessage('error', 'Failed to load');
+    consoleLogsTool.registerConsoleMessage('log', 'Ready');
+
+    const grouped = await consoleLogsTool.execute({ since: 'last-call' }, mockContext);
+    expect(grouped.structuredContent).toEqual({
+      format: 'grouped',
+      matched: 2,
+      entries: [
+        { type: 'error', message: 'Failed to load', count: 2 },
+        { type: 'log', message: 'Ready', count: 1 },
+      ],
+      truncated: false,
+      redacted: 0,
+    });
+
+    const empty = await consoleLogsTool.execute({ since: 'last-call', format: 'raw' }, mockContext);
+    expect(empty.structuredContent).toEqual({ format: 'raw', matched: 0, entries: [], truncated: false });
+  });
+
+  test('should keep per-tab history and show only the active tab', async () => {
+    consoleLogsTool.registerConsoleMessage('log', 'From tab 1', 1);
+    consoleLogsTool.registerConsoleMessage('log', 'From tab 2', 2);
+
+    consoleLogsTool.setActiveTab(1);
+    expect(consoleLogsTool.getConsoleLogs()).toEqual(['[log] From tab 1']);
+
+    consoleLogsTool.setActiveTab(2);
+    const result = await consoleLogsTool.execute({ since: 'last-call' }, mockContext);
+    const text = result.content.map(c => c.text).join('\n');
+    expect(text).toContain('From tab 2');
+    expect(text).not.toContain('From tab 1');
+
+    // Clearing only affects the active tab
+    consoleLogsTool.clearConsoleLogs();
+    consoleLogsTool.setActiveTab(1);
+    expect(consoleLogsTool.getConsoleLogs()).toEqual(['[log] From tab 1']);
+  });
+});
@@ -1,10 +1,19 @@
 import { BrowserToolBase } from '../base.js';
 import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse, createErrorResponse } from '../../common/types.js';
 import { makeConfirmPreview } from '../../common/confirm_output.js';
+import { maskSecrets } from '../../../secrets.js';
 
 interface ConsoleLogEntry {
   timestamp: number;
   message: string;
+  // Tab that produced the message (undefined when not tied to a tracked tab)
+  tabId?: number;
+}
+
+// Structured form of a shown line: "[error] Failed to load" -> { type: "error", message: "Failed to load" }
+function toStructuredEntry(line: string, count: number): { type: string; message: string; count: number } {
+  const match = line.match(/^\[([a-z]+)\] ([\s\S]*)$/);
+  return match ? { type: match[1], message: match[2], count } : { type: 'log', message: line, count };
 }
 
 /**
@@ -16,19 +25,13 @@ export class GetConsoleLogsTool extends BrowserToolBase {
   private lastCallTimestamp: number = 0;
   private lastNavigationTimestamp: number = 0;
   private lastInteractionTimestamp: number = 0;
-
-  // Track latest instance for sibling tool access (module-level singleton pattern)
-  static latestInstance: GetConsoleLogsTool | null = null;
-
-  constructor(server: any) {
-    super(server);
-    GetConsoleLogsTool.latestInstance = this;
-  }
+  // Active tab; logs of other tabs are kept but not shown until switched back
+  private activeTabId: number | null = null;
 
   static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
     return {
       name: "get_console_logs",
-      description: "Retrieve console logs with filtering and token‑efficient output. Defaults: since='last-interaction', limit=20, format='grouped'. Grouped output deduplicates identical lines and shows counts. Use format='raw' for chronological, ungrouped lines. Large outputs return a preview and a one-time token to fetch the full payload.",
+      description: "Retrieve console logs with filtering and token‑efficient output. Defaults: since='last-interaction', limit=20, format='grouped'. Grouped output deduplicates identical lines and shows counts. Use format='raw' for chronological, ungrouped lines. Large outputs return a preview and a one-time token to fetch the full payload. Tokens, card numbers and other values matching the server's redaction rules are hidden, with a count of redacted values.",
       inputSchema: {
         type: "object",
         properties: {
@@ -58,20 +61,59 @@ export class GetConsoleLogsTool extends BrowserToolBase {
         },
         required: [],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          format: { type: "string", enum: ["grouped", "raw"] },
+          matched: { type: "number", description: "Matching log lines (raw) or groups of identical lines (grouped)" },
+          entries: {
+            type: "array",
+            description: "Shown entries, redacted; only the preview part when the output is large",
+            items: {
+              type: "object",
+              properties: {
+                type: { type: "string", description: "error, warning, log, info, debug or exception" },
+                message: { type: "string" },
+                count: { type: "number", description: "Occurrences (always 1 in raw format)" },
+              },
+              required: ["type", "message", "count"],
+            },
+          },
+          truncated: { type: "boolean", description: "Output was large; confirm_output returns the full text" },
+          redacted: { type: "number", description: "Values hidden by the redaction rules" },
+        },
+        required: ["format", "matched", "entries", "truncated"],
+      },
     };
   }
 
   /**
    * Register a console message
    */
-  registerConsoleMessage(type: string, text: string): void {
+  registerConsoleMessage(type: string, text: string, tabId?: number): void {
     const logEntry: ConsoleLogEntry = {
       timestamp: Date.now(),
-      message: `[${type}] ${text}`
+      message: `[${type}] ${text}`,
+      tabId,
     };
     this.consoleLogs.push(logEntry);
   }
 
+  /**
+   * Set the active tab whose logs are returned (null shows all logs)
+   */
+  setActiveTab(tabId: number | null): void {
+    this.activeTabId = tabId;
+  }
+
+  /**
+   * Logs belonging to the active tab (plus logs not tied to any tab)
+   */
+  private activeTabLogs(): ConsoleLogEntry[] {
+    if (this.activeTabId === null) return this.consoleLogs;
+    return this.consoleLogs.filter(log => log.tabId === undefined || log.tabId === this.activeTabId);
+  }
+
   /**
    * Update the last navigation timestamp
    */
@@ -79,6 +121,13 @@ export class GetConsoleLogsTool extends BrowserToolBase {
     this.lastNavigationTimestamp = Date.now();
   }
 
+  /**
+   * Time (ms) of the last navigation or interaction, 0 before the first
+   */
+  getLastActionTimestamp(kind: 'navigation' | 'interaction'): number {
+    return kind === 'navigation' ? this.lastNavigationTimestamp : this.lastInteractionTimestamp;
+  }
+
   /**
    * Update the last interaction timestamp
    */
@@ -91,9 +140,11 @@ export class GetConsoleLogsTool extends BrowserToolBase {
     const format: 'grouped' | 'raw' = args.format === 'raw' ? 'raw' : 'grouped';
     const limit: number = typeof args.limit === 'number' && args.limit > 0 ? Math.floor(args.limit) : 20;
     const sinceArg: string | undefined = args.since || 'last-interaction';
-    const PREVIEW_THRESHOLD = 2000; // chars
+    const { getOutputLimits, createRedactor } = await import('../../../toolHandler.js');
+    const PREVIEW_THRESHOLD = getOutputLimits().previewThreshold; // chars
+    const redactor = createRedactor('console');
 
-    let logs = [...this.consoleLogs];
+    let logs = [...this.activeTabLogs()];
 
     // Filter by timestamp if 'since' parameter is specified
     if (sinceArg) {
@@ -109,7 +160,7 @@ export class GetConsoleLogsTool extends BrowserToolBase {
           sinceTimestamp = this.lastInteractionTimestamp;
           break;
         default:
-          return createSuccessResponse(`Invalid 'since' value: ${sinceArg}. Must be one of: last-call, last-navigation, last-interaction`);
+          return createSuccessResponse(`Invalid 'since' value: ${sinceArg}. Must be one of: last-call, last-navigation, last-interaction`, { format, matched: 0, entries: [], truncated: false });
       }
       logs = logs.filter(log => log.timestamp > sinceTimestamp);
     }
@@ -125,24 +176,29 @@ export class GetConsoleLogsTool extends BrowserToolBase {
       logs = logs.filter(log => prefixes.some(p => log.message.startsWith(p)));
     }
 
-    // Filter by search text if specified
+    // Filter by search text if specified. Matches the redacted and masked text,
+    // so hidden values cannot be probed by searching for them; a separate
+    // redactor keeps non-matching logs out of the redaction count
     if (args.search) {
-      logs = logs.filter(log => log.message.includes(args.search));
+      const searchRedactor = createRedactor('console');
+      logs = logs.filter(log => maskSecrets(searchRedactor.text(log.message)).includes(args.search));
     }
 
     // Build output according to format
     if (format === 'raw') {
       // Chronological lines, limit applied to last N entries
       const limited = limit > 0 ? logs.slice(-limit) : logs;
-      const messages = limited.map(l => l.message);
+      const messages = limited.map(l => redactor.text(l.message));
 
       if (messages.length === 0) {
-        return createSuccessResponse("No console logs matching the criteria");
+        return createSuccessResponse("No console logs matching the criteria", { format, matched: 0, entries: [], truncated: false });
       }
+      const summary = redactor.summary();
 
       // Guard large outputs by character size
       const header = `Retrieved ${messages.length} console log(s):`;
-      const textPayload = [header, ...messages].join('\n');
+      const output = [header, ...messages, ...(summary ? [summary] : [])];
+      const textPayload = output.join('\n');
       if (textPayload.length >= PREVIEW_THRESHOLD) {
         const previewLines = [
           `Matched ${logs.length} log(s). Showing ${Math.min(messages.length, 10)} line(s) preview.`,
@@ -153,10 +209,14 @@ export class GetConsoleLogsTool extends BrowserToolBase {
         previewLines,
         extraTips: ['Tip: refine with search/type/since/limit or prefer grouped format.'],
       });
-        return createSuccessResponse(preview.lines.join('\n'));
+        return createSuccessResponse(preview.lines.join('\n'), {
+          format, matched: logs.length, entries: messages.slice(0, 10).map(m => toStructuredEntry(m, 1)), truncated: true, redacted: redactor.count,
+        });
       }
 
-      return createSuccessResponse([header, ...messages]);
+      return createSuccessResponse(output, {
+        format, matched: logs.length, entries: messages.map(m => toStructuredEntry(m, 1)), truncated: false, redacted: redactor.count,
+      });
     }
 
     // Grouped format (default)
@@ -173,18 +233,22 @@ export class GetConsoleLogsTool extends BrowserToolBase {
     }
 
     if (groups.size === 0) {
-      return createSuccessResponse("No console logs matching the criteria");
+      return createSuccessResponse("No console logs matching the criteria", { format, matched: 0, entries: [], truncated: false });
     }
 
     // Order groups by first occurrence time
     const ordered = Array.from(groups.entries()).sort((a, b) => a[1].firstTs - b[1].firstTs);
     const limitedGroups = limit > 0 ? ordered.slice(0, limit) : ordered;
     const lines: string[] = [];
+    const entries: ReturnType<typeof toStructuredEntry>[] = [];
     lines.push(`Retrieved ${limitedGroups.length} console log(s):`);
     for (const [msg, info] of limitedGroups) {
-      const line = `${msg} (× ${info.count})`;
-      lines.push(line);
+      const redacted = redactor.text(msg);
+      lines.push(`${redacted} (× ${info.count})`);
+      entries.push(toStructuredEntry(redacted, info.count));
     }
+    const summary = redactor.summary();
+    if (summary) lines.push(summary);
 
     // Guard large grouped outputs
     const textPayload = lines.join('\n');
@@ -198,24 +262,37 @@ export class GetConsoleLogsTool extends BrowserToolBase {
         previewLines,
         extraTips: ['Tip: refine with search/type/since/limit.'],
       });
-      return createSuccessResponse(preview.lines.join('\n'));
+      // The preview shows the header line and the first 11 groups
+      return createSuccessResponse(preview.lines.join('\n'), {
+        format, matched: groups.size, entries: entries.slice(0, 11), truncated: true, redacted: redactor.count,
+      });
     }
 
-    return createSuccessResponse(lines);
+    return createSuccessResponse(lines, { format, matched: groups.size, entries, truncated: false, redacted: redactor.count });
   }
 
   /**
-   * Get all console logs
+   * Get console logs of the active tab
    */
   getConsoleLogs(): string[] {
-    return this.consoleLogs.map(log => log.message);
+    return this.activeTabLogs().map(log => log.message);
+  }
+
+  /**
+   * Get console logs of one tab (plus logs not tied to any tab)
+   */
+  getTabLogs(tabId: number): string[] {
+    return this.consoleLogs
+      .filter(log => log.tabId === undefined || log.tabId === tabId)
+      .map(log => log.message);
   }
 
   /**
-   * Clear all console logs
+   * Clear console logs of the active tab
    */
   clearConsoleLogs(): void {
-    this.consoleLogs = [];
+    const cleared = new Set(this.activeTabLogs());
+    this.consoleLogs = this.consoleLogs.filter(log => !cleared.has(log));
   }
 
   /**
@@ -223,7 +300,7 @@ export class GetConsoleLogsTool extends BrowserToolBase {
    */
   getLogsSinceLastNavigation(): string[] {
     const since = this.lastNavigationTimestamp;
-    return this.consoleLogs
+    return this.activeTabLogs()
       .filter(log => log.timestamp > since)
       .map(log => log.message);
   }
@@ -233,7 +310,7 @@ export class GetConsoleLogsTool extends BrowserToolBase {
    */
   getLogsSinceLastInteraction(): string[] {
     const since = this.lastInteractionTimestamp;
-    return this.consoleLogs
+    return this.activeTabLogs()
       .filter(log => log.timestamp > since)
       .map(log => log.message);
   }
@@ -256,12 +333,8 @@ export class ClearConsoleLogsTool extends BrowserToolBase {
   }
 
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
-    const inst = GetConsoleLogsTool.latestInstance;
-    if (!inst) {
-      return createSuccessResponse('Cleared 0 console log(s)');
-    }
-    const count = inst.getConsoleLogs().length;
-    inst.clearConsoleLogs();
+    const { clearConsoleLogs } = await import('../../../toolHandler.js');
+    const count = clearConsoleLogs();
     return createSuccessResponse(`Cleared ${count} console log(s)`);
   }
 }
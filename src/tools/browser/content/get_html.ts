@@ -17,7 +17,7 @@ export class GetHtmlTool extends BrowserToolBase {
   static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
     return {
       name: "get_html",
-      description: "⚠️ RARELY NEEDED: Get raw HTML markup from the page (no rendering, just source code). Most tasks need structured inspection instead. ONLY use get_html for: (1) checking specific HTML attributes or element nesting, (2) analyzing markup structure, (3) debugging SSR/HTML issues. For structured tasks, use: inspect_dom() to understand page structure with positions, query_selector() to find and inspect elements, get_computed_styles() for CSS values. Auto-returns HTML if <2000 chars (small elements); if larger, returns a preview and a one-time token to fetch the full output. Scripts removed by default for security/size. Supports testid shortcuts.",
+      description: "⚠️ RARELY NEEDED: Get raw HTML markup from the page (no rendering, just source code). Most tasks need structured inspection instead. ONLY use get_html for: (1) checking specific HTML attributes or element nesting, (2) analyzing markup structure, (3) debugging SSR/HTML issues. For structured tasks, use: inspect_dom() to understand page structure with positions, query_selector() to find and inspect elements, get_computed_styles() for CSS values. Auto-returns HTML if <2000 chars (small elements); if larger, returns a preview and a one-time token to fetch the full output. Scripts removed by default for security/size. Tokens and other values matching the server's redaction rules are hidden. Supports testid shortcuts.",
       inputSchema: {
         type: "object",
         properties: {
@@ -44,12 +44,14 @@ export class GetHtmlTool extends BrowserToolBase {
   }
 
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const { getOutputLimits, createRedactor } = await import('../../../toolHandler.js');
+    const outputLimits = getOutputLimits();
     const requestedMaxLength =
       typeof args.maxLength === 'number' && Number.isFinite(args.maxLength) && args.maxLength > 0
         ? Math.floor(args.maxLength)
-        : 20000;
+        : outputLimits.maxLength;
     const clean = args.clean ?? false;
-    const PREVIEW_THRESHOLD = 2000;
+    const PREVIEW_THRESHOLD = outputLimits.previewThreshold;
 
     if (!context.page) {
       return createErrorResponse('Page is not available');
@@ -136,8 +138,10 @@ export class GetHtmlTool extends BrowserToolBase {
         );
         lines.push('');
 
-        const safeMaxLength = requestedMaxLength > 0 ? requestedMaxLength : 20000;
-        const processedHtml = sanitizedHtml ?? '';
+        const safeMaxLength = requestedMaxLength > 0 ? requestedMaxLength : outputLimits.maxLength;
+        const redactor = createRedactor('dom');
+        const processedHtml = redactor.text(sanitizedHtml ?? '');
+        const redactionNote = redactor.summary();
         const originalLength = processedHtml.length;
 
         // Generate key for this HTML request
@@ -160,6 +164,7 @@ export class GetHtmlTool extends BrowserToolBase {
           });
 
           lines.push(`HTML size: ${originalLength.toLocaleString()} characters (exceeds ${PREVIEW_THRESHOLD} char threshold)`);
+          if (redactionNote) lines.push(redactionNote);
           lines.push('');
           lines.push(...preview.lines);
           return createSuccessResponse(lines.join('\n'));
@@ -182,6 +187,11 @@ export class GetHtmlTool extends BrowserToolBase {
           );
         }
 
+        if (redactionNote) {
+          lines.push('');
+          lines.push(redactionNote);
+        }
+
         lines.push('');
         lines.push('💡 TIP: If you need structured inspection, try inspect_dom(), query_selector(), or get_computed_styles().');
 
@@ -15,7 +15,7 @@ export class GetTextTool extends BrowserToolBase {
   static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
     return {
       name: "get_text",
-      description: "⚠️ RARELY NEEDED: Get ALL visible text content from the entire page (no structure, just raw text). Most tasks need structured inspection instead. ONLY use get_text for: (1) extracting text for content analysis (word count, language detection), (2) searching for text when location is completely unknown, (3) text-only snapshots for comparison. For structured tasks, use: inspect_dom() to understand page structure, find_by_text() to locate specific text with context, query_selector() to find elements. Returns plain text up to 20000 chars (truncated if longer). Supports testid shortcuts.",
+      description: "⚠️ RARELY NEEDED: Get ALL visible text content from the entire page (no structure, just raw text). Most tasks need structured inspection instead. ONLY use get_text for: (1) extracting text for content analysis (word count, language detection), (2) searching for text when location is completely unknown, (3) text-only snapshots for comparison. For structured tasks, use: inspect_dom() to understand page structure, find_by_text() to locate specific text with context, query_selector() to find elements. Returns plain text up to 20000 chars (truncated if longer); tokens and other values matching the server's redaction rules are hidden. Supports testid shortcuts.",
       inputSchema: {
         type: "object",
         properties: {
@@ -38,10 +38,12 @@ export class GetTextTool extends BrowserToolBase {
   }
 
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const { getOutputLimits, createRedactor } = await import('../../../toolHandler.js');
+    const outputLimits = getOutputLimits();
     const requestedMaxLength =
       typeof args.maxLength === 'number' && Number.isFinite(args.maxLength) && args.maxLength > 0
         ? Math.floor(args.maxLength)
-        : 20000;
+        : outputLimits.maxLength;
 
     if (!context.page) {
       return createErrorResponse('Page is not available');
@@ -93,7 +95,8 @@ export class GetTextTool extends BrowserToolBase {
           textContent = await page.evaluate(() => document.body?.innerText ?? '');
         }
 
-        textContent = textContent ?? '';
+        const redactor = createRedactor('dom');
+        textContent = redactor.text(textContent ?? '');
 
         if (selectionWarning) {
           lines.push(selectionWarning.trimEnd());
@@ -101,7 +104,7 @@ export class GetTextTool extends BrowserToolBase {
 
         lines.push('');
 
-        const safeMaxLength = requestedMaxLength > 0 ? requestedMaxLength : 20000;
+        const safeMaxLength = requestedMaxLength > 0 ? requestedMaxLength : outputLimits.maxLength;
         let displayText = textContent;
         const truncated = displayText.length > safeMaxLength;
 
@@ -118,6 +121,12 @@ export class GetTextTool extends BrowserToolBase {
           );
         }
 
+        const redactionNote = redactor.summary();
+        if (redactionNote) {
+          lines.push('');
+          lines.push(redactionNote);
+        }
+
         lines.push('');
         lines.push('💡 TIP: If you need structured inspection, try inspect_dom(), find_by_text(), or query_selector().');
 
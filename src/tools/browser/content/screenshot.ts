@@ -4,6 +4,7 @@ import type { Page } from 'playwright';
 import { BrowserToolBase } from '../base.js';
 import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse } from '../../common/types.js';
 import { makeConfirmPreview } from '../../common/confirm_output.js';
+import { withElapsedProgress } from '../../common/progress.js';
 
 /**
  * Tool for taking screenshots of pages or elements
@@ -67,7 +68,7 @@ export class ScreenshotTool extends BrowserToolBase {
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
       // Defer the screenshot capture until confirmation via confirm_output
-      const thunk = async (): Promise<string> => {
+      const thunk = async (confirmContext?: ToolContext): Promise<string> => {
         const screenshotOptions: any = {
           type: args.type || "png",
           fullPage: !!args.fullPage
@@ -94,7 +95,11 @@ export class ScreenshotTool extends BrowserToolBase {
         const outputPath = path.join(downloadsDir, filename);
         screenshotOptions.path = outputPath;
 
-        const screenshot = await page.screenshot(screenshotOptions);
+        const screenshot = await withElapsedProgress(
+          confirmContext ?? {},
+          `capturing ${args.fullPage ? 'full-page ' : ''}screenshot${args.selector ? ` of ${args.selector}` : ''}`,
+          () => page.screenshot(screenshotOptions)
+        );
         const base64Screenshot = screenshot.toString('base64');
 
         const messages = [`✓ Screenshot saved to: ${path.relative(process.cwd(), outputPath)}`];
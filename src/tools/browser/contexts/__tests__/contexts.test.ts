@@ -0,0 +1,71 @@
+import { handleToolCall } from '../../../../toolHandler.js';
+import { jest } from '@jest/globals';
+
+const mockServer = {
+  sendMessage: jest.fn(),
+  notification: jest.fn()
+};
+
+const textOf = (result: any): string => result.content.map((c: any) => c.text).join('\n');
+
+describe('Named browser contexts', () => {
+  afterEach(async () => {
+    await handleToolCall('close', {}, mockServer);
+  });
+
+  test('contexts have isolated storage', async () => {
+    await handleToolCall('navigate', { url: 'https://example.com', headless: true }, mockServer);
+    await handleToolCall('evaluate', { script: "localStorage.setItem('user', 'customer'); 'ok'" }, mockServer);
+
+    const created = await handleToolCall('create_context', { name: 'admin', url: 'https://example.com' }, mockServer);
+    expect(created.isError).toBe(false);
+    expect(textOf(created)).toContain('Created browser context "admin"');
+
+    const adminValue = await handleToolCall('evaluate', { context: 'admin', script: "String(localStorage.getItem('user'))" }, mockServer);
+    expect(textOf(adminValue)).toContain('null');
+
+    const defaultValue = await handleToolCall('evaluate', { script: "String(localStorage.getItem('user'))" }, mockServer);
+    expect(textOf(defaultValue)).toContain('customer');
+  }, 60000);
+
+  test('console logs and color scheme are kept per context', async () => {
+    await handleToolCall('navigate', { url: 'about:blank', headless: true }, mockServer);
+    await handleToolCall('create_context', { name: 'customer' }, mockServer);
+
+    await handleToolCall('set_color_scheme', { context: 'customer', scheme: 'dark' }, mockServer);
+    await handleToolCall('evaluate', { context: 'customer', script: "console.log('from-customer'); 'ok'" }, mockServer);
+    await handleToolCall('evaluate', { script: "console.log('from-default'); 'ok'" }, mockServer);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const customerLogs = textOf(await handleToolCall('get_console_logs', { context: 'customer', since: 'last-navigation' }, mockServer));
+    expect(customerLogs).toContain('from-customer');
+    expect(customerLogs).not.toContain('from-default');
+
+    const defaultDark = await handleToolCall('evaluate', { script: "matchMedia('(prefers-color-scheme: dark)').matches" }, mockServer);
+    expect(textOf(defaultDark)).not.toContain('true');
+
+    const list = textOf(await handleToolCall('list_contexts', {}, mockServer));
+    expect(list).toContain('Browser contexts (2)');
+    expect(list).toContain('customer — 1 tab');
+    expect(list).toContain('color scheme: dark');
+  }, 60000);
+
+  test('unknown and destroyed contexts are rejected', async () => {
+    await handleToolCall('navigate', { url: 'about:blank', headless: true }, mockServer);
+
+    const unknown = await handleToolCall('get_text', { context: 'nobody' }, mockServer);
+    expect(unknown.isError).toBe(true);
+    expect(textOf(unknown)).toContain('Browser context "nobody" not found');
+
+    await handleToolCall('create_context', { name: 'temp' }, mockServer);
+    const destroyed = await handleToolCall('destroy_context', { name: 'temp' }, mockServer);
+    expect(destroyed.isError).toBe(false);
+    expect(textOf(destroyed)).toContain('Destroyed browser context "temp" (1 tab closed)');
+
+    const afterDestroy = await handleToolCall('get_text', { context: 'temp' }, mockServer);
+    expect(afterDestroy.isError).toBe(true);
+
+    const defaultDestroy = await handleToolCall('destroy_context', { name: 'default' }, mockServer);
+    expect(defaultDestroy.isError).toBe(true);
+  }, 60000);
+});
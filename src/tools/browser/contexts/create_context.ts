@@ -0,0 +1,55 @@
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse, createErrorResponse } from '../../common/types.js';
+
+const CONTEXT_NAME_PATTERN = /^[A-Za-z0-9_-]{1,40}$/;
+
+/**
+ * Tool for creating an isolated named browser context
+ */
+export class CreateContextTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "create_context",
+      description: "Create an isolated named browser context (own cookies, localStorage, tabs, console log, network log and color scheme) in the running browser. Use it to drive several users side by side, e.g. 'admin' and 'customer' for chat or collaborative editing. Then pass { context: 'admin' } to any browser tool to run it in that context; omitting context uses the default one.",
+      examples: [
+        "create_context({ name: 'admin', url: 'https://app.example.com/login' })",
+        "fill({ context: 'admin', selector: '#email', value: 'admin@example.com' })",
+      ],
+      inputSchema: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "Context name (letters, digits, '-' and '_'), e.g. 'admin' or 'customer'" },
+          url: { type: "string", description: "Optional URL to open in the new context's first tab" },
+        },
+        required: ["name"],
+      },
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const name = typeof args.name === 'string' ? args.name.trim() : '';
+    if (!CONTEXT_NAME_PATTERN.test(name)) {
+      return createErrorResponse(`Invalid context name "${args.name ?? ''}". Use 1-40 letters, digits, '-' or '_'.`);
+    }
+
+    return this.safeExecute(context, async () => {
+      const { createNamedContext, getTimeouts, checkNavigationUrl, recordBlockedNavigation } = await import('../../../toolHandler.js');
+      const refusal = args.url ? checkNavigationUrl(args.url) : null;
+      if (refusal) {
+        recordBlockedNavigation(args.url, refusal);
+        return createErrorResponse(`Navigation to ${args.url} blocked by URL policy: ${refusal}`);
+      }
+      const ctx = await createNamedContext(name);
+      const tab = ctx.tabs.find(t => t.id === ctx.activeTabId);
+
+      const lines = [`Created browser context "${name}" with tab [${tab?.id}]`];
+      if (args.url && tab) {
+        await tab.page.goto(args.url, { timeout: getTimeouts().navigation, waitUntil: 'load' });
+        lines.push(`Navigated to ${args.url}`);
+      }
+      lines.push(`Use { context: "${name}" } with any browser tool to run it in this context.`);
+
+      return createSuccessResponse(lines);
+    });
+  }
+}
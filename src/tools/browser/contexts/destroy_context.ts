@@ -0,0 +1,33 @@
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse, createErrorResponse } from '../../common/types.js';
+
+/**
+ * Tool for closing a named browser context
+ */
+export class DestroyContextTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "destroy_context",
+      description: "Close a named browser context created with create_context, including all its tabs, cookies and storage. The default context cannot be destroyed; use close to shut down the whole browser.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "Name of the context to destroy" },
+        },
+        required: ["name"],
+      },
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (typeof args.name !== 'string' || !args.name) {
+      return createErrorResponse("Context name is required");
+    }
+
+    return this.safeExecute(context, async () => {
+      const { destroyNamedContext } = await import('../../../toolHandler.js');
+      const tabCount = await destroyNamedContext(args.name);
+      return createSuccessResponse(`Destroyed browser context "${args.name}" (${tabCount} tab${tabCount === 1 ? '' : 's'} closed)`);
+    });
+  }
+}
@@ -0,0 +1,3 @@
+export { CreateContextTool } from './create_context.js';
+export { ListContextsTool } from './list_contexts.js';
+export { DestroyContextTool } from './destroy_context.js';
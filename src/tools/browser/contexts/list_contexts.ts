@@ -0,0 +1,70 @@
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse } from '../../common/types.js';
+
+/**
+ * Tool for listing named browser contexts
+ */
+export class ListContextsTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "list_contexts",
+      description: "List browser contexts with their tab count, active tab URL and color scheme override. The default context always exists; others are created with create_context.",
+      exampleOutputs: [
+        {
+          call: "list_contexts({})",
+          output: `Browser contexts (2):\n  default — 1 tab, https://app.example.com/ (persistent)\n  admin — 2 tabs, https://app.example.com/admin, color scheme: dark`
+        }
+      ],
+      inputSchema: {
+        type: "object",
+        properties: {},
+        required: [],
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          contexts: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string" },
+                tabCount: { type: "number" },
+                activeUrl: { type: ["string", "null"] },
+                colorScheme: { type: ["string", "null"], description: "Color scheme override (set_color_scheme)" },
+                persistent: { type: "boolean", description: "Uses the persistent user data directory" },
+              },
+              required: ["name", "tabCount", "activeUrl", "colorScheme", "persistent"],
+            },
+          },
+        },
+        required: ["contexts"],
+      },
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async () => {
+      const { listContexts } = await import('../../../toolHandler.js');
+      const contexts = listContexts();
+
+      const lines = [`Browser contexts (${contexts.length}):`];
+      for (const ctx of contexts) {
+        const parts = [`${ctx.tabCount} tab${ctx.tabCount === 1 ? '' : 's'}`];
+        if (ctx.activeUrl) parts.push(ctx.activeUrl);
+        if (ctx.colorScheme) parts.push(`color scheme: ${ctx.colorScheme}`);
+        lines.push(`  ${ctx.name} — ${parts.join(', ')}${ctx.persistent ? ' (persistent)' : ''}`);
+      }
+
+      return createSuccessResponse(lines.join('\n'), {
+        contexts: contexts.map(ctx => ({
+          name: ctx.name,
+          tabCount: ctx.tabCount,
+          activeUrl: ctx.activeUrl ?? null,
+          colorScheme: ctx.colorScheme ?? null,
+          persistent: ctx.persistent,
+        })),
+      });
+    });
+  }
+}
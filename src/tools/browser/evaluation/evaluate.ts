@@ -30,6 +30,7 @@ export class EvaluateTool extends BrowserToolBase {
         "  - 'Preview (first 500 chars):' followed by excerpt",
         "  - Counts: 'totalLength: N, shownLength: M, truncated: true'",
         "  - One-time token string to fetch full output",
+        "Redaction note (conditional): 'Redacted: N values (redaction rules)' when tokens or other sensitive values were hidden",
         "Suggestions block (conditional): compact tips for specialized tools based on script patterns",
       ],
       inputSchema: {
@@ -184,7 +185,9 @@ export class EvaluateTool extends BrowserToolBase {
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     this.recordInteraction();
     return this.safeExecute(context, async (page) => {
-      const PREVIEW_THRESHOLD = 2000; // chars
+      const { getOutputLimits, createRedactor } = await import('../../../toolHandler.js');
+      const PREVIEW_THRESHOLD = getOutputLimits().previewThreshold; // chars
+      const redactor = createRedactor('evaluate');
 
       // Execute the script and produce a compact textual summary entirely in the page context
       // to safely handle DOM nodes and browser-specific objects.
@@ -323,7 +326,7 @@ export class EvaluateTool extends BrowserToolBase {
       if (evalReturn && typeof evalReturn === 'object' && 'ok' in evalReturn) {
         const { ok, text, error: execError } = evalReturn as any;
         if (!ok) {
-          return createErrorResponse(`JavaScript execution failed: ${execError}`);
+          return createErrorResponse(`JavaScript execution failed: ${redactor.text(String(execError))}`);
         }
         resultStr = text || '';
       } else {
@@ -333,6 +336,8 @@ export class EvaluateTool extends BrowserToolBase {
           resultStr = String(evalReturn);
         }
       }
+      resultStr = redactor.text(resultStr);
+      const redactionNote = redactor.summary();
 
       // Detect navigation patterns in the script for post-action waits
       const scriptLower = (args.script || '').toLowerCase();
@@ -392,6 +397,7 @@ export class EvaluateTool extends BrowserToolBase {
         });
 
         lines.push(...previewBlock.lines);
+        if (redactionNote) lines.push(redactionNote);
 
         if (netIdleNote) {
           lines.push('');
@@ -408,6 +414,7 @@ export class EvaluateTool extends BrowserToolBase {
       }
 
       const messages = [`✓ JavaScript execution result:`, resultStr];
+      if (redactionNote) messages.push(redactionNote);
 
       if (netIdleNote) {
         messages.push('');
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { chromium, Browser, Page } from 'playwright';
+import { AuditAccessibilityTool } from '../audit_accessibility.js';
+
+describe('AuditAccessibilityTool', () => {
+  let browser: Browser;
+  let page: Page;
+  let tool: AuditAccessibilityTool;
+
+  beforeAll(async () => {
+    browser = await chromium.launch();
+    const context = await browser.newContext();
+    page = await context.newPage();
+    tool = new AuditAccessibilityTool({} as any);
+  });
+
+  afterAll(async () => {
+    await browser.close();
+  });
+
+  it('should report common WCAG violations with fixes', async () => {
+    await page.setContent(`
+      <html>
+        <body>
+          <h1>Shop</h1>
+          <h4 id="deals">Deals</h4>
+          <img src="hero.png" class="hero">
+          <input type="email" name="email" placeholder="Email">
+          <button data-testid="close"><svg width="10" height="10"></svg></button>
+          <div id="dup">A</div><div id="dup">B</div>
+          <div role="buton" aria-hidden="yes" aria-labelledby="missing">x</div>
+        </body>
+      </html>
+    `);
+
+    const result = await tool.execute({}, { page, browser } as any);
+    const text = result.content[0].text as string;
+
+    expect(result.isError).toBeFalsy();
+    expect(text).toContain('✗ image-alt [WCAG 1.1.1] img.hero');
+    expect(text).toContain('✗ label [WCAG 4.1.2] input[name="email"]');
+    expect(text).toContain('(placeholder only)');
+    expect(text).toContain('✗ button-name [WCAG 4.1.2] testid:close');
+    expect(text).toContain('duplicate-id');
+    expect(text).toContain('role="buton" is not a valid ARIA role');
+    expect(text).toContain('aria-hidden="yes" must be true or false');
+    expect(text).toContain('aria-labelledby references missing id(s): missing');
+    expect(text).toContain('⚠ heading-order [WCAG 1.3.1] #deals');
+    expect(text).toContain('page has no main landmark');
+    expect(text).toContain('Fix:');
+  });
+
+  it('should pass accessible markup and limit the scope to a selector', async () => {
+    await page.setContent(`
+      <html>
+        <body>
+          <main>
+            <form id="signup">
+              <label for="name">Name</label>
+              <input id="name">
+              <label><input type="checkbox"> Subscribe</label>
+              <button aria-label="Submit"><svg></svg></button>
+              <img src="logo.png" alt="">
+            </form>
+          </main>
+          <img src="outside.png">
+        </body>
+      </html>
+    `);
+
+    const result = await tool.execute({ selector: '#signup' }, { page, browser } as any);
+    expect(result.content[0].text).toContain('Accessibility audit of #signup: no issues found');
+  });
+
+  it('should skip hidden elements unless includeHidden is set', async () => {
+    await page.setContent(`
+      <html>
+        <body>
+          <main><div style="display:none"><img src="hidden.png"></div></main>
+        </body>
+      </html>
+    `);
+
+    const visibleOnly = await tool.execute({ rules: ['image-alt'] }, { page, browser } as any);
+    expect(visibleOnly.content[0].text).toContain('no issues found');
+
+    const withHidden = await tool.execute({ rules: ['image-alt'], includeHidden: true }, { page, browser } as any);
+    expect(withHidden.content[0].text).toContain('image-alt');
+  });
+
+  it('should reject unknown rules', async () => {
+    const result = await tool.execute({ rules: ['color-contrast'] }, { page, browser } as any);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Unknown rule(s): color-contrast');
+  });
+});
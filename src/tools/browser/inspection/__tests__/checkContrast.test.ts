@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { chromium, Browser, Page } from 'playwright';
+import { CheckContrastTool, isLargeText, requiredRatio } from '../check_contrast.js';
+
+describe('contrast thresholds', () => {
+  it('should classify large text per WCAG', () => {
+    expect(isLargeText(24, 400)).toBe(true);
+    expect(isLargeText(19, 700)).toBe(true);
+    expect(isLargeText(19, 400)).toBe(false);
+    expect(isLargeText(16, 700)).toBe(false);
+  });
+
+  it('should pick the required ratio for level and size', () => {
+    expect(requiredRatio('AA', 16, 400)).toBe(4.5);
+    expect(requiredRatio('AA', 24, 400)).toBe(3);
+    expect(requiredRatio('AAA', 16, 400)).toBe(7);
+    expect(requiredRatio('AAA', 24, 400)).toBe(4.5);
+  });
+});
+
+describe('CheckContrastTool', () => {
+  let browser: Browser;
+  let page: Page;
+  let tool: CheckContrastTool;
+
+  beforeAll(async () => {
+    browser = await chromium.launch();
+    const context = await browser.newContext();
+    page = await context.newPage();
+    tool = new CheckContrastTool({} as any);
+  });
+
+  afterAll(async () => {
+    await browser.close();
+  });
+
+  it('should report ratio and verdicts for a single element', async () => {
+    await page.setContent(`
+      <html>
+        <body style="background: #fff">
+          <p id="black" style="color: #000; font-size: 16px">Black on white</p>
+        </body>
+      </html>
+    `);
+
+    const result = await tool.execute({ selector: '#black' }, { page, browser } as any);
+    const text = result.content[0].text as string;
+
+    expect(result.isError).toBeFalsy();
+    expect(text).toContain('rgb(0, 0, 0) on rgb(255, 255, 255)');
+    expect(text).toContain('ratio: 21:1 — normal text');
+    expect(text).toContain('normal text: AA ✓ (needs 4.5:1), AAA ✓ (needs 7:1)');
+  });
+
+  it('should blend semi-transparent backgrounds with ancestors', async () => {
+    await page.setContent(`
+      <html>
+        <body style="background: rgb(0, 0, 0)">
+          <div style="background: rgba(255, 255, 255, 0.5)">
+            <span id="label" style="color: rgb(255, 255, 255)">Overlay</span>
+          </div>
+        </body>
+      </html>
+    `);
+
+    const result = await tool.execute({ selector: '#label' }, { page, browser } as any);
+    const text = result.content[0].text as string;
+
+    // 50% white over black composites to mid grey
+    expect(text).toContain('on rgb(128, 128, 128)');
+    expect(text).toContain('AA ✗');
+  });
+
+  it('should list only failing text in scan mode', async () => {
+    await page.setContent(`
+      <html>
+        <body style="background: #fff">
+          <h1 style="color: #111">Readable title</h1>
+          <p class="muted" style="color: #bbb">Faint caption</p>
+          <p style="color: #bbb; display: none">Hidden faint text</p>
+        </body>
+      </html>
+    `);
+
+    const result = await tool.execute({ scan: true }, { page, browser } as any);
+    const text = result.content[0].text as string;
+
+    expect(text).toContain('2 text elements checked, 1 fail AA');
+    expect(text).toContain('p.muted "Faint caption"');
+    expect(text).not.toContain('Readable title');
+    expect(text).not.toContain('Hidden faint text');
+  });
+
+  it('should require a selector unless scanning', async () => {
+    const result = await tool.execute({}, { page, browser } as any);
+    expect(result.isError).toBe(true);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import {
+  InspectAccessibilityTreeTool,
+  parseAriaSnapshot,
+  renderAccessibilityTree,
+  suggestRoleSelector,
+} from '../inspect_accessibility_tree.js';
+import type { ToolContext } from '../../../common/types.js';
+
+const SNAPSHOT = [
+  '- banner:',
+  '  - link "Home":',
+  '    - /url: /',
+  '  - navigation "Main":',
+  '    - list:',
+  '      - listitem:',
+  '        - link "Pricing":',
+  '          - /url: /pricing',
+  '- main:',
+  '  - heading "Sign in" [level=1]',
+  '  - paragraph: Use your work email',
+  '  - textbox "Email"',
+  '  - checkbox "Remember me" [checked]',
+  '  - button "Continue" [disabled]',
+  '  - button "Continue"',
+  `  - 'heading "Step 1: account" [level=2]'`,
+  '  - text: "- optional"',
+].join('\n');
+
+describe('parseAriaSnapshot', () => {
+  it('should build a tree with names, states, props and text', () => {
+    const roots = parseAriaSnapshot(SNAPSHOT);
+    expect(roots.map(r => r.role)).toEqual(['banner', 'main']);
+
+    const [banner, main] = roots;
+    expect(banner.children[0]).toMatchObject({ role: 'link', name: 'Home', props: { url: '/' } });
+    expect(main.children[0]).toMatchObject({ role: 'heading', name: 'Sign in', attributes: ['level=1'] });
+    expect(main.children[1]).toMatchObject({ role: 'paragraph', text: 'Use your work email' });
+    expect(main.children[3]).toMatchObject({ role: 'checkbox', attributes: ['checked'] });
+  });
+
+  it('should unquote escaped keys and values', () => {
+    const main = parseAriaSnapshot(SNAPSHOT)[1];
+    expect(main.children[6]).toMatchObject({ role: 'heading', name: 'Step 1: account', attributes: ['level=2'] });
+    expect(main.children[7]).toMatchObject({ role: 'text', text: '- optional' });
+  });
+});
+
+describe('suggestRoleSelector', () => {
+  it('should produce Playwright role selectors', () => {
+    expect(suggestRoleSelector({ role: 'button', name: 'Say "hi"', attributes: [], props: {}, children: [] }))
+      .toBe('role=button[name="Say \\"hi\\""]');
+    expect(suggestRoleSelector({ role: 'main', attributes: [], props: {}, children: [] })).toBe('role=main');
+    expect(suggestRoleSelector({ role: 'text', text: 'x', attributes: [], props: {}, children: [] })).toBeNull();
+  });
+});
+
+describe('renderAccessibilityTree', () => {
+  const roots = parseAriaSnapshot(SNAPSHOT);
+
+  it('should indent nodes and attach selectors', () => {
+    const { lines } = renderAccessibilityTree(roots);
+    expect(lines).toContain('  link "Home" (url: /)  → role=link[name="Home"]');
+    expect(lines).toContain('main  → role=main');
+    expect(lines).toContain('  checkbox "Remember me" [checked]  → role=checkbox[name="Remember me"]');
+    expect(lines).toContain('  button "Continue" [disabled]  → role=button[name="Continue"] (2 matches)');
+  });
+
+  it('should flatten uninteresting nodes', () => {
+    const { lines } = renderAccessibilityTree(roots, { interestingOnly: true });
+    expect(lines.some(l => l.includes('listitem'))).toBe(false);
+    expect(lines.some(l => l.includes('text:'))).toBe(false);
+    // Link inside list/listitem is promoted to directly below the navigation
+    expect(lines).toContain('    link "Pricing" (url: /pricing)  → role=link[name="Pricing"]');
+  });
+
+  it('should summarize nodes below maxDepth and cap node count', () => {
+    const shallow = renderAccessibilityTree(roots, { maxDepth: 1 });
+    expect(shallow.lines[0]).toBe('banner  → role=banner');
+    expect(shallow.lines[1]).toContain('… 5 nested nodes');
+
+    const capped = renderAccessibilityTree(roots, { maxNodes: 3 });
+    expect(capped.shown).toBe(3);
+    expect(capped.truncated).toBe(true);
+  });
+});
+
+describe('InspectAccessibilityTreeTool', () => {
+  const mockAriaSnapshot = jest.fn<() => Promise<string>>();
+  const mockLocator = {
+    count: jest.fn<() => Promise<number>>().mockResolvedValue(1),
+    first: () => mockLocator,
+    nth: () => mockLocator,
+    isVisible: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+    ariaSnapshot: mockAriaSnapshot,
+  };
+  const mockPage = {
+    locator: jest.fn().mockReturnValue(mockLocator),
+    isClosed: jest.fn().mockReturnValue(false),
+  };
+  const context = {
+    page: mockPage,
+    browser: { isConnected: () => true },
+    server: {},
+  } as unknown as ToolContext;
+
+  beforeEach(() => {
+    mockAriaSnapshot.mockResolvedValue(SNAPSHOT);
+  });
+
+  it('should print a header and the tree', async () => {
+    const tool = new InspectAccessibilityTreeTool({});
+    const result = await tool.execute({ interestingOnly: true }, context);
+    const text = result.content[0].text as string;
+
+    expect(result.isError).toBe(false);
+    expect(text).toMatch(/^Accessibility tree of page \(interesting only, \d+ of \d+ nodes\):/);
+    expect(text).toContain('textbox "Email"  → role=textbox[name="Email"]');
+  });
+
+  it('should report an empty tree', async () => {
+    mockAriaSnapshot.mockResolvedValue('');
+    const tool = new InspectAccessibilityTreeTool({});
+    const result = await tool.execute({ selector: '#hidden' }, context);
+    expect(result.content[0].text).toContain('Accessibility tree of #hidden: empty');
+  });
+});
@@ -0,0 +1,451 @@
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse, createErrorResponse } from '../../common/types.js';
+
+/**
+ * Issue reported by an in-page accessibility rule
+ */
+interface AccessibilityIssue {
+  rule: string;
+  severity: 'error' | 'warning';
+  wcag: string;
+  selector: string;
+  element: string;
+  message: string;
+  fix: string;
+}
+
+export const ACCESSIBILITY_RULES = [
+  'label',
+  'image-alt',
+  'button-name',
+  'link-name',
+  'duplicate-id',
+  'aria-valid-attr',
+  'aria-valid-attr-value',
+  'aria-roles',
+  'heading-order',
+  'landmarks',
+] as const;
+
+/**
+ * Tool for auditing a page or subtree against common WCAG rules
+ */
+export class AuditAccessibilityTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "audit_accessibility",
+      description: `Audit the page (or a selector subtree) for common WCAG problems: inputs without labels, images without alt text, buttons/links without accessible names, duplicate IDs, invalid ARIA attributes/values/roles, heading level jumps and missing landmarks. Each issue shows rule id, severity, WCAG criterion, a selector to inspect it and a one-line fix. Hidden elements are skipped unless includeHidden is true. Landmark checks only run for the whole page.
+
+RULES: ${ACCESSIBILITY_RULES.join(', ')}`,
+      outputs: [
+        "Header: audited scope and issue counts (errors, warnings).",
+        "For each issue:",
+        "- ✗ (error) or ⚠ (warning) rule id [WCAG x.y.z] selector — problem",
+        "- Fix: one-line remediation",
+      ],
+      examples: [
+        "audit_accessibility({})",
+        "audit_accessibility({ selector: 'testid:signup-form' })",
+        "audit_accessibility({ rules: ['label', 'button-name'] })",
+      ],
+      exampleOutputs: [
+        {
+          call: "audit_accessibility({})",
+          output: `Accessibility audit of page: 3 issues (2 errors, 1 warning)\n\n✗ image-alt [WCAG 1.1.1] img.hero — <img src="hero.png"> has no alt attribute\n  Fix: add alt="…" describing the image, or alt="" if it is decorative\n✗ label [WCAG 4.1.2] input[name="email"] — <input type="email"> has no label (placeholder only)\n  Fix: add <label for="…">, wrap it in <label>, or set aria-label\n⚠ heading-order [WCAG 1.3.1] #pricing — <h4> follows <h2> (skips level 3)\n  Fix: use <h3> or restructure so heading levels increase by one`
+        }
+      ],
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: {
+            type: "string",
+            description: "CSS selector, text selector, or testid shorthand of the subtree to audit. Omit to audit the whole page."
+          },
+          rules: {
+            type: "array",
+            items: { type: "string", enum: [...ACCESSIBILITY_RULES] },
+            description: "Only run these rules (default: all)"
+          },
+          includeHidden: {
+            type: "boolean",
+            description: "Also audit hidden elements (default: false)"
+          },
+          maxIssues: {
+            type: "number",
+            description: "Maximum number of issues to list (default: 50)"
+          },
+          elementIndex: {
+            type: "number",
+            description: "When selector matches multiple elements, use this 1-based index to select a specific one (e.g., 2 = second element). Default: first visible element."
+          }
+        },
+        required: [],
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          scope: { type: "string", description: "'page' or the audited selector" },
+          rules: { type: "array", items: { type: "string" } },
+          errors: { type: "number" },
+          warnings: { type: "number" },
+          issues: {
+            type: "array",
+            description: "Errors first, then warnings (up to maxIssues)",
+            items: {
+              type: "object",
+              properties: {
+                rule: { type: "string" },
+                severity: { type: "string", enum: ["error", "warning"] },
+                wcag: { type: "string", description: "WCAG success criterion, e.g. 1.1.1" },
+                selector: { type: "string" },
+                element: { type: "string" },
+                message: { type: "string" },
+                fix: { type: "string" },
+              },
+              required: ["rule", "severity", "wcag", "selector", "element", "message", "fix"],
+            },
+          },
+          omitted: { type: "number", description: "Issues left out by maxIssues" },
+        },
+        required: ["scope", "rules", "errors", "warnings", "issues", "omitted"],
+      },
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const rules: string[] = Array.isArray(args.rules) && args.rules.length > 0 ? args.rules : [...ACCESSIBILITY_RULES];
+    const unknownRules = rules.filter(r => !(ACCESSIBILITY_RULES as readonly string[]).includes(r));
+    if (unknownRules.length > 0) {
+      return createErrorResponse(`Unknown rule(s): ${unknownRules.join(', ')}. Available: ${ACCESSIBILITY_RULES.join(', ')}`);
+    }
+    const maxIssues = args.maxIssues ?? 50;
+
+    return this.safeExecute(context, async (page) => {
+      const wholePage = !args.selector;
+      const selector = args.selector ? this.normalizeSelector(args.selector) : 'body';
+      const locator = page.locator(selector);
+      const { element, elementIndex, totalCount } = await this.selectPreferredLocator(locator, {
+        originalSelector: args.selector || 'body',
+        elementIndex: args.elementIndex,
+      });
+
+      const issues: AccessibilityIssue[] = await element.evaluate(
+        (root: Element, { rules, includeHidden, wholePage }) => {
+          const found: AccessibilityIssue[] = [];
+          const enabled = new Set(rules);
+          const doc = root.ownerDocument;
+
+          const isHidden = (el: Element): boolean => {
+            if (el.closest('[aria-hidden="true"]')) return true;
+            const anyEl = el as any;
+            if (typeof anyEl.checkVisibility === 'function') {
+              return !anyEl.checkVisibility({ visibilityProperty: true });
+            }
+            const styles = window.getComputedStyle(el);
+            return styles.display === 'none' || styles.visibility === 'hidden';
+          };
+
+          const describe = (el: Element): string => {
+            const tag = el.tagName.toLowerCase();
+            const attrs: string[] = [];
+            for (const name of ['type', 'name', 'src', 'href', 'role']) {
+              const value = el.getAttribute(name);
+              if (value) attrs.push(`${name}="${value.length > 40 ? value.slice(0, 37) + '...' : value}"`);
+            }
+            return `<${tag}${attrs.length ? ' ' + attrs.join(' ') : ''}>`;
+          };
+
+          const selectorFor = (el: Element): string => {
+            const testId = el.getAttribute('data-testid') || el.getAttribute('data-test') || el.getAttribute('data-cy');
+            if (testId) return `testid:${testId}`;
+            if (el.id && doc.querySelectorAll(`#${CSS.escape(el.id)}`).length === 1) return `#${el.id}`;
+            const tag = el.tagName.toLowerCase();
+            const name = el.getAttribute('name');
+            if (name) return `${tag}[name="${name}"]`;
+            const classes = Array.from(el.classList).slice(0, 2).join('.');
+            return classes ? `${tag}.${classes}` : tag;
+          };
+
+          const report = (el: Element, rule: string, severity: 'error' | 'warning', wcag: string, message: string, fix: string) => {
+            found.push({ rule, severity, wcag, selector: selectorFor(el), element: describe(el), message, fix });
+          };
+
+          const textOf = (el: Element | null): string => (el?.textContent || '').replace(/\s+/g, ' ').trim();
+
+          const labelledByText = (el: Element): string => {
+            const ids = (el.getAttribute('aria-labelledby') || '').split(/\s+/).filter(Boolean);
+            return ids.map(id => textOf(doc.getElementById(id))).join(' ').trim();
+          };
+
+          // Approximates the accessible name computation: ARIA labels, then
+          // text content including alt text of images and labels of icons
+          const contentName = (el: Element): string => {
+            let name = textOf(el);
+            el.querySelectorAll('img[alt], [aria-label], svg title').forEach(child => {
+              name += ' ' + (child.getAttribute('alt') || child.getAttribute('aria-label') || textOf(child));
+            });
+            return name.trim();
+          };
+
+          const ariaName = (el: Element): string =>
+            (el.getAttribute('aria-label') || '').trim() || labelledByText(el) || (el.getAttribute('title') || '').trim();
+
+          const candidates = [root, ...Array.from(root.querySelectorAll('*'))]
+            .filter(el => includeHidden || !isHidden(el));
+
+          // label: form fields need a programmatic label
+          if (enabled.has('label')) {
+            const skipTypes = new Set(['hidden', 'submit', 'button', 'reset', 'image']);
+            for (const el of candidates) {
+              const tag = el.tagName.toLowerCase();
+              if (!['input', 'select', 'textarea'].includes(tag)) continue;
+              const type = (el.getAttribute('type') || 'text').toLowerCase();
+              if (tag === 'input' && skipTypes.has(type)) continue;
+
+              const labels = (el as HTMLInputElement).labels;
+              const hasLabel = (labels && Array.from(labels).some(l => textOf(l))) || ariaName(el);
+              if (!hasLabel) {
+                const placeholderOnly = el.getAttribute('placeholder') ? ' (placeholder only)' : '';
+                report(el, 'label', 'error', '4.1.2', `${describe(el)} has no label${placeholderOnly}`,
+                  'add <label for="…">, wrap it in <label>, or set aria-label');
+              }
+            }
+          }
+
+          // image-alt: images need alt text (empty alt marks decorative images)
+          if (enabled.has('image-alt')) {
+            for (const el of candidates) {
+              const tag = el.tagName.toLowerCase();
+              const role = el.getAttribute('role');
+              if (role === 'presentation' || role === 'none') continue;
+              if (tag === 'img' && !el.hasAttribute('alt') && !ariaName(el)) {
+                report(el, 'image-alt', 'error', '1.1.1', `${describe(el)} has no alt attribute`,
+                  'add alt="…" describing the image, or alt="" if it is decorative');
+              } else if (tag === 'input' && el.getAttribute('type') === 'image' && !(el.getAttribute('alt') || '').trim() && !ariaName(el)) {
+                report(el, 'image-alt', 'error', '1.1.1', `${describe(el)} has no alt text`,
+                  'add alt="…" describing the button action');
+              } else if (role === 'img' && !ariaName(el)) {
+                report(el, 'image-alt', 'error', '1.1.1', `${describe(el)} has role="img" but no accessible name`,
+                  'add aria-label="…" describing the image');
+              }
+            }
+          }
+
+          // button-name: buttons need an accessible name
+          if (enabled.has('button-name')) {
+            for (const el of candidates) {
+              const tag = el.tagName.toLowerCase();
+              const type = (el.getAttribute('type') || '').toLowerCase();
+              const isButton = tag === 'button' || el.getAttribute('role') === 'button' ||
+                (tag === 'input' && ['button', 'submit', 'reset'].includes(type));
+              if (!isButton) continue;
+
+              let name = ariaName(el);
+              if (!name && tag === 'input') {
+                // Submit and reset buttons get a default label from the browser
+                name = (el.getAttribute('value') || '').trim() || (type !== 'button' ? type : '');
+              }
+              if (!name) name = contentName(el);
+              if (!name) {
+                report(el, 'button-name', 'error', '4.1.2', `${describe(el)} has no accessible name`,
+                  'add visible text, or aria-label="…" for icon-only buttons');
+              }
+            }
+          }
+
+          // link-name: links need text that describes the target
+          if (enabled.has('link-name')) {
+            for (const el of candidates) {
+              const isLink = (el.tagName.toLowerCase() === 'a' && el.hasAttribute('href')) || el.getAttribute('role') === 'link';
+              if (isLink && !ariaName(el) && !contentName(el)) {
+                report(el, 'link-name', 'error', '2.4.4', `${describe(el)} has no accessible name`,
+                  'add link text, or aria-label="…" for icon-only links');
+              }
+            }
+          }
+
+          // duplicate-id: IDs are document-wide, so compare against the whole document
+          if (enabled.has('duplicate-id')) {
+            const seen = new Set<string>();
+            for (const el of [root, ...Array.from(root.querySelectorAll('[id]'))]) {
+              const id = el.id;
+              if (!id || seen.has(id)) continue;
+              const count = doc.querySelectorAll(`[id="${CSS.escape(id)}"]`).length;
+              if (count > 1) {
+                seen.add(id);
+                const referenced = doc.querySelector(`label[for="${CSS.escape(id)}"], [aria-labelledby~="${CSS.escape(id)}"], [aria-describedby~="${CSS.escape(id)}"], [aria-controls~="${CSS.escape(id)}"]`);
+                report(el, 'duplicate-id', referenced ? 'error' : 'warning', '4.1.1',
+                  `id="${id}" is used by ${count} elements${referenced ? ' and referenced by a label/ARIA attribute' : ''}`,
+                  'make each id unique so labels and ARIA references point to one element');
+              }
+            }
+          }
+
+          // ARIA attribute names, values and roles
+          const booleanAttrs = ['aria-atomic', 'aria-busy', 'aria-disabled', 'aria-hidden', 'aria-modal', 'aria-multiline', 'aria-multiselectable', 'aria-readonly', 'aria-required'];
+          const tokenAttrs: Record<string, string[]> = {
+            'aria-checked': ['true', 'false', 'mixed'],
+            'aria-pressed': ['true', 'false', 'mixed'],
+            'aria-expanded': ['true', 'false', 'undefined'],
+            'aria-selected': ['true', 'false', 'undefined'],
+            'aria-invalid': ['true', 'false', 'grammar', 'spelling'],
+            'aria-live': ['off', 'polite', 'assertive'],
+            'aria-current': ['page', 'step', 'location', 'date', 'time', 'true', 'false'],
+            'aria-haspopup': ['true', 'false', 'menu', 'listbox', 'tree', 'grid', 'dialog'],
+            'aria-orientation': ['horizontal', 'vertical', 'undefined'],
+            'aria-sort': ['ascending', 'descending', 'none', 'other'],
+            'aria-autocomplete': ['inline', 'list', 'both', 'none'],
+          };
+          const idRefAttrs = ['aria-activedescendant', 'aria-controls', 'aria-describedby', 'aria-details', 'aria-errormessage', 'aria-flowto', 'aria-labelledby', 'aria-owns'];
+          const integerAttrs = ['aria-colcount', 'aria-colindex', 'aria-colspan', 'aria-level', 'aria-posinset', 'aria-rowcount', 'aria-rowindex', 'aria-rowspan', 'aria-setsize'];
+          const numberAttrs = ['aria-valuemax', 'aria-valuemin', 'aria-valuenow'];
+          const stringAttrs = ['aria-label', 'aria-placeholder', 'aria-roledescription', 'aria-valuetext', 'aria-keyshortcuts', 'aria-relevant', 'aria-braillelabel', 'aria-brailleroledescription', 'aria-description'];
+          const knownAttrs = new Set([...booleanAttrs, ...Object.keys(tokenAttrs), ...idRefAttrs, ...integerAttrs, ...numberAttrs, ...stringAttrs]);
+
+          if (enabled.has('aria-valid-attr') || enabled.has('aria-valid-attr-value')) {
+            for (const el of candidates) {
+              for (const attr of Array.from(el.attributes)) {
+                const name = attr.name.toLowerCase();
+                if (!name.startsWith('aria-')) continue;
+                const value = attr.value.trim();
+
+                if (!knownAttrs.has(name)) {
+                  if (enabled.has('aria-valid-attr')) {
+                    report(el, 'aria-valid-attr', 'error', '4.1.2', `${describe(el)} uses unknown attribute ${name}`,
+                      'fix the spelling or remove the attribute (see the WAI-ARIA attribute list)');
+                  }
+                  continue;
+                }
+                if (!enabled.has('aria-valid-attr-value')) continue;
+
+                let problem: string | null = null;
+                let fix = '';
+                if (booleanAttrs.includes(name) && !['true', 'false'].includes(value)) {
+                  problem = `${name}="${value}" must be true or false`;
+                  fix = `use ${name}="true" or ${name}="false"`;
+                } else if (tokenAttrs[name] && !tokenAttrs[name].includes(value)) {
+                  problem = `${name}="${value}" is not one of: ${tokenAttrs[name].join(', ')}`;
+                  fix = `use one of the allowed values for ${name}`;
+                } else if (idRefAttrs.includes(name)) {
+                  const missing = value.split(/\s+/).filter(id => id && !doc.getElementById(id));
+                  if (!value || missing.length > 0) {
+                    problem = value ? `${name} references missing id(s): ${missing.join(', ')}` : `${name} is empty`;
+                    fix = `point ${name} at the id of an existing element`;
+                  }
+                } else if (integerAttrs.includes(name) && !/^-?\d+$/.test(value)) {
+                  problem = `${name}="${value}" must be an integer`;
+                  fix = `use a whole number for ${name}`;
+                } else if (numberAttrs.includes(name) && (value === '' || isNaN(Number(value)))) {
+                  problem = `${name}="${value}" must be a number`;
+                  fix = `use a numeric value for ${name}`;
+                }
+
+                if (problem) {
+                  report(el, 'aria-valid-attr-value', 'error', '4.1.2', problem, fix);
+                }
+              }
+            }
+          }
+
+          if (enabled.has('aria-roles')) {
+            const validRoles = new Set([
+              'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button', 'caption', 'cell', 'checkbox',
+              'code', 'columnheader', 'combobox', 'complementary', 'contentinfo', 'definition', 'deletion', 'dialog', 'directory',
+              'document', 'emphasis', 'feed', 'figure', 'form', 'generic', 'grid', 'gridcell', 'group', 'heading', 'img', 'insertion',
+              'link', 'list', 'listbox', 'listitem', 'log', 'main', 'mark', 'marquee', 'math', 'menu', 'menubar', 'menuitem',
+              'menuitemcheckbox', 'menuitemradio', 'meter', 'navigation', 'none', 'note', 'option', 'paragraph', 'presentation',
+              'progressbar', 'radio', 'radiogroup', 'region', 'row', 'rowgroup', 'rowheader', 'scrollbar', 'search', 'searchbox',
+              'separator', 'slider', 'spinbutton', 'status', 'strong', 'subscript', 'superscript', 'switch', 'tab', 'table',
+              'tablist', 'tabpanel', 'term', 'textbox', 'time', 'timer', 'toolbar', 'tooltip', 'tree', 'treegrid', 'treeitem',
+            ]);
+            for (const el of candidates) {
+              const role = el.getAttribute('role');
+              if (role === null) continue;
+              const tokens = role.trim().split(/\s+/).filter(Boolean);
+              // Fallback roles are allowed; the first valid token wins
+              if (!tokens.some(t => validRoles.has(t.toLowerCase()))) {
+                report(el, 'aria-roles', 'error', '4.1.2', `role="${role}" is not a valid ARIA role`,
+                  'use a WAI-ARIA role (e.g. button, dialog, navigation) or remove the attribute');
+              }
+            }
+          }
+
+          // heading-order: levels should not skip when going deeper
+          if (enabled.has('heading-order')) {
+            let previous: number | null = null;
+            for (const el of candidates) {
+              const tag = el.tagName.toLowerCase();
+              let level: number | null = null;
+              if (/^h[1-6]$/.test(tag)) level = Number(tag[1]);
+              if (el.getAttribute('role') === 'heading') level = Number(el.getAttribute('aria-level')) || 2;
+              if (level === null) continue;
+
+              if (previous !== null && level > previous + 1) {
+                report(el, 'heading-order', 'warning', '1.3.1', `<h${level}> follows <h${previous}> (skips level ${previous + 1})`,
+                  `use <h${previous + 1}> or restructure so heading levels increase by one`);
+              }
+              previous = level;
+            }
+          }
+
+          // landmarks: only meaningful for the whole page
+          if (enabled.has('landmarks') && wholePage) {
+            const mains = Array.from(doc.querySelectorAll('main, [role="main"]')).filter(el => includeHidden || !isHidden(el));
+            const body = doc.body;
+            if (mains.length === 0) {
+              report(body, 'landmarks', 'warning', '1.3.1', 'page has no main landmark',
+                'wrap the primary content in <main> (or role="main")');
+            } else if (mains.length > 1) {
+              report(mains[1], 'landmarks', 'warning', '1.3.1', `page has ${mains.length} main landmarks`,
+                'keep a single visible <main> per page');
+            }
+            const hasNav = doc.querySelector('nav, [role="navigation"]');
+            const linkCount = doc.querySelectorAll('a[href]').length;
+            if (!hasNav && linkCount >= 5) {
+              report(body, 'landmarks', 'warning', '1.3.1', `page has ${linkCount} links but no navigation landmark`,
+                'wrap site navigation in <nav> (or role="navigation")');
+            }
+          }
+
+          return found;
+        },
+        { rules, includeHidden: Boolean(args.includeHidden), wholePage }
+      );
+
+      const lines: string[] = [];
+      const selectionInfo = this.formatElementSelectionInfo(args.selector || 'body', elementIndex, totalCount);
+      if (selectionInfo && args.selector) lines.push(selectionInfo.trim());
+
+      const scope = wholePage ? 'page' : args.selector;
+      if (issues.length === 0) {
+        lines.push(`Accessibility audit of ${scope}: no issues found (${rules.length} rules)`);
+        return createSuccessResponse(lines.join('\n'), { scope, rules, errors: 0, warnings: 0, issues: [], omitted: 0 });
+      }
+
+      const errors = issues.filter(i => i.severity === 'error');
+      const warnings = issues.filter(i => i.severity === 'warning');
+      const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+      lines.push(`Accessibility audit of ${scope}: ${plural(issues.length, 'issue')} (${plural(errors.length, 'error')}, ${plural(warnings.length, 'warning')})`);
+      lines.push('');
+
+      const ordered = [...errors, ...warnings];
+      for (const issue of ordered.slice(0, maxIssues)) {
+        const icon = issue.severity === 'error' ? '✗' : '⚠';
+        lines.push(`${icon} ${issue.rule} [WCAG ${issue.wcag}] ${issue.selector} — ${issue.message}`);
+        lines.push(`  Fix: ${issue.fix}`);
+      }
+      if (ordered.length > maxIssues) {
+        lines.push(`... ${ordered.length - maxIssues} more (raise maxIssues or narrow with selector/rules)`);
+      }
+
+      return createSuccessResponse(lines.join('\n'), {
+        scope,
+        rules,
+        errors: errors.length,
+        warnings: warnings.length,
+        issues: ordered.slice(0, maxIssues),
+        omitted: Math.max(0, ordered.length - maxIssues),
+      });
+    });
+  }
+}
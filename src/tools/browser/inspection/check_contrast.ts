@@ -0,0 +1,355 @@
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse, createErrorResponse } from '../../common/types.js';
+
+interface CheckContrastArgs {
+  selector?: string;
+  scan?: boolean;
+  level?: 'AA' | 'AAA';
+  maxResults?: number;
+  elementIndex?: number;
+}
+
+/**
+ * Contrast measurement of one text element, computed in the page
+ */
+interface ContrastSample {
+  selector: string;
+  element: string;
+  text: string;
+  foreground: string;
+  background: string;
+  backgroundFrom: string;
+  ratio: number;
+  fontSize: number;
+  fontWeight: number;
+  // Background image/gradient or unparsable color: ratio is a best guess
+  approximate?: string;
+}
+
+// WCAG 2.x minimum contrast ratios (SC 1.4.3 AA, 1.4.6 AAA)
+export const CONTRAST_THRESHOLDS = {
+  AA: { normal: 4.5, large: 3 },
+  AAA: { normal: 7, large: 4.5 },
+} as const;
+
+/**
+ * WCAG large text: at least 18pt (24px), or 14pt (≈18.66px) bold
+ */
+export function isLargeText(fontSizePx: number, fontWeight: number): boolean {
+  return fontSizePx >= 24 || (fontSizePx >= 18.66 && fontWeight >= 700);
+}
+
+/**
+ * Minimum ratio required for a text sample at the given level
+ */
+export function requiredRatio(level: 'AA' | 'AAA', fontSizePx: number, fontWeight: number): number {
+  return CONTRAST_THRESHOLDS[level][isLargeText(fontSizePx, fontWeight) ? 'large' : 'normal'];
+}
+
+/**
+ * Tool for checking WCAG color contrast of text against its effective background
+ */
+export class CheckContrastTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "check_contrast",
+      description: "Check WCAG color contrast of text. Resolves the effective text color and the effective background by walking ancestors and blending semi-transparent layers, then reports the contrast ratio with AA/AAA pass/fail for normal and large text. With scan: true, checks every text element under the selector (default: whole page) and lists only failures. Use after set_color_scheme to verify dark mode. Supports testid shortcuts.",
+      outputs: [
+        "Single element: colors, background source, ratio, text size class, AA/AAA verdicts for normal and large text.",
+        "Scan: header with checked/failing counts, then one line per failure: ratio (needed) selector \"text\" — fg on bg.",
+      ],
+      examples: [
+        "check_contrast({ selector: 'testid:submit' })",
+        "check_contrast({ scan: true })",
+        "check_contrast({ selector: 'main', scan: true, level: 'AAA' })",
+      ],
+      exampleOutputs: [
+        {
+          call: "check_contrast({ selector: 'testid:submit' })",
+          output: `Contrast: <button data-testid="submit"> "Submit"\n  text: rgb(255, 255, 255) on rgb(96, 165, 250) (background from <button data-testid="submit">)\n  ratio: 2.54:1 — normal text (16px, weight 600)\n  normal text: AA ✗ (needs 4.5:1), AAA ✗ (needs 7:1)\n  large text:  AA ✗ (needs 3:1), AAA ✗ (needs 4.5:1)`
+        },
+        {
+          call: "check_contrast({ scan: true })",
+          output: `Contrast scan of page (color scheme: dark): 38 text elements checked, 2 fail AA\n\n✗ 2.9:1 (needs 4.5) p.muted "Last updated 3 days ago" — rgb(100, 116, 139) on rgb(30, 41, 59)\n✗ 3.8:1 (needs 4.5) testid:footer-link "Privacy" — rgb(71, 85, 105) on rgb(15, 23, 42)`
+        }
+      ],
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: {
+            type: "string",
+            description: "CSS selector, text selector, or testid shorthand. Required for a single element; with scan: true limits the scan to this subtree (default: body)."
+          },
+          scan: {
+            type: "boolean",
+            description: "Check all visible text under the selector and list only failures (default: false)"
+          },
+          level: {
+            type: "string",
+            enum: ["AA", "AAA"],
+            description: "Conformance level used to decide failures in scan mode (default: AA)"
+          },
+          maxResults: {
+            type: "number",
+            description: "Maximum number of failures to list in scan mode (default: 30)"
+          },
+          elementIndex: {
+            type: "number",
+            description: "When selector matches multiple elements, use this 1-based index to select a specific one (e.g., 2 = second element). Default: first visible element."
+          }
+        },
+        required: [],
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          mode: { type: "string", enum: ["element", "scan"] },
+          level: { type: "string", enum: ["AA", "AAA"] },
+          colorScheme: { type: ["string", "null"], description: "Color scheme override in effect (set_color_scheme)" },
+          checked: { type: "number", description: "Text elements measured" },
+          failing: { type: "number", description: "Text elements below the level's minimum ratio" },
+          samples: {
+            type: "array",
+            description: "The checked element, or in scan mode the failures, worst first (up to maxResults)",
+            items: {
+              type: "object",
+              properties: {
+                selector: { type: "string" },
+                element: { type: "string" },
+                text: { type: "string" },
+                foreground: { type: "string" },
+                background: { type: "string" },
+                backgroundFrom: { type: "string", description: "Element the effective background comes from" },
+                ratio: { type: "number" },
+                fontSize: { type: "number" },
+                fontWeight: { type: "number" },
+                largeText: { type: "boolean" },
+                required: { type: "number", description: "Minimum ratio at the requested level" },
+                passesAA: { type: "boolean" },
+                passesAAA: { type: "boolean" },
+                approximate: { type: "string", description: "Why the ratio is a best guess (background image, gradient)" },
+              },
+              required: ["selector", "element", "ratio", "foreground", "background", "largeText", "required", "passesAA", "passesAAA"],
+            },
+          },
+        },
+        required: ["mode", "level", "colorScheme", "checked", "failing", "samples"],
+      },
+    };
+  }
+
+  async execute(args: CheckContrastArgs, context: ToolContext): Promise<ToolResponse> {
+    if (!args.scan && !args.selector) {
+      return createErrorResponse("selector is required unless scan: true (e.g., check_contrast({ selector: 'testid:submit' }) or check_contrast({ scan: true }))");
+    }
+    const level = args.level ?? 'AA';
+    if (level !== 'AA' && level !== 'AAA') {
+      return createErrorResponse(`Invalid level "${args.level}". Use 'AA' or 'AAA'.`);
+    }
+
+    return this.safeExecute(context, async (page) => {
+      const selector = args.selector ? this.normalizeSelector(args.selector) : 'body';
+      const locator = page.locator(selector);
+      const { element, elementIndex, totalCount } = await this.selectPreferredLocator(locator, {
+        originalSelector: args.selector || 'body',
+        elementIndex: args.elementIndex,
+      });
+
+      const samples: ContrastSample[] = await element.evaluate((root: Element, scan: boolean) => {
+        type RGBA = { r: number; g: number; b: number; a: number };
+
+        const parseColor = (value: string): RGBA | null => {
+          const rgb = value.match(/^rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/);
+          if (rgb) {
+            const alpha = rgb[4] === undefined ? 1 : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : parseFloat(rgb[4]);
+            return { r: +rgb[1], g: +rgb[2], b: +rgb[3], a: alpha };
+          }
+          const srgb = value.match(/^color\(srgb\s+([\d.]+)\s+([\d.]+)\s+([\d.]+)(?:\s*\/\s*([\d.]+))?\s*\)$/);
+          if (srgb) {
+            return { r: +srgb[1] * 255, g: +srgb[2] * 255, b: +srgb[3] * 255, a: srgb[4] === undefined ? 1 : +srgb[4] };
+          }
+          return null;
+        };
+
+        // Source-over compositing of a (possibly transparent) color onto an opaque one
+        const blend = (top: RGBA, bottom: RGBA): RGBA => ({
+          r: top.r * top.a + bottom.r * (1 - top.a),
+          g: top.g * top.a + bottom.g * (1 - top.a),
+          b: top.b * top.a + bottom.b * (1 - top.a),
+          a: 1,
+        });
+
+        const luminance = (c: RGBA): number => {
+          const channel = (v: number) => {
+            const s = v / 255;
+            return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+          };
+          return 0.2126 * channel(c.r) + 0.7152 * channel(c.g) + 0.0722 * channel(c.b);
+        };
+
+        const format = (c: RGBA) => `rgb(${Math.round(c.r)}, ${Math.round(c.g)}, ${Math.round(c.b)})`;
+
+        const describe = (el: Element): string => {
+          const tag = el.tagName.toLowerCase();
+          const testId = el.getAttribute('data-testid');
+          if (testId) return `<${tag} data-testid="${testId}">`;
+          if (el.id) return `<${tag} id="${el.id}">`;
+          const classes = Array.from(el.classList).slice(0, 2).join('.');
+          return classes ? `<${tag} .${classes}>` : `<${tag}>`;
+        };
+
+        const selectorFor = (el: Element): string => {
+          const testId = el.getAttribute('data-testid') || el.getAttribute('data-test') || el.getAttribute('data-cy');
+          if (testId) return `testid:${testId}`;
+          if (el.id) return `#${el.id}`;
+          const tag = el.tagName.toLowerCase();
+          const classes = Array.from(el.classList).slice(0, 2).join('.');
+          return classes ? `${tag}.${classes}` : tag;
+        };
+
+        const isVisible = (el: Element): boolean => {
+          const anyEl = el as any;
+          if (typeof anyEl.checkVisibility === 'function') {
+            return anyEl.checkVisibility({ opacityProperty: true, visibilityProperty: true });
+          }
+          const styles = window.getComputedStyle(el);
+          return styles.display !== 'none' && styles.visibility !== 'hidden' && parseFloat(styles.opacity) > 0;
+        };
+
+        const measure = (el: Element): ContrastSample => {
+          let approximate: string | undefined;
+
+          // Collect background layers from the element up to the root
+          const layers: RGBA[] = [];
+          let backgroundFrom = 'page canvas (white)';
+          for (let node: Element | null = el; node; node = node.parentElement) {
+            const styles = window.getComputedStyle(node);
+            if (styles.backgroundImage && styles.backgroundImage !== 'none' && !approximate) {
+              approximate = `background image on ${describe(node)} ignored`;
+            }
+            const color = parseColor(styles.backgroundColor);
+            if (!color) {
+              approximate = approximate || `unsupported color ${styles.backgroundColor}`;
+              continue;
+            }
+            if (color.a === 0) continue;
+            if (layers.length === 0) backgroundFrom = describe(node);
+            layers.push(color);
+            if (color.a >= 1) break;
+          }
+
+          // Composite from the bottom-most layer upwards onto the white canvas
+          let background: RGBA = { r: 255, g: 255, b: 255, a: 1 };
+          for (let i = layers.length - 1; i >= 0; i--) {
+            background = blend(layers[i], background);
+          }
+
+          const styles = window.getComputedStyle(el);
+          let fg = parseColor(styles.color);
+          if (!fg) {
+            approximate = approximate || `unsupported color ${styles.color}`;
+            fg = { r: 0, g: 0, b: 0, a: 1 };
+          }
+          const foreground = blend(fg, background);
+
+          const l1 = luminance(foreground);
+          const l2 = luminance(background);
+          const ratio = (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+
+          const text = (el.textContent || '').replace(/\s+/g, ' ').trim();
+          return {
+            selector: selectorFor(el),
+            element: describe(el),
+            text: text.length > 40 ? text.slice(0, 37) + '...' : text,
+            foreground: format(foreground),
+            background: format(background),
+            backgroundFrom,
+            ratio: Math.round(ratio * 100) / 100,
+            fontSize: parseFloat(styles.fontSize) || 16,
+            fontWeight: parseInt(styles.fontWeight, 10) || 400,
+            approximate,
+          };
+        };
+
+        if (!scan) {
+          return [measure(root)];
+        }
+
+        // One sample per element that directly contains visible text
+        const owners = new Set<Element>();
+        const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+        for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+          const parent = node.parentElement;
+          if (!parent || owners.has(parent) || !(node.textContent || '').trim()) continue;
+          if (['script', 'style', 'noscript', 'template'].includes(parent.tagName.toLowerCase())) continue;
+          if (!isVisible(parent)) continue;
+          owners.add(parent);
+        }
+        return Array.from(owners).map(measure);
+      }, Boolean(args.scan));
+
+      const { getColorSchemeOverride } = await import('../../../toolHandler.js');
+      const scheme = getColorSchemeOverride();
+      const schemeInfo = scheme ? ` (color scheme: ${scheme})` : '';
+      const toStructured = (sample: ContrastSample) => ({
+        ...sample,
+        largeText: isLargeText(sample.fontSize, sample.fontWeight),
+        required: requiredRatio(level, sample.fontSize, sample.fontWeight),
+        passesAA: sample.ratio >= requiredRatio('AA', sample.fontSize, sample.fontWeight),
+        passesAAA: sample.ratio >= requiredRatio('AAA', sample.fontSize, sample.fontWeight),
+      });
+
+      const lines: string[] = [];
+      const selectionInfo = this.formatElementSelectionInfo(args.selector || 'body', elementIndex, totalCount);
+      if (selectionInfo && args.selector) {
+        lines.push(selectionInfo, '');
+      }
+
+      if (!args.scan) {
+        const s = samples[0];
+        const large = isLargeText(s.fontSize, s.fontWeight);
+        const verdict = (needed: number) => `${s.ratio >= needed ? '✓' : '✗'} (needs ${needed}:1)`;
+
+        lines.push(`Contrast${schemeInfo}: ${s.element}${s.text ? ` "${s.text}"` : ''}`);
+        lines.push(`  text: ${s.foreground} on ${s.background} (background from ${s.backgroundFrom})`);
+        lines.push(`  ratio: ${s.ratio}:1 — ${large ? 'large' : 'normal'} text (${Math.round(s.fontSize * 10) / 10}px, weight ${s.fontWeight})`);
+        lines.push(`  normal text: AA ${verdict(CONTRAST_THRESHOLDS.AA.normal)}, AAA ${verdict(CONTRAST_THRESHOLDS.AAA.normal)}`);
+        lines.push(`  large text:  AA ${verdict(CONTRAST_THRESHOLDS.AA.large)}, AAA ${verdict(CONTRAST_THRESHOLDS.AAA.large)}`);
+        if (s.approximate) {
+          lines.push(`  ⚠ approximate: ${s.approximate}`);
+        }
+        const sample = toStructured(s);
+        return createSuccessResponse(lines.join('\n'), {
+          mode: 'element', level, colorScheme: scheme ?? null, checked: 1, failing: sample.ratio < sample.required ? 1 : 0, samples: [sample],
+        });
+      }
+
+      const maxResults = args.maxResults ?? 30;
+      const failures = samples
+        .map(s => ({ ...s, needed: requiredRatio(level, s.fontSize, s.fontWeight) }))
+        .filter(s => s.ratio < s.needed)
+        .sort((a, b) => a.ratio - b.ratio);
+
+      const scope = args.selector ? args.selector : 'page';
+      lines.push(`Contrast scan of ${scope}${schemeInfo}: ${samples.length} text elements checked, ${failures.length} fail ${level}`);
+      const structured = {
+        mode: 'scan', level, colorScheme: scheme ?? null, checked: samples.length, failing: failures.length,
+        samples: failures.slice(0, maxResults).map(({ needed, ...sample }) => toStructured(sample)),
+      };
+      if (failures.length === 0) {
+        return createSuccessResponse(lines.join('\n'), structured);
+      }
+
+      lines.push('');
+      for (const f of failures.slice(0, maxResults)) {
+        const approx = f.approximate ? ` (approximate: ${f.approximate})` : '';
+        lines.push(`✗ ${f.ratio}:1 (needs ${f.needed}) ${f.selector}${f.text ? ` "${f.text}"` : ''} — ${f.foreground} on ${f.background}${approx}`);
+      }
+      if (failures.length > maxResults) {
+        lines.push(`... ${failures.length - maxResults} more (raise maxResults or narrow with selector)`);
+      }
+
+      return createSuccessResponse(lines.join('\n'), structured);
+    });
+  }
+}
@@ -48,6 +48,27 @@ export class CheckVisibilityTool extends BrowserToolBase {
         },
         required: ["selector"],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          element: { type: "string", description: "Descriptor of the checked element, e.g. <button data-testid=\"submit\">" },
+          matchCount: { type: "number" },
+          elementIndex: { type: "number", description: "1-based index of the checked element among matches" },
+          visible: { type: "boolean" },
+          inViewport: { type: "boolean" },
+          viewportRatio: { type: "number", description: "Fraction of the element inside the viewport (0-1)" },
+          opacity: { type: "number" },
+          display: { type: "string" },
+          visibility: { type: "string" },
+          clipped: { type: "boolean" },
+          covered: { type: "boolean" },
+          coveragePercent: { type: "number" },
+          coveringElement: { type: ["string", "null"] },
+          needsScroll: { type: "boolean" },
+          interactabilityIssues: { type: "array", items: { type: "string" } },
+        },
+        required: ["element", "visible", "inViewport", "clipped", "covered", "needsScroll", "interactabilityIssues"],
+      },
     };
   }
 
@@ -299,7 +320,23 @@ export class CheckVisibilityTool extends BrowserToolBase {
           output += `\n   inspect_ancestors({ selector: "${args.selector}" })`;
         }
 
-        return createSuccessResponse(output.trim());
+        return createSuccessResponse(output.trim(), {
+          element: tagInfo,
+          matchCount: totalCount,
+          elementIndex: elementIndex + 1,
+          visible: isVisible,
+          inViewport: visibilityData.isInViewport,
+          viewportRatio: visibilityData.viewportRatio,
+          opacity: visibilityData.opacity,
+          display: visibilityData.display,
+          visibility: visibilityData.visibility,
+          clipped: visibilityData.isClipped,
+          covered: visibilityData.isCovered,
+          coveragePercent: visibilityData.coveragePercent,
+          coveringElement: visibilityData.coveringElementInfo || null,
+          needsScroll,
+          interactabilityIssues,
+        });
       } catch (error) {
         return createErrorResponse(`Failed to check visibility: ${(error as Error).message}`);
       }
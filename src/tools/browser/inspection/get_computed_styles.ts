@@ -48,6 +48,16 @@ export class GetComputedStylesTool extends BrowserToolBase implements ToolHandle
         },
         required: ["selector"],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          element: { type: "string" },
+          matchCount: { type: "number" },
+          elementIndex: { type: "number", description: "1-based index of the inspected element among matches" },
+          styles: { type: "object", additionalProperties: { type: "string" }, description: "Computed value per requested property" },
+        },
+        required: ["element", "styles"],
+      },
     };
   }
 
@@ -169,6 +179,12 @@ export class GetComputedStylesTool extends BrowserToolBase implements ToolHandle
             text: sections.join('\n\n')
           }
         ],
+        structuredContent: {
+          element: elementInfo.display,
+          matchCount: totalCount,
+          elementIndex: elementIndex + 1,
+          styles,
+        },
         isError: false
       };
     });
@@ -61,6 +61,38 @@ export class GetTestIdsTool extends BrowserToolBase {
         },
         required: [],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          total: { type: "number", description: "Elements carrying one of the searched attributes" },
+          attributes: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string", description: "Attribute, e.g. data-testid" },
+                count: { type: "number" },
+                values: { type: "array", items: { type: "string" }, description: "Shown values, in document order" },
+                omitted: { type: "number", description: "Values left out (use showAll: true)" },
+              },
+              required: ["name", "count", "values", "omitted"],
+            },
+          },
+          duplicates: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                attribute: { type: "string" },
+                value: { type: "string" },
+                count: { type: "number" },
+              },
+              required: ["attribute", "value", "count"],
+            },
+          },
+        },
+        required: ["total", "attributes", "duplicates"],
+      },
     };
   }
 
@@ -69,9 +101,10 @@ export class GetTestIdsTool extends BrowserToolBase {
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
+      const { getTestIdAttributes } = await import('../../../toolHandler.js');
       const attributes = args.attributes
         ? args.attributes.split(',').map((a: string) => a.trim())
-        : ['data-testid', 'data-test', 'data-cy'];
+        : getTestIdAttributes();
       const showAll = args.showAll === true;
 
       try {
@@ -215,7 +248,20 @@ export class GetTestIdsTool extends BrowserToolBase {
           }
         }
 
-        return createSuccessResponse(lines.join('\n'));
+        // Same truncation as the text: all values up to 10, else the first 8
+        const shownValues = (values: string[]) => (showAll || values.length <= 10 ? values : values.slice(0, 8));
+        return createSuccessResponse(lines.join('\n'), {
+          total: discoveryData.totalCount,
+          attributes: Object.entries(discoveryData.byAttribute).map(([name, values]) => ({
+            name,
+            count: values.length,
+            values: shownValues(values),
+            omitted: values.length - shownValues(values).length,
+          })),
+          duplicates: Object.entries(discoveryData.duplicates).flatMap(([attribute, dups]) =>
+            Object.entries(dups).map(([value, count]) => ({ attribute, value, count }))
+          ),
+        });
       } catch (error) {
         return createErrorResponse(`Failed to discover test IDs: ${(error as Error).message}`);
       }
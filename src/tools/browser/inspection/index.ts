@@ -8,3 +8,6 @@ export { InspectAncestorsTool } from './inspect_ancestors.js';
 export { ElementExistsTool } from './element_exists.js';
 export { MeasureElementTool } from './measure_element.js';
 export { GetComputedStylesTool } from './get_computed_styles.js';
+export { AuditAccessibilityTool } from './audit_accessibility.js';
+export { CheckContrastTool } from './check_contrast.js';
+export { InspectAccessibilityTreeTool } from './inspect_accessibility_tree.js';
@@ -0,0 +1,346 @@
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse } from '../../common/types.js';
+
+/**
+ * Node of a parsed Playwright aria snapshot
+ */
+export interface AriaNode {
+  role: string;
+  name?: string;
+  // States such as "checked", "disabled", "level=2"
+  attributes: string[];
+  // Inline text child ("- paragraph: Hello")
+  text?: string;
+  // Extra properties such as url ("- /url: /home")
+  props: Record<string, string>;
+  children: AriaNode[];
+}
+
+const INTERACTIVE_ROLES = new Set([
+  'button', 'link', 'textbox', 'searchbox', 'checkbox', 'radio', 'combobox', 'listbox', 'option',
+  'menuitem', 'menuitemcheckbox', 'menuitemradio', 'tab', 'switch', 'slider', 'spinbutton', 'treeitem',
+]);
+
+const LANDMARK_ROLES = new Set([
+  'banner', 'navigation', 'main', 'contentinfo', 'complementary', 'search', 'form', 'region',
+]);
+
+const STRUCTURAL_ROLES = new Set([
+  'heading', 'dialog', 'alertdialog', 'alert', 'status', 'tablist', 'tabpanel', 'menu', 'menubar',
+  'tree', 'grid', 'table', 'img', 'progressbar', 'meter',
+]);
+
+/**
+ * Interesting nodes: interactive controls, landmarks, headings and other
+ * structure an agent would navigate by. Everything else is flattened away.
+ */
+export function isInterestingNode(node: AriaNode): boolean {
+  if (node.role === 'text') return false;
+  if (INTERACTIVE_ROLES.has(node.role) || LANDMARK_ROLES.has(node.role) || STRUCTURAL_ROLES.has(node.role)) return true;
+  // Named groups/lists carry meaning ("group "Shipping address"")
+  return Boolean(node.name);
+}
+
+// Values are double-quoted YAML (JSON plus \xHH escapes) when they need quoting
+function unquoteValue(value: string): string {
+  if (value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value.replace(/\\x([0-9a-fA-F]{2})/g, '\\u00$1'));
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  return value;
+}
+
+// Splits "role "name" [attr]: value" into key and value, honouring the
+// single-quoted keys Playwright emits when a key needs YAML escaping
+function splitEntry(content: string): { key: string; value?: string; hasChildren: boolean } {
+  let key: string;
+  let rest: string;
+
+  if (content.startsWith("'")) {
+    let i = 1;
+    let out = '';
+    while (i < content.length) {
+      if (content[i] === "'" && content[i + 1] === "'") {
+        out += "'";
+        i += 2;
+      } else if (content[i] === "'") {
+        break;
+      } else {
+        out += content[i++];
+      }
+    }
+    key = out;
+    rest = content.slice(i + 1);
+  } else {
+    const sep = content.search(/:(\s|$)/);
+    key = sep === -1 ? content : content.slice(0, sep);
+    rest = sep === -1 ? '' : content.slice(sep);
+  }
+
+  if (!rest.startsWith(':')) {
+    return { key, hasChildren: false };
+  }
+  const value = rest.slice(1).trim();
+  return value ? { key, value: unquoteValue(value), hasChildren: false } : { key, hasChildren: true };
+}
+
+function parseKey(key: string): Pick<AriaNode, 'role' | 'name' | 'attributes'> {
+  const roleMatch = key.match(/^(\S+)\s*/);
+  const role = roleMatch ? roleMatch[1] : key;
+  let rest = key.slice(roleMatch ? roleMatch[0].length : key.length);
+  let name: string | undefined;
+
+  if (rest.startsWith('"')) {
+    // JSON string: find the closing quote, skipping escapes
+    let i = 1;
+    while (i < rest.length && rest[i] !== '"') {
+      i += rest[i] === '\\' ? 2 : 1;
+    }
+    try {
+      name = JSON.parse(rest.slice(0, i + 1));
+    } catch {
+      name = rest.slice(1, i);
+    }
+    rest = rest.slice(i + 1);
+  } else if (rest.startsWith('/')) {
+    const end = rest.indexOf('/', 1);
+    name = rest.slice(0, end + 1);
+    rest = rest.slice(end + 1);
+  }
+
+  const attributes = Array.from(rest.matchAll(/\[([^\]]+)\]/g)).map(m => m[1]);
+  return { role, name, attributes };
+}
+
+/**
+ * Parses the YAML produced by Playwright's locator.ariaSnapshot() into a tree
+ */
+export function parseAriaSnapshot(snapshot: string): AriaNode[] {
+  const roots: AriaNode[] = [];
+  // Stack of [indent, node] for the current ancestry
+  const stack: { indent: number; node: AriaNode }[] = [];
+
+  for (const line of snapshot.split('\n')) {
+    const match = line.match(/^(\s*)- (.*)$/);
+    if (!match) continue;
+    const indent = match[1].length;
+    const { key, value } = splitEntry(match[2]);
+
+    while (stack.length && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1]?.node;
+
+    // Property of the parent ("- /url: https://...")
+    if (key.startsWith('/')) {
+      if (parent && value !== undefined) parent.props[key.slice(1)] = value;
+      continue;
+    }
+
+    const node: AriaNode = key === 'text'
+      ? { role: 'text', attributes: [], text: value ?? '', props: {}, children: [] }
+      : { ...parseKey(key), text: value, props: {}, children: [] };
+
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+    stack.push({ indent, node });
+  }
+
+  return roots;
+}
+
+/**
+ * Playwright role selector for a node, e.g. role=button[name="Save"]
+ */
+export function suggestRoleSelector(node: AriaNode): string | null {
+  if (node.role === 'text') return null;
+  if (!node.name) return `role=${node.role}`;
+  if (node.name.startsWith('/') && node.name.endsWith('/')) {
+    return `role=${node.role}[name=${node.name}]`;
+  }
+  return `role=${node.role}[name=${JSON.stringify(node.name)}]`;
+}
+
+export interface RenderTreeOptions {
+  maxDepth?: number;
+  interestingOnly?: boolean;
+  maxNodes?: number;
+}
+
+/**
+ * Renders the tree as compact indented lines: role "name" [states] (props) → selector
+ */
+export function renderAccessibilityTree(roots: AriaNode[], options: RenderTreeOptions = {}): { lines: string[]; shown: number; total: number; truncated: boolean } {
+  const maxDepth = options.maxDepth ?? Infinity;
+  const maxNodes = options.maxNodes ?? 200;
+
+  // Role/name pairs seen more than once get a match count instead of a unique selector
+  const counts = new Map<string, number>();
+  let total = 0;
+  const countNodes = (nodes: AriaNode[]) => {
+    for (const node of nodes) {
+      total++;
+      const selector = suggestRoleSelector(node);
+      if (selector) counts.set(selector, (counts.get(selector) || 0) + 1);
+      countNodes(node.children);
+    }
+  };
+  countNodes(roots);
+
+  const lines: string[] = [];
+  let shown = 0;
+  let truncated = false;
+
+  const format = (node: AriaNode): string => {
+    if (node.role === 'text') {
+      const text = node.text || '';
+      return `text: ${text.length > 80 ? text.slice(0, 77) + '...' : text}`;
+    }
+    let out = node.role;
+    if (node.name) out += ` ${node.name.startsWith('/') ? node.name : JSON.stringify(node.name)}`;
+    if (node.attributes.length) out += ` [${node.attributes.join(', ')}]`;
+    if (node.text) out += `: ${node.text.length > 60 ? node.text.slice(0, 57) + '...' : node.text}`;
+    const props = Object.entries(node.props).map(([k, v]) => `${k}: ${v}`);
+    if (props.length) out += ` (${props.join(', ')})`;
+
+    // Unnamed nodes only get a selector when their role is unique (e.g. role=main)
+    const selector = suggestRoleSelector(node);
+    const count = selector ? counts.get(selector) || 0 : 0;
+    if (selector && (node.name || (count === 1 && isInterestingNode(node)))) {
+      out += `  → ${selector}${count > 1 ? ` (${count} matches)` : ''}`;
+    }
+    return out;
+  };
+
+  const visit = (nodes: AriaNode[], depth: number) => {
+    for (const node of nodes) {
+      if (shown >= maxNodes) {
+        truncated = true;
+        return;
+      }
+      const keep = !options.interestingOnly || isInterestingNode(node);
+      if (!keep) {
+        // Flatten: promote interesting descendants to this level
+        visit(node.children, depth);
+        continue;
+      }
+
+      lines.push(`${'  '.repeat(depth)}${format(node)}`);
+      shown++;
+      if (node.children.length === 0) continue;
+      if (depth + 1 >= maxDepth) {
+        const hidden = countDescendants(node);
+        lines.push(`${'  '.repeat(depth + 1)}… ${hidden} nested node${hidden === 1 ? '' : 's'} (raise maxDepth or inspect this node)`);
+        continue;
+      }
+      visit(node.children, depth + 1);
+    }
+  };
+  visit(roots, 0);
+
+  return { lines, shown, total, truncated };
+}
+
+function countDescendants(node: AriaNode): number {
+  return node.children.reduce((sum, child) => sum + 1 + countDescendants(child), 0);
+}
+
+/**
+ * Tool for printing the accessibility tree (roles, names, states) of the page or a subtree
+ */
+export class InspectAccessibilityTreeTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "inspect_accessibility_tree",
+      description: "Show the accessibility tree (what screen readers and role-based locators see) as a compact indented role/name/state tree, built from Playwright's aria snapshot. Wrapper divs disappear, so page structure is easier to reason about than the DOM. Each named node carries a role selector (e.g. role=button[name=\"Save\"]) that interaction tools accept directly. Scope with selector; reduce noise with interestingOnly (controls, landmarks, headings) and maxDepth.",
+      outputs: [
+        "Header: scope and node counts.",
+        "One line per node, indented by depth: role \"name\" [states]: text (props) → role selector",
+        "Depth/size truncation notes when limits apply.",
+      ],
+      examples: [
+        "inspect_accessibility_tree({})",
+        "inspect_accessibility_tree({ selector: 'testid:checkout-form', interestingOnly: true })",
+        "inspect_accessibility_tree({ maxDepth: 2 })",
+      ],
+      exampleOutputs: [
+        {
+          call: "inspect_accessibility_tree({ interestingOnly: true })",
+          output: `Accessibility tree of page (interesting only, 7 of 23 nodes):\nbanner\n  link "Home" (url: /)  → role=link[name="Home"]\n  navigation "Main"  → role=navigation[name="Main"]\n    link "Pricing" (url: /pricing)  → role=link[name="Pricing"]\nmain  → role=main\n  heading "Sign in" [level=1]  → role=heading[name="Sign in"]\n  textbox "Email"  → role=textbox[name="Email"]\n  button "Continue" [disabled]  → role=button[name="Continue"]`
+        }
+      ],
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: {
+            type: "string",
+            description: "CSS selector, role selector, or testid shorthand of the subtree to show. Omit for the whole page."
+          },
+          interestingOnly: {
+            type: "boolean",
+            description: "Only show interactive controls, landmarks, headings and named nodes; text and unnamed containers are flattened (default: false)"
+          },
+          maxDepth: {
+            type: "number",
+            description: "Maximum tree depth to print; deeper nodes are summarized (default: unlimited)"
+          },
+          maxNodes: {
+            type: "number",
+            description: "Maximum number of nodes to print (default: 200)"
+          },
+          elementIndex: {
+            type: "number",
+            description: "When selector matches multiple elements, use this 1-based index to select a specific one (e.g., 2 = second element). Default: first visible element."
+          }
+        },
+        required: [],
+      },
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const selector = args.selector ? this.normalizeSelector(args.selector) : 'body';
+      const locator = page.locator(selector);
+      const { element, elementIndex, totalCount } = await this.selectPreferredLocator(locator, {
+        originalSelector: args.selector || 'body',
+        elementIndex: args.elementIndex,
+      });
+
+      const snapshot: string = await element.ariaSnapshot();
+      const roots = parseAriaSnapshot(snapshot);
+      const { lines: treeLines, shown, total, truncated } = renderAccessibilityTree(roots, {
+        maxDepth: args.maxDepth,
+        interestingOnly: Boolean(args.interestingOnly),
+        maxNodes: args.maxNodes,
+      });
+
+      const lines: string[] = [];
+      const selectionInfo = this.formatElementSelectionInfo(args.selector || 'body', elementIndex, totalCount);
+      if (selectionInfo && args.selector) {
+        lines.push(selectionInfo, '');
+      }
+
+      const scope = args.selector || 'page';
+      if (total === 0) {
+        lines.push(`Accessibility tree of ${scope}: empty (element is hidden from assistive technology or has no accessible content)`);
+        return createSuccessResponse(lines.join('\n'));
+      }
+
+      const filterInfo = args.interestingOnly ? 'interesting only, ' : '';
+      lines.push(`Accessibility tree of ${scope} (${filterInfo}${shown} of ${total} nodes):`);
+      lines.push(...treeLines);
+      if (truncated) {
+        lines.push(`… output limited to ${shown} nodes (raise maxNodes, use interestingOnly, or scope with selector)`);
+      }
+
+      return createSuccessResponse(lines.join('\n'));
+    });
+  }
+}
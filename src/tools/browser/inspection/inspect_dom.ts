@@ -22,6 +22,18 @@ interface SemanticChildElement {
   };
 }
 
+// Viewport-relative box in px (getBoundingClientRect, rounded)
+const RECT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    x: { type: "number" },
+    y: { type: "number" },
+    width: { type: "number" },
+    height: { type: "number" },
+  },
+  required: ["x", "y", "width", "height"],
+};
+
 /**
  * Tool for progressive DOM inspection with semantic filtering and spatial layout
  * This is the PRIMARY tool for understanding page structure
@@ -113,6 +125,62 @@ RELATED TOOLS: For comparing TWO elements' alignment (not parent-child), use com
         },
         required: [],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          target: {
+            type: "object",
+            properties: {
+              tag: { type: "string" },
+              selector: { type: "string" },
+              position: RECT_SCHEMA,
+              isVisible: { type: "boolean" },
+            },
+            required: ["tag", "selector", "position", "isVisible"],
+          },
+          matchCount: { type: "number" },
+          elementIndex: { type: "number", description: "1-based index of the inspected element among matches" },
+          children: {
+            type: "array",
+            description: "Semantic children in document order (same order as the [n] indices in the text)",
+            items: {
+              type: "object",
+              properties: {
+                tag: { type: "string" },
+                selector: { type: "string" },
+                testId: { type: "string" },
+                role: { type: "string" },
+                text: { type: "string" },
+                position: RECT_SCHEMA,
+                fromEdges: {
+                  type: "object",
+                  description: "Distance in px from the target's edges",
+                  properties: { left: { type: "number" }, right: { type: "number" }, top: { type: "number" }, bottom: { type: "number" } },
+                  required: ["left", "right", "top", "bottom"],
+                },
+                isVisible: { type: "boolean" },
+                isInteractive: { type: "boolean" },
+                childCount: { type: "number" },
+                scrollable: {
+                  type: "object",
+                  properties: {
+                    vertical: { type: "boolean" },
+                    horizontal: { type: "boolean" },
+                    overflowY: { type: "number" },
+                    overflowX: { type: "number" },
+                  },
+                },
+              },
+              required: ["tag", "selector", "text", "position", "fromEdges", "isVisible", "isInteractive", "childCount"],
+            },
+          },
+          semanticCount: { type: "number" },
+          omittedCount: { type: "number" },
+          skippedWrappers: { type: "number" },
+          layoutPattern: { type: "string", enum: ["vertical", "horizontal", "grid", "unknown"] },
+        },
+        required: ["target", "children", "semanticCount", "omittedCount", "skippedWrappers", "layoutPattern"],
+      },
     };
   }
 
@@ -842,7 +910,24 @@ RELATED TOOLS: For comparing TWO elements' alignment (not parent-child), use com
           }
         }
 
-        return createSuccessResponse(lines.join('\n'));
+        return createSuccessResponse(lines.join('\n'), {
+          target,
+          matchCount: totalCount,
+          elementIndex: elementIndex + 1,
+          children: children.map((child: SemanticChildElement) => ({
+            ...child,
+            fromEdges: {
+              left: child.position.x - target.position.x,
+              right: (target.position.x + target.position.width) - (child.position.x + child.position.width),
+              top: child.position.y - target.position.y,
+              bottom: (target.position.y + target.position.height) - (child.position.y + child.position.height),
+            },
+          })),
+          semanticCount: stats.semanticCount,
+          omittedCount: stats.omittedCount,
+          skippedWrappers: stats.skippedWrappers,
+          layoutPattern,
+        });
       } catch (error) {
         const msg = (error as Error).message || '';
         // Map common not-found message to a user-friendly line
@@ -7,6 +7,18 @@ export interface MeasureElementArgs {
   elementIndex?: number;  // Optional 1-based index to select specific element when multiple match
 }
 
+// top/right/bottom/left sizes in px (padding, border, margin)
+const EDGES_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    top: { type: "number" },
+    right: { type: "number" },
+    bottom: { type: "number" },
+    left: { type: "number" },
+  },
+  required: ["top", "right", "bottom", "left"],
+};
+
 export class MeasureElementTool extends BrowserToolBase implements ToolHandler {
   static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
     return {
@@ -44,6 +56,25 @@ export class MeasureElementTool extends BrowserToolBase implements ToolHandler {
         },
         required: ["selector"],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          element: { type: "string" },
+          matchCount: { type: "number" },
+          elementIndex: { type: "number", description: "1-based index of the measured element among matches" },
+          x: { type: "number" },
+          y: { type: "number" },
+          width: { type: "number", description: "Border-box width in px" },
+          height: { type: "number", description: "Border-box height in px" },
+          content: { type: "object", properties: { width: { type: "number" }, height: { type: "number" } }, required: ["width", "height"] },
+          padding: EDGES_SCHEMA,
+          border: { ...EDGES_SCHEMA, properties: { ...EDGES_SCHEMA.properties, style: { type: "string" }, color: { type: "string" } } },
+          margin: EDGES_SCHEMA,
+          totalWidth: { type: "number", description: "Width including margin" },
+          totalHeight: { type: "number", description: "Height including margin" },
+        },
+        required: ["element", "x", "y", "width", "height", "content", "padding", "border", "margin"],
+      },
     };
   }
 
@@ -186,6 +217,28 @@ export class MeasureElementTool extends BrowserToolBase implements ToolHandler {
             text: sections.join('\n')
           }
         ],
+        structuredContent: {
+          element: elementInfo.descriptor,
+          matchCount: totalCount,
+          elementIndex: elementIndex + 1,
+          x: measurements.x,
+          y: measurements.y,
+          width: boxWidth,
+          height: boxHeight,
+          content: { width: contentWidth, height: contentHeight },
+          padding: { top: measurements.paddingTop, right: measurements.paddingRight, bottom: measurements.paddingBottom, left: measurements.paddingLeft },
+          border: {
+            top: measurements.borderTopWidth,
+            right: measurements.borderRightWidth,
+            bottom: measurements.borderBottomWidth,
+            left: measurements.borderLeftWidth,
+            style: measurements.borderStyle,
+            color: measurements.borderColor,
+          },
+          margin: { top: measurements.marginTop, right: measurements.marginRight, bottom: measurements.marginBottom, left: measurements.marginLeft },
+          totalWidth,
+          totalHeight,
+        },
         isError: false
       };
     });
@@ -70,6 +70,37 @@ export class QuerySelectorTool extends BrowserToolBase {
         },
         required: ["selector"],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          total: { type: "number", description: "Elements matching the selector" },
+          matched: { type: "number", description: "Matches left after the onlyVisible filter" },
+          elements: {
+            type: "array",
+            description: "Shown matches (up to limit)",
+            items: {
+              type: "object",
+              properties: {
+                index: { type: "number" },
+                tag: { type: "string" },
+                selector: { type: "string", description: "testid, #id or class shorthand; empty when the element has none" },
+                text: { type: "string", description: "Trimmed text content, first 100 chars" },
+                x: { type: "number" },
+                y: { type: "number" },
+                width: { type: "number" },
+                height: { type: "number" },
+                visible: { type: "boolean" },
+                interactive: { type: "boolean" },
+                display: { type: "string" },
+                opacity: { type: "number" },
+                attributes: { type: "object", additionalProperties: { type: "string" }, description: "Requested attributes that are present (showAttributes)" },
+              },
+              required: ["index", "tag", "selector", "text", "x", "y", "width", "height", "visible", "interactive"],
+            },
+          },
+        },
+        required: ["total", "matched", "elements"],
+      },
     };
   }
 
@@ -92,7 +123,8 @@ export class QuerySelectorTool extends BrowserToolBase {
 
         if (totalMatches === 0) {
           return createSuccessResponse(
-            `No elements found matching "${args.selector}"\n\nTip: Try using inspect_dom to explore the page structure.`
+            `No elements found matching "${args.selector}"\n\nTip: Try using inspect_dom to explore the page structure.`,
+            { total: 0, matched: 0, elements: [] }
           );
         }
 
@@ -296,7 +328,22 @@ export class QuerySelectorTool extends BrowserToolBase {
           }
         }
 
-        return createSuccessResponse(lines.join('\n'));
+        return createSuccessResponse(lines.join('\n'), {
+          total: totalMatches,
+          matched: filteredMatches.length,
+          elements: displayMatches.map((match, index) => ({
+            index,
+            tag: match.tag,
+            selector: match.selector,
+            text: match.text,
+            ...match.position,
+            visible: match.isVisible,
+            interactive: match.isInteractive,
+            display: match.display,
+            opacity: match.opacity,
+            ...(match.attributes ? { attributes: match.attributes } : {}),
+          })),
+        });
       } catch (error) {
         const msg = (error as Error).message || '';
         const concise = this.sanitizeSelectorEngineMessage(msg) || msg;
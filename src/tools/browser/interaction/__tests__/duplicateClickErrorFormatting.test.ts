@@ -103,7 +103,8 @@ describe('ClickTool duplicate selection error formatting (integration)', () => {
     expect(text).toContain('Matches:');
     expect(text).toContain('selector: testid:modal-cancel');
     expect(text).toContain('selector: id=toolbar-cancel');
-    expect(text).toContain('selector: text=Cancel >> nth=2');
+    expect(text).toContain('selector: role:button[name="Cancel third"]');
+    expect(text).toContain('alt: text=Cancel >> nth=2');
 
     // Ensure old verbose hints are not duplicated here
     expect(text).not.toContain('Primary fix: add a unique data-testid');
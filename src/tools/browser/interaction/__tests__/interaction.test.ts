@@ -183,6 +183,30 @@ describe('Browser Interaction Tools', () => {
       expect(result.content[0].text).toContain('Filled');
       selectSpy.mockRestore();
     });
+
+    test('should resolve secret references without echoing the value', async () => {
+      process.env.MCP_WEB_INSPECTOR_SECRET_TEST_PASSWORD = 'hunter2-staging';
+      const mockElement = {
+        fill: jest.fn(async () => {}),
+      };
+      const selectSpy = jest
+        .spyOn(fillTool as any, 'selectPreferredLocator')
+        .mockResolvedValue({ element: mockElement, elementIndex: 0, totalCount: 1 });
+      mockPageLocator.mockImplementation(() => ({}));
+
+      try {
+        const result = await fillTool.execute({ selector: '#password', value: 'secret:TEST_PASSWORD' }, mockContext);
+        expect(mockElement.fill).toHaveBeenCalledWith('hunter2-staging');
+        expect(result.content[0].text).toBe('Filled #password with: secret TEST_PASSWORD (value hidden)');
+
+        const missing = await fillTool.execute({ selector: '#password', value: 'secret:NOPE' }, mockContext);
+        expect(missing.isError).toBe(true);
+        expect(missing.content[0].text).toContain('Secret "NOPE" is not defined');
+      } finally {
+        delete process.env.MCP_WEB_INSPECTOR_SECRET_TEST_PASSWORD;
+        selectSpy.mockRestore();
+      }
+    });
   });
 
   describe('SelectTool', () => {
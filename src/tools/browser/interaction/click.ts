@@ -1,6 +1,6 @@
 import { BrowserToolBase } from '../base.js';
 import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse, createErrorResponse } from '../../common/types.js';
-import { gatherConsoleErrorsSince, quickNetworkIdleNote, titleUrlChangeLines } from '../common/postAction.js';
+import { gatherConsoleErrorsSince, quickNetworkIdleNote, titleUrlChangeLines, currentTabIds, newTabLines, failedRequestLines } from '../common/postAction.js';
 
 /**
  * Tool for clicking elements on the page
@@ -9,11 +9,11 @@ export class ClickTool extends BrowserToolBase {
   static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
     return {
       name: "click",
-      description: "Click an element on the page",
+      description: "Click an element on the page. Reports console errors, requests that failed (DNS errors, refused connections, CORS blocks), URL/title changes and tabs opened by the click.",
       inputSchema: {
         type: "object",
         properties: {
-          selector: { type: "string", description: "CSS selector for the element to click" },
+          selector: { type: "string", description: "CSS selector, testid shorthand, or user-facing shorthand for the element to click (e.g., 'testid:submit', 'role:button[name=\"Save\"]', 'title:Close')" },
         },
         required: ["selector"],
       },
@@ -37,7 +37,10 @@ export class ClickTool extends BrowserToolBase {
       let initialTitle = '';
       try { initialUrl = page.url(); } catch {}
       try { initialTitle = await page.title(); } catch {}
+      let initialTabIds: number[] = [];
+      try { initialTabIds = await currentTabIds(); } catch {}
 
+      const startedAt = Date.now();
       await element.click();
 
       const lines: string[] = [`Clicked element: ${args.selector}`];
@@ -48,6 +51,12 @@ export class ClickTool extends BrowserToolBase {
         if (note) lines.push(note);
       } catch {}
 
+      // Requests started by the click that never got a response
+      let failedLines: string[] = [];
+      try {
+        failedLines = await failedRequestLines(startedAt);
+      } catch {}
+
       // Then, surface console errors triggered by the interaction
       try {
         const errs = await gatherConsoleErrorsSince('interaction');
@@ -57,11 +66,13 @@ export class ClickTool extends BrowserToolBase {
             const t = await page.title();
             if (t) titleInfo = `\nTitle: ${t}`;
           } catch {}
-          return createErrorResponse(`Console error after click: ${errs[0]}${titleInfo}`);
+          const failedInfo = failedLines.length ? `\n${failedLines.join('\n')}` : '';
+          return createErrorResponse(`Console error after click: ${errs[0]}${titleInfo}${failedInfo}`);
         }
       } catch {
         // ignore log retrieval errors
       }
+      lines.push(...failedLines);
 
       // Title / URL changes
       try {
@@ -69,6 +80,11 @@ export class ClickTool extends BrowserToolBase {
         if (changeLines.length > 0) lines.push(...changeLines);
       } catch {}
 
+      // Tabs opened by the click (e.g., target=_blank or popups)
+      try {
+        lines.push(...await newTabLines(initialTabIds));
+      } catch {}
+
       return createSuccessResponse(lines);
     });
   }
@@ -1,5 +1,6 @@
 import { BrowserToolBase } from '../base.js';
-import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse } from '../../common/types.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse, createErrorResponse } from '../../common/types.js';
+import { isSecretRef, resolveSecretRef } from '../../../secrets.js';
 
 /**
  * Tool for filling form fields
@@ -8,12 +9,12 @@ export class FillTool extends BrowserToolBase {
   static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
     return {
       name: "fill",
-      description: "fill out an input field",
+      description: "fill out an input field. For passwords and tokens pass value: \"secret:NAME\" — the server resolves it from its secrets file or environment, so the real value never appears in the conversation and is masked in all tool output.",
       inputSchema: {
         type: "object",
         properties: {
-          selector: { type: "string", description: "CSS selector for input field" },
-          value: { type: "string", description: "Value to fill" },
+          selector: { type: "string", description: "CSS selector, testid shorthand, or user-facing shorthand for the input field (e.g., 'label:Email', 'placeholder:Search', 'role:textbox[name=\"Email\"]')" },
+          value: { type: "string", description: "Value to fill, or a secret reference like \"secret:STAGING_PASSWORD\"" },
         },
         required: ["selector", "value"],
       },
@@ -21,6 +22,19 @@ export class FillTool extends BrowserToolBase {
   }
 
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    // Resolve secret references up front; the response only names the secret
+    let value = args.value;
+    let shownValue = args.value;
+    if (isSecretRef(args.value)) {
+      try {
+        const secret = resolveSecretRef(args.value);
+        value = secret.value;
+        shownValue = `secret ${secret.name} (value hidden)`;
+      } catch (error) {
+        return createErrorResponse((error as Error).message);
+      }
+    }
+
     this.recordInteraction();
     return this.safeExecute(context, async (page) => {
       const normalizedSelector = this.normalizeSelector(args.selector);
@@ -32,8 +46,8 @@ export class FillTool extends BrowserToolBase {
         originalSelector: args.selector,
       });
 
-      await element.fill(args.value);
-      return createSuccessResponse(`Filled ${args.selector} with: ${args.value}`);
+      await element.fill(value);
+      return createSuccessResponse(`Filled ${args.selector} with: ${shownValue}`);
     });
   }
 }
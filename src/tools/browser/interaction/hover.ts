@@ -12,7 +12,7 @@ export class HoverTool extends BrowserToolBase {
       inputSchema: {
         type: "object",
         properties: {
-          selector: { type: "string", description: "CSS selector for element to hover" },
+          selector: { type: "string", description: "CSS selector, testid shorthand, or user-facing shorthand for the element to hover (e.g., 'role:link[name=\"Pricing\"]', 'alt:Avatar')" },
         },
         required: ["selector"],
       },
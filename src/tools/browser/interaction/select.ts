@@ -12,7 +12,7 @@ export class SelectTool extends BrowserToolBase {
       inputSchema: {
         type: "object",
         properties: {
-          selector: { type: "string", description: "CSS selector for element to select" },
+          selector: { type: "string", description: "CSS selector, testid shorthand, or user-facing shorthand for the select element (e.g., 'label:Country', 'role:combobox')" },
           value: { type: "string", description: "Value to select" },
         },
         required: ["selector", "value"],
@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals';
+import { ConnectBrowserTool } from '../connect_browser.js';
+import { pickAttachedPage } from '../../../../toolHandler.js';
+
+const page = (url: string) => ({ url: () => url });
+
+describe('pickAttachedPage', () => {
+  it('prefers the first regular web page', () => {
+    const pages = [page('devtools://devtools/bundled/inspector.html'), page('about:blank'), page('https://app.local/'), page('https://app.local/b')];
+    expect(pickAttachedPage(pages)?.url()).toBe('https://app.local/');
+  });
+
+  it('falls back to non-internal pages, then to the first page', () => {
+    expect(pickAttachedPage([page('chrome://newtab/'), page('about:blank')])?.url()).toBe('about:blank');
+    expect(pickAttachedPage([page('chrome://newtab/')])?.url()).toBe('chrome://newtab/');
+    expect(pickAttachedPage([])).toBeUndefined();
+  });
+
+  it('matches urlContains exactly when given', () => {
+    const pages = [page('https://app.local/'), page('https://app.local/dashboard')];
+    expect(pickAttachedPage(pages, '/dashboard')?.url()).toBe('https://app.local/dashboard');
+    expect(pickAttachedPage(pages, '/settings')).toBeUndefined();
+  });
+});
+
+describe('ConnectBrowserTool', () => {
+  const tool = new ConnectBrowserTool({});
+
+  it('requires exactly one endpoint', async () => {
+    const none = await tool.execute({}, {});
+    expect(none.isError).toBe(true);
+    expect(none.content[0].text).toContain('exactly one of cdpEndpoint');
+
+    const both = await tool.execute({ cdpEndpoint: 'http://localhost:9222', wsEndpoint: 'ws://localhost:3000' }, {});
+    expect(both.isError).toBe(true);
+  });
+
+  it('reports connection failures with a tip', async () => {
+    const result = await tool.execute({ cdpEndpoint: 'http://127.0.0.1:1', timeout: 2000 }, {});
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Failed to connect to http://127.0.0.1:1');
+    expect(result.content[0].text).toContain('--remote-debugging-port');
+  });
+
+  it('rejects CDP for non-Chromium engines', async () => {
+    const result = await tool.execute({ cdpEndpoint: 'http://127.0.0.1:1', browserType: 'firefox' }, {});
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Chromium-only');
+  });
+});
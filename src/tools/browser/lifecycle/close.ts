@@ -13,7 +13,7 @@ export class CloseTool extends BrowserToolBase {
   static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
     return {
       name: "close",
-      description: "Close the browser and release all resources",
+      description: "Close the browser and release all resources. For a browser attached with connect_browser (or --cdp-endpoint / --ws-endpoint), only disconnects and leaves that browser running.",
       inputSchema: {
         type: "object",
         properties: {},
@@ -0,0 +1,100 @@
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse, createErrorResponse } from '../../common/types.js';
+
+interface ConnectBrowserArgs {
+  cdpEndpoint?: string;
+  wsEndpoint?: string;
+  browserType?: 'chromium' | 'firefox' | 'webkit';
+  urlContains?: string;
+  timeout?: number;
+}
+
+/**
+ * Tool for attaching to an already running browser
+ */
+export class ConnectBrowserTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "connect_browser",
+      description: "Attach to a browser that is already running instead of launching one: a Chrome/Edge started with --remote-debugging-port or an Electron app (cdpEndpoint, Chromium only), or a Playwright browser server from browserType.launchServer() (wsEndpoint, any engine). Replaces the current browser of this session. Picks an existing page (first whose URL contains urlContains, else the first web page) and captures its console and network like a launched browser; other open pages are available via list_tabs/switch_tab. close disconnects and leaves the attached browser running.",
+      outputs: [
+        "Connection line: engine, protocol and endpoint.",
+        "Active tab (ID, URL, title) and number of tracked tabs.",
+        "Reminder that close only disconnects.",
+      ],
+      examples: [
+        'connect_browser({ cdpEndpoint: "http://localhost:9222" })',
+        'connect_browser({ cdpEndpoint: "http://localhost:9222", urlContains: "/dashboard" })',
+        'connect_browser({ wsEndpoint: "ws://test-box:3000/abc123", browserType: "firefox" })',
+      ],
+      exampleOutputs: [
+        {
+          call: 'connect_browser({ cdpEndpoint: "http://localhost:9222" })',
+          output: `✓ Connected to chromium over CDP at http://localhost:9222\nActive tab: [2] https://app.local/dashboard — "Dashboard" (3 tabs tracked)\nUse list_tabs / switch_tab for other pages. close disconnects and leaves the browser running.`
+        }
+      ],
+      inputSchema: {
+        type: "object",
+        properties: {
+          cdpEndpoint: {
+            type: "string",
+            description: "Chrome DevTools Protocol endpoint, e.g. http://localhost:9222 or a ws://.../devtools/browser/... URL (Chromium only)"
+          },
+          wsEndpoint: {
+            type: "string",
+            description: "Playwright browser server endpoint from launchServer().wsEndpoint()"
+          },
+          browserType: {
+            type: "string",
+            enum: ["chromium", "firefox", "webkit"],
+            description: "Engine of the browser server behind wsEndpoint (default: chromium)"
+          },
+          urlContains: {
+            type: "string",
+            description: "Attach to the first page whose URL contains this text"
+          },
+          timeout: {
+            type: "number",
+            description: "Connection timeout in milliseconds (default: 30000)"
+          }
+        },
+        required: [],
+      },
+    };
+  }
+
+  async execute(args: ConnectBrowserArgs, context: ToolContext): Promise<ToolResponse> {
+    if (!args.cdpEndpoint === !args.wsEndpoint) {
+      return createErrorResponse('Provide exactly one of cdpEndpoint (Chrome --remote-debugging-port, Electron) or wsEndpoint (Playwright launchServer).');
+    }
+
+    const { connectBrowser } = await import('../../../toolHandler.js');
+    try {
+      const { connection, tab, tabCount } = await connectBrowser({
+        cdpEndpoint: args.cdpEndpoint,
+        wsEndpoint: args.wsEndpoint,
+        browserType: args.browserType,
+        urlContains: args.urlContains,
+        timeout: args.timeout,
+      });
+
+      let title = '';
+      try { title = await tab.page.title(); } catch {}
+      const browserType = args.cdpEndpoint ? 'chromium' : (args.browserType ?? 'chromium');
+
+      return createSuccessResponse([
+        `✓ Connected to ${browserType} over ${connection.kind.toUpperCase()} at ${connection.endpoint}`,
+        `Active tab: [${tab.id}] ${tab.page.url()}${title ? ` — "${title}"` : ''} (${tabCount} tab${tabCount === 1 ? '' : 's'} tracked)`,
+        'Use list_tabs / switch_tab for other pages. close disconnects and leaves the browser running.',
+      ].join('\n'));
+    } catch (error) {
+      const endpoint = args.cdpEndpoint ?? args.wsEndpoint;
+      return createErrorResponse(
+        `Failed to connect to ${endpoint}: ${(error as Error).message}\n` +
+        (args.cdpEndpoint
+          ? 'Tip: start Chrome/Electron with --remote-debugging-port=9222 and check http://localhost:9222/json/version is reachable.'
+          : 'Tip: use the exact wsEndpoint() printed by launchServer(), and a matching browserType and Playwright version.')
+      );
+    }
+  }
+}
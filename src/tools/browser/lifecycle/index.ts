@@ -1,2 +1,3 @@
 export { CloseTool } from './close.js';
+export { ConnectBrowserTool } from './connect_browser.js';
 export { SetColorSchemeTool } from './set_color_scheme.js';
@@ -35,7 +35,7 @@ export class SetColorSchemeTool extends BrowserToolBase {
   static getMetadata(_sessionConfig?: SessionConfig): ToolMetadata {
     return {
       name: "set_color_scheme",
-      description: "Set the browser color scheme that controls CSS prefers-color-scheme. Defaults to system appearance. Use before inspecting colors or taking screenshots. Options: system (clear override to follow OS/browser setting), dark, light, no-preference (simulate agents with no declared preference). Returns confirmation of the active scheme.",
+      description: "Set the browser color scheme that controls CSS prefers-color-scheme. Defaults to system appearance. Use before inspecting colors or taking screenshots. Options: system (clear override to follow OS/browser setting), dark, light, no-preference (simulate agents with no declared preference). Applies to every tab of the selected browser context (see create_context). Returns confirmation of the active scheme.",
       inputSchema: {
         type: "object",
         properties: {
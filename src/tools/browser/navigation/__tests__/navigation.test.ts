@@ -2,6 +2,7 @@ import { NavigateTool } from '../navigate.js';
 import { ToolContext } from '../../../common/types.js';
 import { Page, Browser } from 'playwright';
 import { jest } from '@jest/globals';
+import { setSessionConfig } from '../../../../toolHandler.js';
 
 // Mock the Page object
 const mockGoto = jest.fn();
@@ -144,4 +145,41 @@ describe('NavigateTool', () => {
     expect(result.isError).toBe(true);
     expect(result.content[0].text).toContain('Page is not available or has been closed');
   });
-}); 
\ No newline at end of file
+
+  test('should refuse URLs blocked by the URL policy', async () => {
+    setSessionConfig({ urlPolicy: { allow: ['https://example.com'], denySchemes: ['file'] } });
+    try {
+      const blocked = await navigationTool.execute({ url: 'https://admin.example.com/users' }, mockContext);
+      expect(blocked.isError).toBe(true);
+      expect(blocked.content[0].text).toBe(
+        'Navigation to https://admin.example.com/users blocked by URL policy: not in the allowed list (https://example.com)'
+      );
+
+      const local = await navigationTool.execute({ url: 'file:///etc/passwd' }, mockContext);
+      expect(local.content[0].text).toContain('scheme "file:" is denied');
+      expect(mockGoto).not.toHaveBeenCalled();
+    } finally {
+      setSessionConfig({ urlPolicy: undefined });
+    }
+  });
+
+  test('should stop loading the page when the call is cancelled', async () => {
+    let rejectGoto: (error: Error) => void = () => {};
+    mockGoto.mockImplementationOnce(() => new Promise((_, reject) => { rejectGoto = reject; }));
+    const mockEvaluate = jest.fn(async () => {
+      // window.stop() aborts the pending navigation
+      rejectGoto(new Error('net::ERR_ABORTED'));
+    });
+    const controller = new AbortController();
+    const page = { goto: mockGoto, isClosed: mockIsClosed, evaluate: mockEvaluate } as unknown as Page;
+
+    const pending = navigationTool.execute({ url: 'https://example.com/slow' }, { ...mockContext, page, signal: controller.signal });
+    await new Promise(resolve => setImmediate(resolve));
+    controller.abort();
+    const result = await pending;
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Cancelled by client');
+    expect(mockEvaluate).toHaveBeenCalledTimes(1);
+  });
+});
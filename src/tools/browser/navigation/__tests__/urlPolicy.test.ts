@@ -0,0 +1,43 @@
+import { checkUrlPolicy, isUrlPolicyActive, matchesUrlPattern } from '../urlPolicy.js';
+
+describe('URL policy', () => {
+  test('is inactive without rules', () => {
+    expect(isUrlPolicyActive(undefined)).toBe(false);
+    expect(isUrlPolicyActive({ allow: [], deny: [] })).toBe(false);
+    expect(checkUrlPolicy('file:///etc/passwd', {})).toBeNull();
+  });
+
+  test('matches origins, URL globs and host globs', () => {
+    const url = new URL('https://app.example.com:8443/docs/api/v1?x=1');
+    expect(matchesUrlPattern(url, 'https://app.example.com:8443')).toBe(true);
+    expect(matchesUrlPattern(url, 'https://app.example.com')).toBe(false);
+    expect(matchesUrlPattern(url, 'https://*.example.com:8443/docs/**')).toBe(true);
+    expect(matchesUrlPattern(url, 'https://*.example.com:8443/docs/*')).toBe(false);
+    expect(matchesUrlPattern(url, '*.example.com')).toBe(true);
+    expect(matchesUrlPattern(url, 'example.com')).toBe(false);
+    expect(matchesUrlPattern(url, 'app.example.com:8443')).toBe(true);
+  });
+
+  test('checks denied schemes, then denied patterns, then the allow list', () => {
+    const policy = {
+      allow: ['http://localhost:3000', '*.staging.example.com'],
+      deny: ['admin.staging.example.com'],
+      denySchemes: ['file', 'chrome:'],
+    };
+    expect(checkUrlPolicy('http://localhost:3000/login', policy)).toBeNull();
+    expect(checkUrlPolicy('https://shop.staging.example.com/', policy)).toBeNull();
+    expect(checkUrlPolicy('chrome://settings', policy)).toBe('scheme "chrome:" is denied');
+    expect(checkUrlPolicy('file:///tmp/a.html', policy)).toBe('scheme "file:" is denied');
+    expect(checkUrlPolicy('https://admin.staging.example.com/', policy)).toBe('matches denied pattern "admin.staging.example.com"');
+    expect(checkUrlPolicy('https://example.com/', policy)).toBe(
+      'not in the allowed list (http://localhost:3000, *.staging.example.com)'
+    );
+  });
+
+  test('lets blank and in-page documents through the allow list', () => {
+    const policy = { allow: ['https://example.com'] };
+    expect(checkUrlPolicy('about:blank', policy)).toBeNull();
+    expect(checkUrlPolicy('data:text/html,hi', policy)).toBeNull();
+    expect(checkUrlPolicy('data:text/html,hi', { ...policy, denySchemes: ['data:'] })).toBe('scheme "data:" is denied');
+  });
+});
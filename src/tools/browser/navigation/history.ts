@@ -37,12 +37,24 @@ export class GoHistoryTool extends BrowserToolBase {
       try { initialUrl = page.url(); } catch {}
       try { initialTitle = await page.title(); } catch {}
 
-      // Perform history navigation
-      if (dir === 'back') {
-        await page.goBack();
-      } else {
-        await page.goForward();
+      // Perform history navigation; entries the URL policy refuses are aborted by its route
+      const { getBlockedNavigationsSince } = await import('../../../toolHandler.js');
+      const startedAt = Date.now();
+      let historyError: unknown;
+      try {
+        if (dir === 'back') {
+          await page.goBack();
+        } else {
+          await page.goForward();
+        }
+      } catch (error) {
+        historyError = error;
+      }
+      const blocked = getBlockedNavigationsSince(startedAt)[0];
+      if (blocked) {
+        return createErrorResponse(`History navigation to ${blocked.url} blocked by URL policy: ${blocked.reason}`);
       }
+      if (historyError) throw historyError;
 
       const verb = dir === 'back' ? 'back' : 'forward';
       const lines: string[] = [`Navigated ${verb} in browser history`];
@@ -1,6 +1,7 @@
 import { BrowserToolBase } from '../base.js';
 import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse, createErrorResponse } from '../../common/types.js';
-import { gatherConsoleErrorsSince, quickNetworkIdleNote } from '../common/postAction.js';
+import { gatherConsoleErrorsSince, quickNetworkIdleNote, failedRequestLines } from '../common/postAction.js';
+import { ToolCancelledError, throwIfCancelled, withElapsedProgress } from '../../common/progress.js';
 
 async function resetState() {
   const { resetBrowserState } = await import('../../../toolHandler.js');
@@ -27,7 +28,7 @@ export class NavigateTool extends BrowserToolBase {
 
     return {
       name: "navigate",
-      description,
+      description: `${description} Requests that fail while loading (DNS errors, refused connections, CORS blocks) are listed after the result.`,
       inputSchema: {
         type: "object",
         properties: {
@@ -54,6 +55,14 @@ export class NavigateTool extends BrowserToolBase {
   }
 
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const { checkNavigationUrl, recordBlockedNavigation, getBlockedNavigationsSince } = await import('../../../toolHandler.js');
+    const refusal = checkNavigationUrl(args.url);
+    if (refusal) {
+      recordBlockedNavigation(args.url, refusal);
+      return createErrorResponse(`Navigation to ${args.url} blocked by URL policy: ${refusal}`);
+    }
+    const startedAt = Date.now();
+
     // Check if browser is available
     if (!context.browser || !context.browser.isConnected()) {
       // If browser is not connected, we need to reset the state to force recreation
@@ -75,10 +84,35 @@ export class NavigateTool extends BrowserToolBase {
       const sleep = (ms: number) => new Promise(res => setTimeout(res, ms));
 
       try {
-        await page.goto(args.url, {
-          timeout: args.timeout || 30000,
-          waitUntil: args.waitUntil || "load"
-        });
+        const { getTimeouts } = await import('../../../toolHandler.js');
+        const timeout = args.timeout || getTimeouts().navigation;
+        const waitUntil = args.waitUntil || "load";
+
+        // goto has no abort hook and safeExecute returns as soon as the call is cancelled.
+        // Stop the load then, so the page and network log stop changing; the goto
+        // settles with an abort error, which is swallowed here.
+        const loadUnlessCancelled = async (load: () => Promise<unknown>) => {
+          throwIfCancelled(context.signal);
+          const loading = load();
+          const stopLoading = () => {
+            loading.catch(() => {});
+            page.evaluate(() => window.stop()).catch(() => {});
+          };
+          context.signal?.addEventListener('abort', stopLoading, { once: true });
+          try {
+            await loading;
+          } finally {
+            context.signal?.removeEventListener('abort', stopLoading);
+          }
+          throwIfCancelled(context.signal);
+        };
+
+        await withElapsedProgress(
+          context,
+          `loading ${args.url} (until ${waitUntil})`,
+          () => loadUnlessCancelled(() => page.goto(args.url, { timeout, waitUntil })),
+          { totalMs: timeout }
+        );
 
         // Detect common Next.js dev boot error and auto-reload up to N times
         // Example logs:
@@ -105,7 +139,8 @@ export class NavigateTool extends BrowserToolBase {
             if (hasInvalidToken && hasNextMarkers && attempts < maxRetries) {
               attempts++;
               this.recordNavigation();
-              await page.reload({ timeout: args.timeout || 30000, waitUntil: args.waitUntil || 'load' });
+              context.reportProgress?.(`reloading ${args.url} after Next.js init error (attempt ${attempts}/${maxRetries})`);
+              await loadUnlessCancelled(() => page.reload({ timeout, waitUntil }));
               if (delay) await sleep(delay);
               continue;
             }
@@ -120,7 +155,8 @@ export class NavigateTool extends BrowserToolBase {
             // No error detected on first attempt
             break;
           }
-        } catch {
+        } catch (error) {
+          if (error instanceof ToolCancelledError) throw error;
           // Best-effort detection; ignore and proceed
         }
 
@@ -134,6 +170,14 @@ export class NavigateTool extends BrowserToolBase {
           // Ignore failures in the quick check
         }
 
+        // Requests that never got a response (DNS, refused connections, CORS)
+        let failedLines: string[] = [];
+        try {
+          failedLines = await failedRequestLines(startedAt);
+        } catch {
+          // Best-effort
+        }
+
         // After waiting briefly, surface hard page errors if any
         try {
           const errs = await gatherConsoleErrorsSince('navigation');
@@ -144,11 +188,13 @@ export class NavigateTool extends BrowserToolBase {
               const t = await page.title();
               if (t) titleInfo = `\nTitle: ${t}`;
             } catch {}
-            return createErrorResponse(`Console error after navigation: ${errs[0]}${titleInfo}`);
+            const failedInfo = failedLines.length ? `\n${failedLines.join('\n')}` : '';
+            return createErrorResponse(`Console error after navigation: ${errs[0]}${titleInfo}${failedInfo}`);
           }
         } catch {
           // If log retrieval fails, continue normally
         }
+        messages.push(...failedLines);
 
         // Add page title to help the agent orient itself
         try {
@@ -162,6 +208,12 @@ export class NavigateTool extends BrowserToolBase {
       } catch (error) {
         const errorMessage = (error as Error).message;
 
+        // A redirect (or the page itself) went to a URL the policy refuses
+        const blocked = getBlockedNavigationsSince(startedAt)[0];
+        if (blocked) {
+          return createErrorResponse(`Navigation to ${args.url} blocked by URL policy: ${blocked.url} ${blocked.reason}`);
+        }
+
         // Check for common disconnection errors
         if (
           errorMessage.includes("Target page, context or browser has been closed") ||
@@ -1,5 +1,6 @@
 import { BrowserToolBase } from '../base.js';
 import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse } from '../../common/types.js';
+import { withElapsedProgress } from '../../common/progress.js';
 
 /**
  * Tool for scrolling a container by a specific number of pixels
@@ -176,7 +177,8 @@ export class ScrollByTool extends BrowserToolBase {
         });
 
         // Scroll the element and collect scrollable ancestor info
-        const scrollResult = await element.evaluate(
+        // (evaluate waits for the element to be attached, which can take a while on busy pages)
+        const scrollResult = await withElapsedProgress<any>(context, `scrolling ${args.selector} by ${pixels}px`, () => element.evaluate(
           (el, { scrollAmount, scrollDirection }) => {
             const maxVertical = el.scrollHeight - el.clientHeight;
             const maxHorizontal = el.scrollWidth - el.clientWidth;
@@ -321,7 +323,7 @@ export class ScrollByTool extends BrowserToolBase {
             };
           },
           { scrollAmount: pixels, scrollDirection: direction }
-        );
+        ));
 
         // Build element description
         let elementDesc = `<${scrollResult.tagName}`;
@@ -0,0 +1,79 @@
+/**
+ * Navigation URL policy: which URLs the browser may load as documents
+ * (top-level pages, frames and popups). Subresources are not checked.
+ */
+export interface UrlPolicy {
+  // Origins or globs that may be loaded; when set, everything else is blocked
+  allow?: string[];
+  // Origins or globs that are always blocked (checked before allow)
+  deny?: string[];
+  // Schemes that are always blocked, e.g. "file:", "chrome:"
+  denySchemes?: string[];
+}
+
+// In-page documents without an origin of their own; only denySchemes can block them
+const ALLOWLIST_EXEMPT_SCHEMES = new Set(['about:', 'data:', 'blob:']);
+
+export function isUrlPolicyActive(policy: UrlPolicy | undefined): boolean {
+  return Boolean(policy && (policy.allow?.length || policy.deny?.length || policy.denySchemes?.length));
+}
+
+function normalizeScheme(scheme: string): string {
+  const lower = scheme.trim().toLowerCase();
+  return lower.endsWith(':') ? lower : `${lower}:`;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('**')
+    .map(part => part.split('*').map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Matches a URL against one policy entry:
+ * - "https://app.example.com" (scheme and host only) matches that origin
+ * - "https://*.example.com/docs/**" (with a path) is a glob over the whole URL
+ * - "*.internal" or "admin.example.com" (no scheme) is a glob over the host name
+ * In globs, `*` stops at "/" and `**` matches anything.
+ */
+export function matchesUrlPattern(url: URL, pattern: string): boolean {
+  const trimmed = pattern.trim();
+  const schemeEnd = trimmed.indexOf('://');
+  if (schemeEnd === -1) {
+    return globToRegExp(trimmed).test(trimmed.includes(':') ? url.host : url.hostname);
+  }
+  const hasPath = trimmed.indexOf('/', schemeEnd + 3) !== -1;
+  return hasPath
+    ? globToRegExp(trimmed).test(url.href)
+    : globToRegExp(trimmed).test(url.origin);
+}
+
+/**
+ * Checks a URL against the policy. Returns why it is blocked, or null when allowed.
+ */
+export function checkUrlPolicy(rawUrl: string, policy: UrlPolicy | undefined): string | null {
+  if (!isUrlPolicyActive(policy)) return null;
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    // Not a URL; the navigation fails on its own
+    return null;
+  }
+
+  const scheme = url.protocol.toLowerCase();
+  if (policy!.denySchemes?.some(denied => normalizeScheme(denied) === scheme)) {
+    return `scheme "${scheme}" is denied`;
+  }
+  const denied = policy!.deny?.find(pattern => matchesUrlPattern(url, pattern));
+  if (denied) {
+    return `matches denied pattern "${denied}"`;
+  }
+  const allow = policy!.allow ?? [];
+  if (allow.length && !ALLOWLIST_EXEMPT_SCHEMES.has(scheme) && !allow.some(pattern => matchesUrlPattern(url, pattern))) {
+    return `not in the allowed list (${allow.join(', ')})`;
+  }
+  return null;
+}
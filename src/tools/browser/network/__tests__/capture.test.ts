@@ -0,0 +1,44 @@
+import { captureResponseBody, isBinaryContentType, formatSize } from '../capture.js';
+
+describe('captureResponseBody', () => {
+  const read = (text: string | Buffer) => jest.fn(async () => Buffer.isBuffer(text) ? text : Buffer.from(text));
+
+  test('keeps text bodies within the limit', async () => {
+    const body = await captureResponseBody({ 'content-type': 'application/json' }, read('{"ok":true}'), 1024);
+    expect(body).toEqual({ body: '{"ok":true}', size: 11 });
+  });
+
+  test('skips binary content types without reading them', async () => {
+    const readBody = read('');
+    const body = await captureResponseBody({ 'content-type': 'image/png', 'content-length': '2048' }, readBody, 1024);
+    expect(body).toEqual({ body: null, size: 2048, omitted: 'binary (image/png)' });
+    expect(readBody).not.toHaveBeenCalled();
+  });
+
+  test('skips bodies over the limit, by content-length or after reading', async () => {
+    const readBody = read('');
+    expect(await captureResponseBody({ 'content-type': 'text/javascript', 'content-length': '5000000' }, readBody, 1024 * 1024))
+      .toEqual({ body: null, size: 5000000, omitted: 'over the 1.0MB capture limit (4.8MB)' });
+    expect(readBody).not.toHaveBeenCalled();
+
+    // Chunked responses have no content-length
+    expect(await captureResponseBody({ 'content-type': 'text/plain' }, read('x'.repeat(2000)), 1024))
+      .toEqual({ body: null, size: 2000, omitted: 'over the 1.0KB capture limit (2.0KB)' });
+  });
+
+  test('detects binary bodies with a text or missing content type', async () => {
+    const body = await captureResponseBody({}, read(Buffer.from([0x89, 0x50, 0x00, 0x47])), 1024);
+    expect(body).toEqual({ body: null, size: 4, omitted: 'binary' });
+  });
+
+  test('returns no body when the browser cannot provide it', async () => {
+    const body = await captureResponseBody({ 'content-length': '0' }, jest.fn(async () => { throw new Error('redirect'); }), 1024);
+    expect(body).toEqual({ body: null, size: 0 });
+  });
+
+  test('treats SVG as text', () => {
+    expect(isBinaryContentType('image/svg+xml; charset=utf-8')).toBe(false);
+    expect(isBinaryContentType('font/woff2')).toBe(true);
+    expect(formatSize(512)).toBe('512B');
+  });
+});
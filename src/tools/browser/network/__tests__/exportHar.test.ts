@@ -0,0 +1,63 @@
+import { jest } from '@jest/globals';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { Browser, Page } from 'playwright';
+import type { NetworkRequest } from '../../../../toolHandler.js';
+import type { ToolContext } from '../../../common/types.js';
+import { Redactor } from '../../../../redaction.js';
+import { clearResolvedSecrets, resolveSecretRef } from '../../../../secrets.js';
+import { ExportHarTool } from '../export_har.js';
+
+const outRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'wi-har-'));
+const networkLog: NetworkRequest[] = [];
+
+jest.mock('../../../../toolHandler', () => ({
+  getNetworkLog: () => networkLog,
+  getScreenshotsDir: () => path.join(outRoot, 'screenshots'),
+  createRedactor: () => new Redactor(),
+}));
+
+const context = {
+  page: { isClosed: () => false } as unknown as Page,
+  browser: { isConnected: () => true } as unknown as Browser,
+  server: {},
+} as ToolContext;
+
+describe('ExportHarTool', () => {
+  afterEach(() => {
+    clearResolvedSecrets();
+    networkLog.length = 0;
+  });
+
+  afterAll(() => {
+    fs.rmSync(outRoot, { recursive: true, force: true });
+  });
+
+  test('masks values typed from secret references before writing', async () => {
+    const { value } = resolveSecretRef('secret:PW', { MCP_WEB_INSPECTOR_SECRET_PW: 'hunter2-staging' });
+    networkLog.push({
+      index: 0,
+      url: 'https://example.com/login',
+      method: 'POST',
+      resourceType: 'fetch',
+      timestamp: Date.UTC(2024, 0, 1),
+      status: 200,
+      timing: 12,
+      requestData: {
+        headers: { 'content-type': 'application/json', 'x-debug-pw': value },
+        postData: JSON.stringify({ user: 'ada', pw: value }),
+      },
+      responseData: { headers: { 'content-type': 'application/json' }, body: '{"ok":true}' },
+    });
+
+    const result = await new ExportHarTool({}).execute({ name: 'login' }, context);
+    expect(result.isError).toBe(false);
+
+    const written = fs.readFileSync(path.join(outRoot, 'har', 'login.har'), 'utf8');
+    expect(written).not.toContain('hunter2-staging');
+    const [entry] = JSON.parse(written).log.entries;
+    expect(entry.request.postData.text).toBe('{"user":"ada","pw":"[secret:PW]"}');
+    expect(entry.request.headers).toContainEqual({ name: 'x-debug-pw', value: '[secret:PW]' });
+  });
+});
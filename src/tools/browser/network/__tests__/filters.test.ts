@@ -0,0 +1,73 @@
+import type { NetworkRequest } from '../../../../toolHandler.js';
+import { describeNetworkFilter, matchesNetworkFilter, parseNetworkFilter, parseTextPattern } from '../filters.js';
+import { findSnippets } from '../search_network_bodies.js';
+
+const request = (overrides: Partial<NetworkRequest>): NetworkRequest => ({
+  index: 0,
+  url: 'https://example.com/api/users',
+  method: 'GET',
+  resourceType: 'fetch',
+  timestamp: 1000,
+  requestData: { headers: {}, postData: null },
+  ...overrides,
+});
+
+const noSince = () => 0;
+
+describe('network filters', () => {
+  const ok = request({ status: 200, timing: 120, responseData: { headers: {}, body: 'x'.repeat(300) } });
+  const notFound = request({ url: 'https://example.com/api/v2/orders', method: 'POST', status: 404, timing: 40 });
+  const failed = request({ url: 'https://cdn.example.com/app.js', resourceType: 'script', failure: 'net::ERR_NAME_NOT_RESOLVED' });
+  const pending = request({ timestamp: 5000 });
+  const all = [ok, notFound, failed, pending];
+  const select = (args: Parameters<typeof parseNetworkFilter>[0], since = noSince) => {
+    const filter = parseNetworkFilter(args, since);
+    return all.filter(req => matchesNetworkFilter(req, filter));
+  };
+
+  test('matches URLs by substring or regex', () => {
+    expect(select({ url: 'API/V2' })).toEqual([notFound]);
+    expect(select({ url: '/\\/api\\/v\\d\\//' })).toEqual([notFound]);
+    expect(parseTextPattern('/users/i')).toEqual(/users/i);
+    expect(parseTextPattern('/api/users')).toBe('/api/users');
+  });
+
+  test('matches methods and status classes', () => {
+    expect(select({ method: 'post, put' })).toEqual([notFound]);
+    expect(select({ status: '4xx' })).toEqual([notFound]);
+    expect(select({ status: '200' })).toEqual([ok]);
+    expect(select({ status: 'failed' })).toEqual([failed]);
+    expect(select({ status: 'pending' })).toEqual([pending]);
+  });
+
+  test('matches duration, size and since windows', () => {
+    expect(select({ minDuration: 100 })).toEqual([ok]);
+    expect(select({ minSize: 256 })).toEqual([ok]);
+    expect(select({ since: 'last-interaction' }, () => 2000)).toEqual([pending]);
+  });
+
+  test('rejects invalid filters', () => {
+    expect(() => parseNetworkFilter({ status: 'bad' }, noSince)).toThrow('Invalid status filter "bad"');
+    expect(() => parseNetworkFilter({ url: '/(/' }, noSince)).toThrow('Invalid url pattern /(/');
+    expect(() => parseNetworkFilter({ since: 'yesterday' as any }, noSince)).toThrow('Invalid since value "yesterday"');
+  });
+
+  test('describes the active filters', () => {
+    expect(describeNetworkFilter({ method: 'POST', status: '4xx', url: '' })).toBe('method=POST, status=4xx');
+  });
+});
+
+describe('findSnippets', () => {
+  test('returns matches with surrounding context', () => {
+    const text = `${'a'.repeat(60)} token: secret-value\n${'b'.repeat(60)}`;
+    const { count, snippets } = findSnippets(text, /secret/i);
+    expect(count).toBe(1);
+    expect(snippets[0]).toBe(`…${'a'.repeat(32)} token: secret-value ${'b'.repeat(33)}…`);
+  });
+
+  test('counts every match but keeps only the first few snippets', () => {
+    const { count, snippets } = findSnippets('id id id id id', /id/, 3);
+    expect(count).toBe(5);
+    expect(snippets).toHaveLength(3);
+  });
+});
@@ -0,0 +1,100 @@
+import { buildHar, REDACTED_URL_COMMENT } from '../har.js';
+import { Redactor } from '../../../../redaction.js';
+import type { NetworkRequest } from '../../../../toolHandler.js';
+
+const request = (overrides: Partial<NetworkRequest>): NetworkRequest => ({
+  index: 0,
+  method: 'GET',
+  url: 'https://example.com/api/users?page=2',
+  resourceType: 'fetch',
+  timestamp: Date.UTC(2024, 0, 1, 12, 0, 0),
+  status: 200,
+  statusText: 'OK',
+  timing: 42,
+  requestData: {
+    headers: { accept: 'application/json', authorization: 'Bearer secret-token' },
+    postData: null,
+  },
+  responseData: {
+    headers: { 'content-type': 'application/json', 'content-encoding': 'gzip', 'set-cookie': 'sid=abc' },
+    body: '{"users":[]}',
+  },
+  ...overrides,
+});
+
+describe('buildHar', () => {
+  test('produces HAR 1.2 entries with request and response data', () => {
+    const har = buildHar([request({})], { creatorVersion: '1.2.3' });
+
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.creator).toEqual({ name: 'mcp-web-inspector', version: '1.2.3' });
+    expect(har.log.entries).toHaveLength(1);
+
+    const [entry] = har.log.entries;
+    expect(entry.startedDateTime).toBe('2024-01-01T12:00:00.000Z');
+    expect(entry.time).toBe(42);
+    expect(entry.request.queryString).toEqual([{ name: 'page', value: '2' }]);
+    expect(entry.response.status).toBe(200);
+    expect(entry.response.content).toEqual({ size: 12, mimeType: 'application/json', text: '{"users":[]}' });
+    expect(entry._resourceType).toBe('fetch');
+  });
+
+  test('redacts credential headers unless sensitive data is exposed', () => {
+    const [redacted] = buildHar([request({})], { creatorVersion: 'x' }).log.entries;
+    expect(redacted.request.headers).toContainEqual({ name: 'authorization', value: '<redacted>' });
+    expect(redacted.response.headers).toContainEqual({ name: 'set-cookie', value: '<redacted>' });
+
+    const [exposed] = buildHar([request({})], { creatorVersion: 'x', exposeSensitive: true }).log.entries;
+    expect(exposed.request.headers).toContainEqual({ name: 'authorization', value: 'Bearer secret-token' });
+  });
+
+  test('drops encoding headers because bodies are stored decoded', () => {
+    const [entry] = buildHar([request({})], { creatorVersion: 'x' }).log.entries;
+    expect(entry.response.headers.map(h => h.name)).not.toContain('content-encoding');
+  });
+
+  test('keeps post data and skips requests without a response', () => {
+    const har = buildHar([
+      request({ method: 'POST', requestData: { headers: { 'content-type': 'application/json' }, postData: '{"a":1}' } }),
+      request({ index: 1, status: undefined, responseData: undefined }),
+    ], { creatorVersion: 'x' });
+
+    expect(har.log.entries).toHaveLength(1);
+    expect(har.log.entries[0].request.postData).toEqual({ mimeType: 'application/json', text: '{"a":1}' });
+    expect(har.log.entries[0].request.bodySize).toBe(7);
+  });
+
+  test('marks entries served by mock routes', () => {
+    const [entry] = buildHar([request({ mocked: { routeId: 3, action: 'fulfill' } })], { creatorVersion: 'x' }).log.entries;
+    expect(entry._mocked).toBe('route #3 (fulfill)');
+  });
+
+  test('redacts bodies and query parameters and counts what it hid', () => {
+    const redactor = new Redactor();
+    const [entry] = buildHar([request({
+      method: 'POST',
+      url: 'https://example.com/login?access_token=abc',
+      requestData: { headers: { 'content-type': 'application/json' }, postData: '{"user":"ada","password":"hunter22"}' },
+    })], { creatorVersion: 'x', redactor }).log.entries;
+
+    expect(entry.request.url).toBe('https://example.com/login?access_token=<redacted>');
+    expect(entry.request.queryString).toEqual([{ name: 'access_token', value: '<redacted>' }]);
+    expect(entry.request.postData?.text).toBe('{"user":"ada","password":"<redacted>"}');
+    expect(entry.request.comment).toBe(REDACTED_URL_COMMENT);
+    // access_token, password and the set-cookie response header
+    expect(redactor.count).toBe(3);
+  });
+
+  test('keeps URLs as captured for replay when URL redaction is off', () => {
+    const [entry] = buildHar([request({ url: 'https://example.com/feed?access_token=abc' })], {
+      creatorVersion: 'x',
+      redactUrls: false,
+    }).log.entries;
+
+    expect(entry.request.url).toBe('https://example.com/feed?access_token=abc');
+    expect(entry.request.queryString).toEqual([{ name: 'access_token', value: 'abc' }]);
+    expect(entry.request.comment).toBeUndefined();
+    // Headers are still redacted
+    expect(entry.request.headers).toContainEqual({ name: 'authorization', value: '<redacted>' });
+  });
+});
@@ -0,0 +1,69 @@
+import { handleToolCall, parseRoutePattern } from '../../../../toolHandler.js';
+import { jest } from '@jest/globals';
+
+const mockServer = {
+  sendMessage: jest.fn(),
+  notification: jest.fn()
+};
+
+const textOf = (result: any): string => result.content.map((c: any) => c.text).join('\n');
+
+describe('parseRoutePattern', () => {
+  test('treats /.../flags as a regular expression', () => {
+    const matcher = parseRoutePattern('/\\/api\\/v\\d+\\//i');
+    expect(matcher).toBeInstanceOf(RegExp);
+    expect((matcher as RegExp).test('https://x.test/API/v2/users')).toBe(true);
+  });
+
+  test('keeps anything else as a glob', () => {
+    expect(parseRoutePattern('**/api/users*')).toBe('**/api/users*');
+  });
+});
+
+describe('Mock routes', () => {
+  afterEach(async () => {
+    await handleToolCall('close', {}, mockServer);
+  });
+
+  test('fulfills matching requests and marks them in the network log', async () => {
+    await handleToolCall('navigate', { url: 'about:blank', headless: true }, mockServer);
+
+    const mocked = await handleToolCall('mock_route', { url: '**/api/users', status: 500, body: { error: 'boom' } }, mockServer);
+    expect(mocked.isError).toBe(false);
+    expect(textOf(mocked)).toContain('Route #');
+
+    await handleToolCall('navigate', { url: 'https://example.com/api/users' }, mockServer);
+    const body = await handleToolCall('evaluate', { script: 'document.body.innerText' }, mockServer);
+    expect(textOf(body)).toContain('boom');
+
+    const requests = textOf(await handleToolCall('list_network_requests', {}, mockServer));
+    expect(requests).toMatch(/500 .*\| mocked #\d+/);
+
+    const routes = textOf(await handleToolCall('list_routes', {}, mockServer));
+    expect(routes).toContain('Mock routes (1)');
+    expect(routes).toContain('hits 1');
+  }, 60000);
+
+  test('aborts requests and removes routes', async () => {
+    await handleToolCall('navigate', { url: 'about:blank', headless: true }, mockServer);
+    await handleToolCall('mock_route', { url: '**/blocked', abort: 'connectionrefused' }, mockServer);
+
+    const failed = await handleToolCall('evaluate', {
+      script: "fetch('https://example.com/blocked').then(() => 'ok', () => 'failed')"
+    }, mockServer);
+    expect(textOf(failed)).toContain('failed');
+
+    const requests = textOf(await handleToolCall('list_network_requests', {}, mockServer));
+    expect(requests).toContain('aborted');
+
+    const removed = await handleToolCall('unmock_route', {}, mockServer);
+    expect(textOf(removed)).toContain('Removed 1 mock route(s)');
+    expect(textOf(await handleToolCall('list_routes', {}, mockServer))).toContain('No mock routes registered');
+  }, 60000);
+
+  test('rejects a mock without any action', async () => {
+    const result = await handleToolCall('mock_route', { url: '**/api' }, mockServer);
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain('Nothing to mock');
+  });
+});
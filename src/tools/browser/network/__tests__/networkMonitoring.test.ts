@@ -3,7 +3,7 @@ import { chromium, Browser, Page } from 'playwright';
 import { ListNetworkRequestsTool } from '../list_network_requests.js';
 import { GetRequestDetailsTool } from '../get_request_details.js';
 import type { ToolContext } from '../../../common/types.js';
-import { clearNetworkLog, getNetworkLog, ensureBrowser, resetBrowserState } from '../../../../toolHandler.js';
+import { clearNetworkLog, getNetworkLog, getFailedRequestsSince, ensureBrowser, resetBrowserState } from '../../../../toolHandler.js';
 
 describe('Network Monitoring Tools', () => {
   let browser: Browser;
@@ -178,4 +178,43 @@ describe('Network Monitoring Tools', () => {
       expect(text).toContain('more chars');
     }
   });
+
+  test('should mark requests without a response as failed', async () => {
+    clearNetworkLog();
+    const startedAt = Date.now();
+
+    // Nothing listens on the discard port, so the connection is refused
+    await page.evaluate(() => fetch('http://127.0.0.1:9/unreachable').catch(() => null));
+    await page.waitForTimeout(200);
+
+    const failed = getNetworkLog().find(req => req.url.includes('/unreachable'));
+    expect(failed?.status).toBeUndefined();
+    expect(failed?.failure).toMatch(/ERR_|refused/i);
+    expect(getFailedRequestsSince(startedAt)).toContain(failed);
+
+    const result = await listNetworkRequestsTool.execute({}, context);
+    expect(result.content[0].text).toContain('failed (');
+    expect(result.content[0].text).not.toContain('pending');
+  });
+
+  test('should pair concurrent identical requests with their own responses', async () => {
+    clearNetworkLog();
+
+    // The first request is answered last
+    let calls = 0;
+    await page.route('**/poll', async route => {
+      const call = ++calls;
+      if (call === 1) await new Promise(resolve => setTimeout(resolve, 300));
+      await route.fulfill({ status: 200, contentType: 'text/plain', body: `reply ${call}` });
+    });
+    try {
+      await page.evaluate(() => Promise.all([fetch('http://localhost/poll'), fetch('http://localhost/poll')].map(p => p.then(r => r.text()))));
+      await page.waitForTimeout(200);
+    } finally {
+      await page.unroute('**/poll');
+    }
+
+    const polls = getNetworkLog().filter(req => req.url.endsWith('/poll'));
+    expect(polls.map(req => req.responseData?.body)).toEqual(['reply 1', 'reply 2']);
+  });
 });
@@ -0,0 +1,63 @@
+import { jest } from '@jest/globals';
+import type { Browser, Page } from 'playwright';
+import type { NetworkRequest } from '../../../../toolHandler.js';
+import type { ToolContext } from '../../../common/types.js';
+import { Redactor } from '../../../../redaction.js';
+import { SearchNetworkBodiesTool } from '../search_network_bodies.js';
+
+const networkLog: NetworkRequest[] = [];
+
+jest.mock('../../../../toolHandler', () => ({
+  getNetworkLog: () => networkLog,
+  getLastActionTimestamp: () => 0,
+  createRedactor: () => new Redactor(),
+}));
+
+const context = {
+  page: { isClosed: () => false } as unknown as Page,
+  browser: { isConnected: () => true } as unknown as Browser,
+  server: {},
+} as ToolContext;
+
+const request = (index: number, body: string): NetworkRequest => ({
+  index,
+  url: `https://example.com/api/${index}`,
+  method: 'POST',
+  resourceType: 'fetch',
+  timestamp: 1000 + index,
+  status: 200,
+  requestData: { headers: {}, postData: body },
+});
+
+describe('SearchNetworkBodiesTool', () => {
+  afterEach(() => {
+    networkLog.length = 0;
+  });
+
+  test('counts redactions only in the requests it lists', async () => {
+    networkLog.push(
+      request(0, JSON.stringify({ user: 'ada', password: 'one', refresh_token: 'two' })),
+      request(1, JSON.stringify({ user: 'bob', password: 'three' })),
+      request(2, JSON.stringify({ user: 'cy', password: 'four' })),
+    );
+
+    const result = await new SearchNetworkBodiesTool({}).execute({ query: 'ada' }, context);
+    const text = result.content.map(item => item.text).join('\n');
+    expect(text).toContain('[0] POST https://example.com/api/0 200');
+    expect(text).not.toContain('[1]');
+    expect(text).toContain('Redacted: 2 values (redaction rules)');
+  });
+
+  test('leaves out redactions of matches past the limit', async () => {
+    networkLog.push(
+      request(0, JSON.stringify({ note: 'match', password: 'one' })),
+      request(1, JSON.stringify({ note: 'match', password: 'two' })),
+    );
+
+    const result = await new SearchNetworkBodiesTool({}).execute({ query: 'match', limit: 1 }, context);
+    const text = result.content.map(item => item.text).join('\n');
+    expect(text).toContain('[1] POST');
+    expect(text).toContain('... 1 more matching request(s)');
+    expect(text).toContain('Redacted: 1 value (redaction rules)');
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Response body capture for the network log: which bodies are kept as text,
+ * and why the others are left out (binary content, over the size cap).
+ */
+
+const BINARY_TYPE_PREFIXES = ['image/', 'audio/', 'video/', 'font/'];
+const BINARY_TYPES = [
+  'application/octet-stream', 'application/pdf', 'application/zip', 'application/gzip',
+  'application/wasm', 'application/x-protobuf', 'application/vnd.ms-fontobject', 'application/font-woff',
+];
+// Text even though the prefix above says otherwise
+const TEXT_TYPES = ['image/svg+xml'];
+
+export interface CapturedBody {
+  body: string | null;
+  // Byte size when known (content-length header or the read body)
+  size?: number;
+  // Why body is null, e.g. "binary (image/png)" or "over the 1MB capture limit (3.2MB)"
+  omitted?: string;
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+export function isBinaryContentType(contentType: string | undefined): boolean {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (!type || TEXT_TYPES.includes(type)) return false;
+  return BINARY_TYPE_PREFIXES.some(prefix => type.startsWith(prefix)) || BINARY_TYPES.includes(type);
+}
+
+// Text never contains NUL bytes; checking the start is enough for real-world binaries
+export function looksBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, 1024).includes(0);
+}
+
+/**
+ * Reads a response body when it is text and within maxBytes. The content
+ * type and content-length are checked first, so binaries and bodies declared
+ * larger than maxBytes are never read. Without a content-length (chunked or
+ * compressed responses) the body has to be read to learn its size; it is
+ * dropped right after when over maxBytes.
+ */
+export async function captureResponseBody(
+  headers: Record<string, string>,
+  readBody: () => Promise<Buffer>,
+  maxBytes: number,
+): Promise<CapturedBody> {
+  const contentType = headers['content-type'];
+  const declared = Number(headers['content-length']);
+  const declaredSize = Number.isFinite(declared) && headers['content-length'] !== undefined ? declared : undefined;
+
+  if (isBinaryContentType(contentType)) {
+    return { body: null, size: declaredSize, omitted: `binary (${contentType!.split(';')[0].trim()})` };
+  }
+  if (declaredSize !== undefined && declaredSize > maxBytes) {
+    return { body: null, size: declaredSize, omitted: `over the ${formatSize(maxBytes)} capture limit (${formatSize(declaredSize)})` };
+  }
+
+  let buffer: Buffer;
+  try {
+    buffer = await readBody();
+  } catch {
+    // Redirects, and bodies the browser no longer holds (page closed, navigated away)
+    return { body: null, size: declaredSize };
+  }
+  if (buffer.length > maxBytes) {
+    return { body: null, size: buffer.length, omitted: `over the ${formatSize(maxBytes)} capture limit (${formatSize(buffer.length)})` };
+  }
+  if (looksBinary(buffer)) {
+    return { body: null, size: buffer.length, omitted: `binary${contentType ? ` (${contentType.split(';')[0].trim()})` : ''}` };
+  }
+  return { body: buffer.toString('utf8'), size: buffer.length };
+}
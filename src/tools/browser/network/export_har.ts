@@ -0,0 +1,95 @@
+import fs from 'node:fs';
+import * as path from 'node:path';
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse, createErrorResponse } from '../../common/types.js';
+import { buildHar, REDACTED_URL_COMMENT } from './har.js';
+import { maskSecretsInResult } from '../../../secrets.js';
+
+interface ExportHarArgs {
+  name?: string;
+  redactUrls?: boolean;
+}
+
+function packageVersion(): string {
+  try {
+    const root = process.env.MCP_WEB_INSPECTOR_PACKAGE_ROOT || process.cwd();
+    return JSON.parse(fs.readFileSync(path.join(root, 'package.json'), 'utf8')).version || 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Tool for exporting the captured network log as a HAR file
+ */
+export class ExportHarTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "export_har",
+      description: "Export the network log of the active tab as a HAR 1.2 file under ./.mcp-web-inspector/har/ (attach it to a bug report, open it in browser devtools, or replay it offline with replay_har). Requests without a response (pending/aborted) are skipped. Credential headers, body fields and token-like values in URLs and bodies are redacted by the server's redaction rules unless it exposes sensitive network data. replay_har matches requests by URL, so entries whose URL had values redacted (tokens in query strings) will not replay; export with redactUrls: false to keep URLs as captured.",
+      outputs: [
+        "Path of the written .har file (relative to the working directory)",
+        "Entry count, skipped requests and total size",
+        "Number of redacted values, when any",
+        "Entries that will not replay because their URL was redacted, when any",
+      ],
+      inputSchema: {
+        type: "object",
+        properties: {
+          name: {
+            type: "string",
+            description: "Base file name without extension (default: timestamp and host of the first request)"
+          },
+          redactUrls: {
+            type: "boolean",
+            description: "Redact token-like values in URLs (default: true). Set to false to keep URLs as captured so the file replays with replay_har; headers and bodies are still redacted"
+          }
+        },
+        required: [],
+      },
+    };
+  }
+
+  async execute(args: ExportHarArgs, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async () => {
+      const { getNetworkLog, getScreenshotsDir, createRedactor } = await import('../../../toolHandler.js');
+      const networkLog = getNetworkLog();
+
+      if (networkLog.length === 0) {
+        return createErrorResponse("No network requests captured yet. Navigate or interact with the page first.");
+      }
+
+      const redactor = createRedactor('network');
+      const har = buildHar(networkLog, { creatorVersion: packageVersion(), redactor, redactUrls: args.redactUrls });
+
+      const makeSafe = (s: string) => s.replace(/[^a-zA-Z0-9._-]/g, '-');
+      const host = (() => { try { return makeSafe(new URL(networkLog[0].url).hostname) || 'page'; } catch { return 'page'; } })();
+      const ts = new Date().toISOString().replace(/[:.]/g, '-');
+      const baseName = args.name ? makeSafe(args.name.replace(/\.har$/i, '')) : `${ts}-${host}`;
+
+      const outDir = path.join(path.dirname(getScreenshotsDir()), 'har');
+      if (!fs.existsSync(outDir)) {
+        fs.mkdirSync(outDir, { recursive: true });
+      }
+      const outFile = path.join(outDir, `${baseName}.har`);
+      // Values typed from secret:NAME references end up in post bodies and headers.
+      // Masked per string, before JSON escaping changes how they appear.
+      const json = JSON.stringify(maskSecretsInResult(har), null, 2);
+      fs.writeFileSync(outFile, json, 'utf8');
+
+      const skipped = networkLog.length - har.log.entries.length;
+      const unreplayable = har.log.entries.filter(entry => entry.request.comment === REDACTED_URL_COMMENT).length;
+      const sizeKb = (Buffer.byteLength(json) / 1024).toFixed(1);
+      const relative = path.relative(process.cwd(), outFile);
+
+      return createSuccessResponse([
+        `✓ Exported ${har.log.entries.length} request(s) to: ${relative} (${sizeKb}KB)`,
+        ...(skipped > 0 ? [`Skipped ${skipped} request(s) without a response (pending or aborted)`] : []),
+        ...(redactor.summary() ? [redactor.summary()!] : []),
+        ...(unreplayable > 0 ? [`${unreplayable} request(s) had URL values redacted and will not match on replay; export with redactUrls: false to keep URLs as captured`] : []),
+        `Replay offline with: replay_har({ path: '${relative}' })`,
+        'Note: .mcp-web-inspector/ is recommended in .gitignore to avoid committing sensitive data.',
+      ]);
+    });
+  }
+}
@@ -0,0 +1,152 @@
+import type { NetworkRequest } from '../../../toolHandler.js';
+
+/**
+ * Filters shared by list_network_requests and search_network_bodies
+ */
+export interface NetworkFilterArgs {
+  type?: string;
+  url?: string;
+  method?: string;
+  status?: string;
+  minDuration?: number;
+  minSize?: number;
+  since?: 'last-navigation' | 'last-interaction';
+}
+
+export const STATUS_FILTERS = ['2xx', '3xx', '4xx', '5xx', 'failed', 'pending'] as const;
+export const SINCE_FILTERS = ['last-navigation', 'last-interaction'] as const;
+
+export interface NetworkFilter {
+  type?: string;
+  url?: string | RegExp;
+  methods?: string[];
+  status?: typeof STATUS_FILTERS[number] | number;
+  minDuration?: number;
+  minSize?: number;
+  // Requests started at or after this time (ms)
+  since?: number;
+}
+
+// JSON schema properties of the filter arguments, for tool input schemas
+export const NETWORK_FILTER_PROPERTIES = {
+  type: {
+    type: "string",
+    description: "Filter by resource type: 'xhr', 'fetch', 'script', 'stylesheet', 'image', 'font', 'document', etc. Omit to show all types."
+  },
+  url: {
+    type: "string",
+    description: "URL substring (case-insensitive), or a regular expression written as /pattern/flags, e.g. '/api/users' or '/\\/api\\/v[12]\\//'"
+  },
+  method: {
+    type: "string",
+    description: "HTTP method, or several separated by commas (e.g., 'POST' or 'POST,PUT,DELETE')"
+  },
+  status: {
+    type: "string",
+    description: "Status class '2xx', '3xx', '4xx' or '5xx', 'failed' (no response: DNS, refused, CORS), 'pending', or an exact code like '404'"
+  },
+  minDuration: {
+    type: "number",
+    description: "Only requests that took at least this many milliseconds"
+  },
+  minSize: {
+    type: "number",
+    description: "Only responses of at least this many bytes"
+  },
+  since: {
+    type: "string",
+    description: "Only requests started after the last navigation or the last interaction (click, fill, ...)",
+    enum: [...SINCE_FILTERS]
+  },
+};
+
+/**
+ * Parses "/pattern/flags" into a RegExp and anything else into a plain substring
+ */
+export function parseTextPattern(value: string): string | RegExp {
+  const match = value.match(/^\/(.+)\/([dgimsuy]*)$/);
+  if (!match) return value;
+  // "g" would make test() stateful between calls
+  return new RegExp(match[1], match[2].replace('g', ''));
+}
+
+/**
+ * Validates the filter arguments. sinceTimestamp resolves the since window.
+ * Throws with a message naming the bad argument.
+ */
+export function parseNetworkFilter(args: NetworkFilterArgs, sinceTimestamp: (since: typeof SINCE_FILTERS[number]) => number): NetworkFilter {
+  const filter: NetworkFilter = {};
+  if (args.type) filter.type = args.type;
+  if (args.url) {
+    try {
+      filter.url = parseTextPattern(args.url);
+    } catch (error) {
+      throw new Error(`Invalid url pattern ${args.url}: ${(error as Error).message}`);
+    }
+  }
+  if (args.method) {
+    filter.methods = args.method.split(',').map(m => m.trim().toUpperCase()).filter(Boolean);
+  }
+  if (args.status !== undefined && args.status !== '') {
+    const status = String(args.status).toLowerCase();
+    if ((STATUS_FILTERS as readonly string[]).includes(status)) {
+      filter.status = status as typeof STATUS_FILTERS[number];
+    } else if (/^\d{3}$/.test(status)) {
+      filter.status = Number(status);
+    } else {
+      throw new Error(`Invalid status filter "${args.status}". Use one of: ${STATUS_FILTERS.join(', ')}, or a code like 404`);
+    }
+  }
+  if (args.minDuration !== undefined) filter.minDuration = args.minDuration;
+  if (args.minSize !== undefined) filter.minSize = args.minSize;
+  if (args.since) {
+    if (!(SINCE_FILTERS as readonly string[]).includes(args.since)) {
+      throw new Error(`Invalid since value "${args.since}". Must be one of: ${SINCE_FILTERS.join(', ')}`);
+    }
+    filter.since = sinceTimestamp(args.since);
+  }
+  return filter;
+}
+
+function matchesStatus(req: NetworkRequest, status: NonNullable<NetworkFilter['status']>): boolean {
+  if (typeof status === 'number') return req.status === status;
+  switch (status) {
+    case 'failed':
+      return Boolean(req.failure) && !req.status;
+    case 'pending':
+      return !req.status && !req.failure;
+    default:
+      return req.status !== undefined && Math.floor(req.status / 100) === Number(status[0]);
+  }
+}
+
+// Response size in bytes, known even when the body was not captured
+export function responseSize(req: NetworkRequest): number | undefined {
+  return req.responseData?.size ?? (req.responseData?.body ? req.responseData.body.length : undefined);
+}
+
+export function matchesNetworkFilter(req: NetworkRequest, filter: NetworkFilter): boolean {
+  if (filter.type && req.resourceType !== filter.type) return false;
+  if (filter.url !== undefined) {
+    const matched = typeof filter.url === 'string'
+      ? req.url.toLowerCase().includes(filter.url.toLowerCase())
+      : filter.url.test(req.url);
+    if (!matched) return false;
+  }
+  if (filter.methods?.length && !filter.methods.includes(req.method.toUpperCase())) return false;
+  if (filter.status !== undefined && !matchesStatus(req, filter.status)) return false;
+  if (filter.minDuration !== undefined && (req.timing ?? 0) < filter.minDuration) return false;
+  if (filter.minSize !== undefined && (responseSize(req) ?? 0) < filter.minSize) return false;
+  if (filter.since !== undefined && req.timestamp < filter.since) return false;
+  return true;
+}
+
+/**
+ * One-line description of the active filters, e.g. "method=POST, status=4xx"
+ */
+export function describeNetworkFilter(args: NetworkFilterArgs): string {
+  return Object.entries(args)
+    .filter(([key, value]) => key in NETWORK_FILTER_PROPERTIES && value !== undefined && value !== '')
+    .map(([key, value]) => `${key}=${value}`)
+    .join(', ');
+}
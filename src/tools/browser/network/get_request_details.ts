@@ -3,6 +3,8 @@ import * as path from 'node:path';
 import type { ToolContext, ToolResponse, ToolMetadata, SessionConfig } from '../../common/types.js';
 import { BrowserToolBase } from '../base.js';
 import { makeConfirmPreview } from '../../common/confirm_output.js';
+import { maskSecrets } from '../../../secrets.js';
+import { resolveRedactionRules } from '../../../redaction.js';
 
 interface GetRequestDetailsArgs {
   index: number;
@@ -12,7 +14,7 @@ export class GetRequestDetailsTool extends BrowserToolBase {
   static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
     return {
       name: "get_request_details",
-      description: "Get detailed information about a specific network request by index (from list_network_requests). Returns request/response headers, body (truncated at 500 chars), timing, and size. Request bodies with passwords are automatically masked. If a request or response body exceeds 500 chars, includes a preview and a one-time confirm_output token that, when called, saves the full body to disk under ./.mcp-web-inspector/network-bodies/ and returns the file path(s). Essential for debugging API responses and investigating failed requests.",
+      description: "Get detailed information about a specific network request by index (from list_network_requests). Returns request/response headers, body (truncated at 500 chars), timing, and size. Credential headers, body fields (passwords, tokens) and token-like values are redacted by the server's redaction rules, and the response says how many values were hidden. If a request or response body exceeds 500 chars, includes a preview and a one-time confirm_output token that, when called, saves the full body to disk under ./.mcp-web-inspector/network-bodies/ and returns the file path(s). Essential for debugging API responses and investigating failed requests.",
       inputSchema: {
         type: "object",
         properties: {
@@ -23,6 +25,30 @@ export class GetRequestDetailsTool extends BrowserToolBase {
         },
         required: ["index"],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          index: { type: "number" },
+          method: { type: "string" },
+          url: { type: "string" },
+          resourceType: { type: "string" },
+          status: { type: ["number", "null"], description: "null while pending, when aborted or when failed" },
+          statusText: { type: ["string", "null"] },
+          failure: { type: ["string", "null"], description: "Network error of a failed request" },
+          timingMs: { type: ["number", "null"] },
+          mockedRouteId: { type: ["number", "null"] },
+          requestHeaders: { type: "object", additionalProperties: { type: "string" }, description: "All request headers, redacted" },
+          responseHeaders: { type: ["object", "null"], additionalProperties: { type: "string" }, description: "All response headers, redacted; null without a response" },
+          requestBody: { type: ["string", "null"], description: "Redacted request body, first 500 chars" },
+          responseBody: { type: ["string", "null"], description: "Redacted response body, first 500 chars" },
+          requestBodySize: { type: "number" },
+          responseBodySize: { type: "number" },
+          bodyTruncated: { type: "boolean", description: "A body is longer than shown; confirm_output saves it in full" },
+          responseBodyOmitted: { type: ["string", "null"], description: "Why the response body was not captured (binary, over the size limit)" },
+          redacted: { type: "number", description: "Values hidden by the redaction rules" },
+        },
+        required: ["index", "method", "url", "status", "requestHeaders", "responseHeaders", "requestBody", "responseBody", "redacted"],
+      },
     };
   }
 
@@ -30,22 +56,35 @@ export class GetRequestDetailsTool extends BrowserToolBase {
     return this.safeExecute(context, async () => {
       const { index } = args;
 
-      const { getNetworkLog, getSessionConfig } = await import('../../../toolHandler.js');
+      const { getNetworkLog, findNetworkRequest, getNetworkCaptureLimits, getSessionConfig, findMockRoute, createRedactor } = await import('../../../toolHandler.js');
       const networkLog = getNetworkLog();
-      const sessionConfig = getSessionConfig();
-      const exposeSensitive = Boolean(sessionConfig?.exposeSensitiveNetworkData);
+      const redactor = createRedactor('network');
+      // Headers configured under redaction.headers are always listed, masked like credentials
+      const extraSensitive = (getSessionConfig()?.redaction?.headers ?? []).map(h => h.toLowerCase());
+      const sensitiveHeaders = resolveRedactionRules(getSessionConfig()?.redaction).headers.map(h => h.toLowerCase());
 
-      if (index < 0 || index >= networkLog.length) {
+      const req = findNetworkRequest(index);
+      if (req === 'evicted') {
+        return {
+          content: [{
+            type: "text",
+            text: `Error: Request [${index}] is no longer in the network log (it keeps the last ${getNetworkCaptureLimits().logSize} requests per tab; raise network.logSize in web-inspector.config.json to keep more). Oldest kept: [${networkLog[0]?.index}]`
+          }],
+          isError: true
+        };
+      }
+      if (!req) {
         return {
           content: [{
             type: "text",
-            text: `Error: Invalid index ${index}. Valid range: 0-${networkLog.length - 1}`
+            text: `Error: Invalid index ${index}. Valid range: ${networkLog.length ? `${networkLog[0].index}-${networkLog[networkLog.length - 1].index}` : 'none (no requests captured)'}`
           }],
           isError: true
         };
       }
 
-      const req = networkLog[index];
+      const requestBody = redactor.body(req.requestData.postData);
+      const responseBody = redactor.body(req.responseData?.body);
 
       // Helper to look up headers case-insensitively
       const getHeader = (headers: Record<string, string> | undefined, key: string): string | undefined => {
@@ -61,21 +100,31 @@ export class GetRequestDetailsTool extends BrowserToolBase {
       const lines: string[] = [];
 
       lines.push(`Request Details [${index}]:\n`);
-      lines.push(`${req.method} ${req.url}`);
+      const url = redactor.url(req.url);
+      lines.push(`${req.method} ${url}`);
 
       if (req.status) {
         lines.push(`Status: ${req.status} ${req.statusText || 'OK'} (took ${req.timing}ms)`);
+      } else if (req.mocked?.action === 'abort') {
+        lines.push(`Status: Aborted by mock route`);
+      } else if (req.failure) {
+        lines.push(`Status: Failed (${req.failure}) after ${req.timing}ms`);
       } else {
         lines.push(`Status: Pending (no response yet)`);
       }
 
+      if (req.mocked) {
+        const route = findMockRoute(req.mocked.routeId);
+        const pattern = route ? ` (${route.pattern})` : ' (removed)';
+        lines.push(`Mocked: route #${req.mocked.routeId}${pattern}, action ${req.mocked.action}`);
+      }
+
       // Calculate sizes
       const requestSize = req.requestData.postData
         ? req.requestData.postData.length
         : 0;
-      const responseSize = req.responseData?.body
-        ? req.responseData.body.length
-        : 0;
+      const responseSize = req.responseData?.size
+        ?? (req.responseData?.body ? req.responseData.body.length : 0);
 
       const formatBytes = (bytes: number) => {
         if (bytes === 0) return '0 bytes';
@@ -89,8 +138,24 @@ export class GetRequestDetailsTool extends BrowserToolBase {
         lines.push(`Size: requestBody=${reqPart}, responseBody≈${respPart}`);
       }
 
+      const formatHeader = (key: string, value: string): string => {
+        if (redactor.isSensitiveHeader(key)) {
+          const redacted = redactor.headerValue(key, value);
+          // Keep the auth scheme (Bearer, Basic) visible; it is not the credential
+          const scheme = key.toLowerCase() === 'authorization' && value.includes(' ') ? value.split(' ')[0] : '';
+          return `  ${key}: ${scheme ? `${scheme} ${redacted}` : redacted}`;
+        }
+        if (!redactor.enabled && sensitiveHeaders.includes(key.toLowerCase())) {
+          const truncated = value.length > 60
+            ? value.substring(0, 57) + '...'
+            : value;
+          return `  ${key}: ${truncated}`;
+        }
+        return `  ${key}: ${redactor.headerValue(key, value)}`;
+      };
+
       // Request headers (show important ones)
-      const importantRequestHeaders = ['content-type', 'authorization', 'cookie', 'user-agent', 'accept'];
+      const importantRequestHeaders = ['content-type', 'authorization', 'cookie', 'user-agent', 'accept', ...extraSensitive];
       const reqHeaders = Object.entries(req.requestData.headers)
         .filter(([key]) => importantRequestHeaders.includes(key.toLowerCase()));
 
@@ -107,38 +172,16 @@ export class GetRequestDetailsTool extends BrowserToolBase {
             if (oa !== ob) return oa - ob;
             return a.localeCompare(b);
           })
-          .forEach(([key, value]) => {
-            const keyLower = key.toLowerCase();
-            if (keyLower === 'authorization' || keyLower === 'cookie') {
-              if (!exposeSensitive) {
-                if (keyLower === 'authorization') {
-                  const scheme = value.split(' ')[0] || '';
-                  lines.push(`  ${key}: ${scheme ? `${scheme} <redacted>` : '<redacted>'}`);
-                } else {
-                  lines.push(`  ${key}: <redacted>`);
-                }
-              } else {
-                const truncated = value.length > 60
-                  ? value.substring(0, 57) + '...'
-                  : value;
-                lines.push(`  ${key}: ${truncated}`);
-              }
-            } else {
-              lines.push(`  ${key}: ${value}`);
-            }
-          });
+          .forEach(([key, value]) => lines.push(formatHeader(key, value)));
       }
 
       // Request body
-      if (req.requestData.postData) {
+      if (requestBody) {
         lines.push('\nRequest Body:');
 
-        // Mask passwords in JSON
-        let displayData = req.requestData.postData;
+        let displayData = requestBody;
         try {
           const parsed = JSON.parse(displayData);
-          if (parsed.password) parsed.password = '***';
-          if (parsed.pass) parsed.pass = '***';
           const compact = JSON.stringify(parsed);
           const pretty = JSON.stringify(parsed, null, 2);
           // Pretty-print small JSON bodies for readability; keep large ones compact
@@ -160,7 +203,7 @@ export class GetRequestDetailsTool extends BrowserToolBase {
       }
 
       // Response headers (show important ones)
-      const importantResponseHeaders = ['content-type', 'set-cookie', 'cache-control', 'location', 'x-cache'];
+      const importantResponseHeaders = ['content-type', 'set-cookie', 'cache-control', 'location', 'x-cache', ...extraSensitive];
       const respHeaders = req.responseData?.headers
         ? Object.entries(req.responseData.headers)
             .filter(([key]) => importantResponseHeaders.includes(key.toLowerCase()))
@@ -179,28 +222,14 @@ export class GetRequestDetailsTool extends BrowserToolBase {
             if (oa !== ob) return oa - ob;
             return a.localeCompare(b);
           })
-          .forEach(([key, value]) => {
-            const keyLower = key.toLowerCase();
-            if (keyLower === 'set-cookie') {
-              if (!exposeSensitive) {
-                lines.push(`  ${key}: <redacted>`);
-              } else {
-                const truncated = value.length > 60
-                  ? value.substring(0, 57) + '...'
-                  : value;
-                lines.push(`  ${key}: ${truncated}`);
-              }
-            } else {
-              lines.push(`  ${key}: ${value}`);
-            }
-          });
+          .forEach(([key, value]) => lines.push(formatHeader(key, value)));
       }
 
       // Response body
-      if (req.responseData?.body) {
+      if (responseBody) {
         lines.push('\nResponse Body (truncated at 500 chars):');
 
-        const rawBody = req.responseData.body;
+        const rawBody = responseBody;
         let displayBody = rawBody;
 
         // Pretty-print small JSON responses for readability; keep large ones compact
@@ -225,12 +254,18 @@ export class GetRequestDetailsTool extends BrowserToolBase {
           lines.push(`  ${displayBody}`);
         }
       } else if (req.status) {
-        lines.push('\nResponse Body: (none or binary data)');
+        lines.push(`\nResponse Body: ${req.responseData?.bodyOmitted ? `(not captured: ${req.responseData.bodyOmitted})` : '(none or binary data)'}`);
+      }
+
+      const summary = redactor.summary();
+      if (summary) {
+        lines.push('');
+        lines.push(summary);
       }
 
       // If either request or response body was truncated, provide a confirm_output token
-      const reqBody = req.requestData.postData || '';
-      const respBody = req.responseData?.body || '';
+      const reqBody = requestBody || '';
+      const respBody = responseBody || '';
       const reqTruncated = typeof reqBody === 'string' && reqBody.length > 500;
       const respTruncated = typeof respBody === 'string' && respBody.length > 500;
 
@@ -263,14 +298,14 @@ export class GetRequestDetailsTool extends BrowserToolBase {
           if (respTruncated) {
             const ext = inferExt(respContentType);
             const respFile = path.join(outDir, `${ts}-${index}-${makeSafe(req.method)}-${host}.response.${ext}`);
-            fs.writeFileSync(respFile, respBody, 'utf8');
+            fs.writeFileSync(respFile, maskSecrets(respBody), 'utf8');
             messages.push(`✓ Saved full response body to: ${path.relative(process.cwd(), respFile)} (${respBody.length} bytes${respContentType ? `, content-type: ${respContentType}` : ''})`);
           }
 
           if (reqTruncated) {
             const ext = inferExt(reqContentType);
             const reqFile = path.join(outDir, `${ts}-${index}-${makeSafe(req.method)}-${host}.request.${ext}`);
-            fs.writeFileSync(reqFile, reqBody, 'utf8');
+            fs.writeFileSync(reqFile, maskSecrets(reqBody), 'utf8');
             messages.push(`✓ Saved full request body to: ${path.relative(process.cwd(), reqFile)} (${reqBody.length} bytes${reqContentType ? `, content-type: ${reqContentType}` : ''})`);
           }
 
@@ -301,11 +336,36 @@ export class GetRequestDetailsTool extends BrowserToolBase {
         lines.push(...preview.lines);
       }
 
+      // All headers for structured output; a separate redactor keeps the reported count in line with the text
+      const headerRedactor = createRedactor('network');
+      const allHeaders = (headers: Record<string, string>) =>
+        Object.fromEntries(Object.entries(headers).map(([key, value]) => [key, headerRedactor.headerValue(key, String(value))]));
+
       return {
         content: [{
           type: "text",
           text: lines.join('\n')
         }],
+        structuredContent: {
+          index: req.index,
+          method: req.method,
+          url,
+          resourceType: req.resourceType,
+          status: req.status ?? null,
+          statusText: req.statusText ?? null,
+          failure: req.failure ?? null,
+          timingMs: req.timing ?? null,
+          mockedRouteId: req.mocked?.routeId ?? null,
+          requestHeaders: allHeaders(req.requestData.headers),
+          responseHeaders: req.responseData ? allHeaders(req.responseData.headers) : null,
+          requestBody: requestBody ? requestBody.substring(0, 500) : null,
+          responseBody: responseBody ? responseBody.substring(0, 500) : null,
+          requestBodySize: requestSize,
+          responseBodySize: responseSize,
+          bodyTruncated: reqTruncated || respTruncated,
+          responseBodyOmitted: req.responseData?.bodyOmitted ?? null,
+          redacted: redactor.count,
+        },
         isError: false
       };
     });
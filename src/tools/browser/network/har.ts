@@ -0,0 +1,160 @@
+import type { NetworkRequest } from '../../../toolHandler.js';
+import { Redactor, DEFAULT_REDACTION_RULES } from '../../../redaction.js';
+
+// Minimal HAR 1.2 types (http://www.softwareishard.com/blog/har-12-spec/)
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+    comment?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: { size: number; mimeType: string; text?: string; comment?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { blocked: number; dns: number; connect: number; send: number; wait: number; receive: number; ssl: number };
+  _resourceType?: string;
+  _mocked?: string;
+}
+
+export interface Har {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+export interface BuildHarOptions {
+  creatorVersion: string;
+  // Applied to URLs, headers and bodies; counts what it hid
+  redactor?: Redactor;
+  // Without a redactor: when false, the default redaction rules apply
+  exposeSensitive?: boolean;
+  // When false, URLs are kept as captured so replay_har can match them (default: true)
+  redactUrls?: boolean;
+}
+
+export const REDACTED_URL_COMMENT = 'URL values redacted; this entry will not match on replay';
+
+// Captured bodies are already decoded, so encoding/length headers would not match them
+const BODY_ENCODING_HEADERS = new Set(['content-encoding', 'content-length']);
+
+function toNameValues(headers: Record<string, string> | undefined, redactor: Redactor, skip?: Set<string>): HarNameValue[] {
+  return Object.entries(headers || {}).filter(([name]) => !skip?.has(name.toLowerCase())).map(([name, value]) => ({
+    name,
+    value: redactor.headerValue(name, String(value)),
+  }));
+}
+
+function headerValue(headers: Record<string, string> | undefined, key: string): string | undefined {
+  const found = Object.entries(headers || {}).find(([k]) => k.toLowerCase() === key);
+  return found ? String(found[1]) : undefined;
+}
+
+function queryString(url: string): HarNameValue[] {
+  try {
+    return [...new URL(url).searchParams.entries()].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Converts a captured network log into a HAR 1.2 document.
+ * Requests without a response (pending, aborted) are left out: HAR requires a
+ * response for every entry and replaying a status-less entry would fail.
+ */
+export function buildHar(networkLog: NetworkRequest[], options: BuildHarOptions): Har {
+  const redactor = options.redactor ?? new Redactor(DEFAULT_REDACTION_RULES, !options.exposeSensitive);
+
+  const entries = networkLog.filter(req => req.status).map((req): HarEntry => {
+    const redactUrls = options.redactUrls !== false;
+    const url = redactUrls ? redactor.url(req.url) : req.url;
+    const location = headerValue(req.responseData?.headers, 'location') || '';
+    const postData = redactor.body(req.requestData.postData);
+    const responseBody = redactor.body(req.responseData?.body);
+    const mimeType = headerValue(req.responseData?.headers, 'content-type') || 'x-unknown';
+    const time = req.timing ?? 0;
+
+    const entry: HarEntry = {
+      startedDateTime: new Date(req.timestamp).toISOString(),
+      time,
+      request: {
+        method: req.method,
+        url,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: toNameValues(req.requestData.headers, redactor),
+        queryString: queryString(url),
+        headersSize: -1,
+        bodySize: postData ? Buffer.byteLength(postData) : 0,
+      },
+      response: {
+        status: req.status!,
+        statusText: req.statusText ?? '',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: toNameValues(req.responseData?.headers, redactor, BODY_ENCODING_HEADERS),
+        content: {
+          size: responseBody !== null ? Buffer.byteLength(responseBody) : req.responseData?.size ?? 0,
+          mimeType,
+          ...(responseBody !== null ? { text: responseBody } : {}),
+          ...(req.responseData?.bodyOmitted ? { comment: `Body not captured: ${req.responseData.bodyOmitted}` } : {}),
+        },
+        redirectURL: redactUrls ? redactor.url(location) : location,
+        headersSize: -1,
+        bodySize: responseBody !== null ? Buffer.byteLength(responseBody) : -1,
+      },
+      cache: {},
+      // Only the total duration is captured; report it as waiting time
+      timings: { blocked: -1, dns: -1, connect: -1, send: 0, wait: time, receive: 0, ssl: -1 },
+      _resourceType: req.resourceType,
+    };
+
+    if (postData) {
+      entry.request.postData = {
+        mimeType: headerValue(req.requestData.headers, 'content-type') || 'application/octet-stream',
+        text: postData,
+      };
+    }
+    if (url !== req.url) {
+      // replay_har matches requests by URL, so this entry no longer replays
+      entry.request.comment = REDACTED_URL_COMMENT;
+    }
+    if (req.mocked) {
+      entry._mocked = `route #${req.mocked.routeId} (${req.mocked.action})`;
+    }
+    return entry;
+  });
+
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'mcp-web-inspector', version: options.creatorVersion },
+      entries,
+    },
+  };
+}
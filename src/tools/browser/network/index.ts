@@ -1,2 +1,8 @@
 export { ListNetworkRequestsTool } from './list_network_requests.js';
 export { GetRequestDetailsTool } from './get_request_details.js';
+export { SearchNetworkBodiesTool } from './search_network_bodies.js';
+export { MockRouteTool } from './mock_route.js';
+export { UnmockRouteTool } from './unmock_route.js';
+export { ListRoutesTool } from './list_routes.js';
+export { ExportHarTool } from './export_har.js';
+export { ReplayHarTool } from './replay_har.js';
@@ -1,8 +1,9 @@
-import type { ToolContext, ToolResponse, ToolMetadata, SessionConfig } from '../../common/types.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createErrorResponse } from '../../common/types.js';
 import { BrowserToolBase } from '../base.js';
+import { formatSize } from './capture.js';
+import { NETWORK_FILTER_PROPERTIES, NetworkFilter, NetworkFilterArgs, describeNetworkFilter, matchesNetworkFilter, parseNetworkFilter, responseSize } from './filters.js';
 
-interface ListNetworkRequestsArgs {
-  type?: string;
+interface ListNetworkRequestsArgs extends NetworkFilterArgs {
   limit?: number;
 }
 
@@ -10,14 +11,11 @@ export class ListNetworkRequestsTool extends BrowserToolBase {
   static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
     return {
       name: "list_network_requests",
-      description: "List recent network requests captured by the browser. Returns compact text format with method, URL, status, resource type, timing, and size. Essential for debugging API calls and performance issues. Use get_request_details() to inspect full headers and body for specific requests.",
+      description: "List recent network requests captured by the browser. Returns compact text format with method, URL, status, resource type, timing, and size. Requests that got no response show 'failed (<error>)', e.g. 'failed (net::ERR_CONNECTION_REFUSED)'. Requests intercepted by mock_route are marked 'mocked #<routeId>'. Filter by URL substring or /regex/, method, status class ('4xx', '5xx', 'failed'), minimum duration or size, and since the last navigation/interaction. Essential for debugging API calls and performance issues. Use get_request_details() to inspect full headers and body for specific requests, and search_network_bodies() to find requests by body content.",
       inputSchema: {
         type: "object",
         properties: {
-          type: {
-            type: "string",
-            description: "Filter by resource type: 'xhr', 'fetch', 'script', 'stylesheet', 'image', 'font', 'document', etc. Omit to show all types."
-          },
+          ...NETWORK_FILTER_PROPERTIES,
           limit: {
             type: "number",
             description: "Maximum number of requests to return, most recent first (default: 50)"
@@ -25,43 +23,88 @@ export class ListNetworkRequestsTool extends BrowserToolBase {
         },
         required: [],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          total: { type: "number", description: "Requests captured in this tab" },
+          matched: { type: "number", description: "Requests matching the filters, before limit" },
+          redacted: { type: "number", description: "Values in URLs hidden by the redaction rules" },
+          requests: {
+            type: "array",
+            description: "Matching requests, most recent first",
+            items: {
+              type: "object",
+              properties: {
+                index: { type: "number", description: "Pass to get_request_details" },
+                method: { type: "string" },
+                url: { type: "string" },
+                resourceType: { type: "string" },
+                status: { type: ["number", "null"], description: "null while pending, when aborted or when failed" },
+                failure: { type: ["string", "null"], description: "Network error of a failed request, e.g. net::ERR_NAME_NOT_RESOLVED" },
+                statusText: { type: "string" },
+                timingMs: { type: ["number", "null"] },
+                sizeBytes: { type: ["number", "null"] },
+                cached: { type: "boolean" },
+                mockedRouteId: { type: ["number", "null"] },
+              },
+              required: ["index", "method", "url", "resourceType", "status"],
+            },
+          },
+        },
+        required: ["total", "requests"],
+      },
     };
   }
 
   async execute(args: ListNetworkRequestsArgs, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async () => {
-      const { type, limit = 50 } = args;
+      const { getNetworkLog, getOutputLimits, getNetworkCaptureLimits, getLastActionTimestamp, createRedactor } = await import('../../../toolHandler.js');
+      const { limit = getOutputLimits().networkRequestLimit } = args;
+
+      let filter: NetworkFilter;
+      try {
+        filter = parseNetworkFilter(args, since => getLastActionTimestamp(since === 'last-navigation' ? 'navigation' : 'interaction'));
+      } catch (error) {
+        return createErrorResponse((error as Error).message);
+      }
+      const filterText = describeNetworkFilter(args);
 
-      const { getNetworkLog } = await import('../../../toolHandler.js');
       const networkLog = getNetworkLog();
-
-      // Filter by resource type if specified
-      let filtered = type
-        ? networkLog.filter(req => req.resourceType === type)
-        : networkLog;
+      const matched = networkLog.filter(req => matchesNetworkFilter(req, filter));
 
       // Get most recent requests (reverse chronological)
-      filtered = filtered.slice(-limit).reverse();
+      const filtered = matched.slice(-limit).reverse();
 
       if (filtered.length === 0) {
+        const onlyType = args.type && filterText === `type=${args.type}`;
         return {
           content: [{
             type: "text",
-            text: type
-              ? `No network requests found for type: ${type}`
-              : "No network requests captured yet"
+            text: networkLog.length === 0
+              ? "No network requests captured yet"
+              : onlyType
+                ? `No network requests found for type: ${args.type}`
+                : `No network requests match ${filterText} (${networkLog.length} captured)`
           }],
+          structuredContent: { total: networkLog.length, matched: 0, requests: [] },
           isError: false
         };
       }
 
+      const redactor = createRedactor('network');
+
       // Format output in compact text format
-      const lines = [`Network Requests (${filtered.length} of ${networkLog.length}, recent first):\n`];
+      const counts = filterText
+        ? `${filtered.length} of ${matched.length} matching ${filterText}; ${networkLog.length} captured`
+        : `${filtered.length} of ${networkLog.length}`;
+      const lines = [`Network Requests (${counts}, recent first):\n`];
+      const rows: Record<string, unknown>[] = [];
 
       filtered.forEach(req => {
         const statusInfo = req.status
           ? `${req.status} ${req.statusText || 'OK'}`
-          : 'pending';
+          : req.mocked?.action === 'abort' ? 'aborted'
+          : req.failure ? `failed (${req.failure})` : 'pending';
 
         const timing = req.timing ? `${req.timing}ms` : '...';
 
@@ -71,21 +114,16 @@ export class ListNetworkRequestsTool extends BrowserToolBase {
                       ? 'cached'
                       : '';
 
-        // Get response size
-        let sizeInfo = '';
-        if (req.responseData?.body) {
-          const bytes = req.responseData.body.length;
-          if (bytes < 1024) {
-            sizeInfo = `${bytes}B`;
-          } else {
-            sizeInfo = `${(bytes / 1024).toFixed(1)}KB`;
-          }
-        }
+        const url = redactor.url(req.url);
+
+        // Get response size (known even when the body was not captured)
+        const bytes = responseSize(req);
+        const sizeInfo = bytes ? formatSize(bytes) : '';
 
         const parts = [
           `[${req.index}]`,
           req.method,
-          req.url.length > 80 ? req.url.substring(0, 77) + '...' : req.url,
+          url.length > 80 ? url.substring(0, 77) + '...' : url,
           statusInfo,
           '|',
           req.resourceType,
@@ -95,10 +133,29 @@ export class ListNetworkRequestsTool extends BrowserToolBase {
 
         if (sizeInfo) parts.push('|', sizeInfo);
         if (cached) parts.push('|', cached);
+        if (req.mocked) parts.push('|', `mocked #${req.mocked.routeId}`);
 
         lines.push(parts.join(' '));
+        rows.push({
+          index: req.index,
+          method: req.method,
+          url,
+          resourceType: req.resourceType,
+          status: req.status ?? null,
+          statusText: req.statusText || '',
+          failure: req.failure ?? null,
+          timingMs: req.timing ?? null,
+          sizeBytes: bytes ?? null,
+          cached: Boolean(cached),
+          mockedRouteId: req.mocked?.routeId ?? null,
+        });
       });
 
+      const summary = redactor.summary();
+      if (summary) lines.push(`\n${summary}`);
+      if (networkLog[0]?.index > 0) {
+        lines.push(`\nRequests [0-${networkLog[0].index - 1}] were dropped from the log (it keeps the last ${getNetworkCaptureLimits().logSize} per tab)`);
+      }
       lines.push('\nUse get_request_details(index) for full info (indices are 0-based from this list)');
 
       return {
@@ -106,6 +163,7 @@ export class ListNetworkRequestsTool extends BrowserToolBase {
           type: "text",
           text: lines.join('\n')
         }],
+        structuredContent: { total: networkLog.length, matched: matched.length, requests: rows, redacted: redactor.count },
         isError: false
       };
     });
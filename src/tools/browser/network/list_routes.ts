@@ -0,0 +1,95 @@
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse } from '../../common/types.js';
+import { describeMockRoute } from './mock_route.js';
+
+/**
+ * Tool for listing active mock routes
+ */
+export class ListRoutesTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "list_routes",
+      description: "List active mock routes of the selected browser context with their action, pattern, response and hit count, plus the HAR file being replayed (replay_har), if any.",
+      exampleOutputs: [
+        {
+          call: "list_routes({})",
+          output: `Mock routes (2):\n  #1 fulfill ANY **/api/users → 500 application/json (27B), hits 3\n  #2 delay GET /\\/api\\/search/, delay 5000ms, hits 0`
+        }
+      ],
+      inputSchema: {
+        type: "object",
+        properties: {},
+        required: [],
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          routes: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "number" },
+                action: { type: "string", enum: ["fulfill", "abort", "delay"] },
+                pattern: { type: "string" },
+                method: { type: ["string", "null"] },
+                status: { type: ["number", "null"] },
+                contentType: { type: ["string", "null"] },
+                abortCode: { type: ["string", "null"] },
+                delayMs: { type: ["number", "null"] },
+                times: { type: ["number", "null"], description: "Only the first N matching requests are intercepted; null when unlimited" },
+                hits: { type: "number" },
+              },
+              required: ["id", "action", "pattern", "hits"],
+            },
+          },
+          harReplay: {
+            type: ["object", "null"],
+            properties: {
+              path: { type: "string" },
+              url: { type: ["string", "null"] },
+              notFound: { type: "string", enum: ["abort", "fallback"] },
+            },
+          },
+        },
+        required: ["routes", "harReplay"],
+      },
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async () => {
+      const { listMockRoutes, getHarReplay } = await import('../../../toolHandler.js');
+      const routes = listMockRoutes();
+      const replay = getHarReplay();
+
+      const lines: string[] = [];
+      if (routes.length === 0) {
+        lines.push("No mock routes registered");
+      } else {
+        lines.push(`Mock routes (${routes.length}):`);
+        for (const route of routes) {
+          lines.push(`  #${route.id} ${describeMockRoute(route)}`);
+        }
+      }
+      if (replay) {
+        lines.push(`HAR replay: ${replay.path} (${replay.url || 'all requests'}, not found: ${replay.notFound})`);
+      }
+      return createSuccessResponse(lines.join('\n'), {
+        routes: routes.map(route => ({
+          id: route.id,
+          action: route.action,
+          pattern: route.pattern,
+          method: route.method ?? null,
+          status: route.status ?? null,
+          contentType: route.contentType ?? null,
+          abortCode: route.abortCode ?? null,
+          delayMs: route.delayMs ?? null,
+          times: route.times ?? null,
+          hits: route.hits,
+        })),
+        harReplay: replay ? { path: replay.path, url: replay.url ?? null, notFound: replay.notFound } : null,
+      });
+    });
+  }
+}
@@ -0,0 +1,147 @@
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse, createErrorResponse } from '../../common/types.js';
+
+interface MockRouteArgs {
+  url: string;
+  method?: string;
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  contentType?: string;
+  abort?: boolean | string;
+  delayMs?: number;
+  times?: number;
+}
+
+const ABORT_CODES = [
+  'aborted', 'accessdenied', 'addressunreachable', 'blockedbyclient', 'blockedbyresponse',
+  'connectionaborted', 'connectionclosed', 'connectionfailed', 'connectionrefused', 'connectionreset',
+  'internetdisconnected', 'namenotresolved', 'timedout', 'failed',
+];
+
+/**
+ * Tool for mocking, aborting or delaying network requests
+ */
+export class MockRouteTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "mock_route",
+      description: "Intercept requests matching a URL pattern and fulfill them with a canned status/headers/body, abort them, or delay them. Reproduce error states (500, 404, timeouts, slow APIs) without touching the backend. Applies to all tabs of the selected browser context until removed with unmock_route. Mocked hits are marked 'mocked' in list_network_requests. Routes affect requests made after registration; reload the page to apply them to initial loads.",
+      outputs: [
+        "Route #<id> registered: <action> <METHOD> <pattern> with response summary",
+        "Tip to trigger the request (reload/navigate) and verify via list_network_requests",
+      ],
+      examples: [
+        "mock_route({ url: '**/api/users', status: 500, body: { error: 'Internal error' } })",
+        "mock_route({ url: '/\\\\/api\\\\/search\\\\?q=/', delayMs: 5000 })",
+        "mock_route({ url: '**/api/orders', method: 'POST', abort: 'connectionrefused' })",
+      ],
+      inputSchema: {
+        type: "object",
+        properties: {
+          url: {
+            type: "string",
+            description: "URL pattern: Playwright glob (e.g. '**/api/users*') or regex literal '/pattern/flags' (e.g. '/\\\\/api\\\\/v\\\\d+\\\\//')"
+          },
+          method: { type: "string", description: "Only intercept this HTTP method (e.g. 'POST'). Default: all methods" },
+          status: { type: "number", description: "Status code to respond with (default: 200 when body is given)" },
+          headers: { type: "object", description: "Response headers to return" },
+          body: { description: "Response body. Objects/arrays are sent as JSON (content-type application/json); strings are sent as-is" },
+          contentType: { type: "string", description: "Response content-type (default: application/json for object bodies, text/plain for strings)" },
+          abort: { description: "Abort matching requests instead of responding: true or a network error code (failed, timedout, connectionrefused, namenotresolved, internetdisconnected, ...)" },
+          delayMs: { type: "number", description: "Delay before responding/aborting, or before letting the request continue when no response is given (simulate slow APIs)" },
+          times: { type: "number", description: "Only intercept the first N matching requests (default: unlimited)" },
+        },
+        required: ["url"],
+      },
+    };
+  }
+
+  async execute(args: MockRouteArgs, context: ToolContext): Promise<ToolResponse> {
+    if (typeof args.url !== 'string' || !args.url.trim()) {
+      return createErrorResponse("url pattern is required");
+    }
+
+    let abortCode: string | undefined;
+    if (args.abort) {
+      abortCode = typeof args.abort === 'string' ? args.abort.toLowerCase() : 'failed';
+      if (!ABORT_CODES.includes(abortCode)) {
+        return createErrorResponse(`Invalid abort code "${args.abort}". Use one of: ${ABORT_CODES.join(', ')}`);
+      }
+    }
+
+    const hasResponse = args.status !== undefined || args.body !== undefined;
+    if (!abortCode && !hasResponse && !args.delayMs) {
+      return createErrorResponse("Nothing to mock: provide status/body to fulfill, abort to fail the request, or delayMs to slow it down.");
+    }
+
+    let body: string | undefined;
+    let contentType = args.contentType;
+    if (args.body !== undefined) {
+      if (typeof args.body === 'string') {
+        body = args.body;
+        contentType = contentType || 'text/plain';
+      } else {
+        body = JSON.stringify(args.body);
+        contentType = contentType || 'application/json';
+      }
+    }
+
+    return this.safeExecute(context, async () => {
+      const { addMockRoute } = await import('../../../toolHandler.js');
+
+      let route;
+      try {
+        route = await addMockRoute({
+          pattern: args.url.trim(),
+          method: args.method,
+          status: hasResponse ? (args.status ?? 200) : undefined,
+          headers: args.headers,
+          body,
+          contentType,
+          abortCode,
+          delayMs: args.delayMs,
+          times: args.times,
+        });
+      } catch (error) {
+        const message = (error as Error).message;
+        if (message.includes('Invalid regular expression')) {
+          return createErrorResponse(`Invalid regex pattern: ${message}`);
+        }
+        throw error;
+      }
+
+      const lines = [`Route #${route.id} registered: ${describeMockRoute(route)}`];
+      lines.push('Trigger the request (e.g., navigate/reload or click), then check list_network_requests for "mocked" entries.');
+      return createSuccessResponse(lines);
+    });
+  }
+}
+
+/**
+ * One-line description of a mock route, e.g. "fulfill GET **\/api/users → 500 application/json (27B), delay 2000ms"
+ */
+export function describeMockRoute(route: {
+  action: string;
+  method?: string;
+  pattern: string;
+  status?: number;
+  contentType?: string;
+  body?: string;
+  abortCode?: string;
+  delayMs?: number;
+  times?: number;
+  hits?: number;
+}): string {
+  const parts = [`${route.action} ${route.method || 'ANY'} ${route.pattern}`];
+  if (route.action === 'fulfill') {
+    const bodyInfo = route.body !== undefined ? ` (${route.body.length}B)` : '';
+    parts[0] += ` → ${route.status}${route.contentType ? ` ${route.contentType}` : ''}${bodyInfo}`;
+  } else if (route.action === 'abort') {
+    parts[0] += ` → ${route.abortCode}`;
+  }
+  if (route.delayMs) parts.push(`delay ${route.delayMs}ms`);
+  if (route.times !== undefined) parts.push(`times ${route.times}`);
+  if (route.hits !== undefined) parts.push(`hits ${route.hits}`);
+  return parts.join(', ');
+}
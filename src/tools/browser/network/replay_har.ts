@@ -0,0 +1,94 @@
+import fs from 'node:fs';
+import * as path from 'node:path';
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse, createErrorResponse } from '../../common/types.js';
+
+interface ReplayHarArgs {
+  path?: string;
+  url?: string;
+  notFound?: 'abort' | 'fallback';
+  stop?: boolean;
+}
+
+/**
+ * Tool for serving responses from a HAR file
+ */
+export class ReplayHarTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "replay_har",
+      description: "Serve network responses of the selected browser context from a HAR file (e.g. one written by export_har) to reproduce a recorded session offline. Requests are matched by URL and method (and POST body). Use stop: true to go back to the live network. Mock routes from mock_route still take precedence.",
+      examples: [
+        "replay_har({ path: '.mcp-web-inspector/har/checkout-bug.har' })",
+        "replay_har({ path: 'fixtures/api.har', url: '**/api/**', notFound: 'abort' })",
+        "replay_har({ stop: true })",
+      ],
+      inputSchema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "Path to the .har file (relative to the working directory)"
+          },
+          url: {
+            type: "string",
+            description: "Only serve requests matching this glob or '/regex/flags' from the HAR (default: all requests)"
+          },
+          notFound: {
+            type: "string",
+            enum: ["fallback", "abort"],
+            description: "What to do with requests missing from the HAR: 'fallback' sends them to the network (default), 'abort' fails them (fully offline)"
+          },
+          stop: {
+            type: "boolean",
+            description: "Stop replaying and use the live network again"
+          }
+        },
+        required: [],
+      },
+    };
+  }
+
+  async execute(args: ReplayHarArgs, context: ToolContext): Promise<ToolResponse> {
+    if (!args.stop && !args.path) {
+      return createErrorResponse("Provide path to a .har file, or stop: true to end the replay.");
+    }
+    if (args.notFound && !['fallback', 'abort'].includes(args.notFound)) {
+      return createErrorResponse(`Invalid notFound "${args.notFound}". Use 'fallback' or 'abort'.`);
+    }
+
+    return this.safeExecute(context, async () => {
+      const { startHarReplay, stopHarReplay } = await import('../../../toolHandler.js');
+
+      if (args.stop) {
+        const stopped = await stopHarReplay();
+        return createSuccessResponse(stopped
+          ? `Stopped replaying ${stopped.path}; requests go to the network again`
+          : "No HAR replay active");
+      }
+
+      const harPath = path.resolve(args.path!);
+      if (!fs.existsSync(harPath)) {
+        return createErrorResponse(`HAR file not found: ${args.path}`);
+      }
+
+      let entryCount: number | undefined;
+      try {
+        entryCount = JSON.parse(fs.readFileSync(harPath, 'utf8'))?.log?.entries?.length;
+      } catch {
+        return createErrorResponse(`Not a valid HAR file (expected JSON with log.entries): ${args.path}`);
+      }
+      if (typeof entryCount !== 'number') {
+        return createErrorResponse(`Not a valid HAR file (expected JSON with log.entries): ${args.path}`);
+      }
+
+      const replay = await startHarReplay(harPath, { url: args.url, notFound: args.notFound });
+
+      return createSuccessResponse([
+        `✓ Replaying ${entryCount} recorded response(s) from ${path.relative(process.cwd(), harPath)}`,
+        `Scope: ${replay.url || 'all requests'}; requests missing from the HAR: ${replay.notFound === 'abort' ? 'aborted' : 'sent to the network'}`,
+        'Navigate or reload to load the page from the recording. Stop with replay_har({ stop: true }).',
+      ]);
+    });
+  }
+}
@@ -0,0 +1,155 @@
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse, createErrorResponse } from '../../common/types.js';
+import { NETWORK_FILTER_PROPERTIES, NetworkFilter, NetworkFilterArgs, describeNetworkFilter, matchesNetworkFilter, parseNetworkFilter, parseTextPattern } from './filters.js';
+
+interface SearchNetworkBodiesArgs extends NetworkFilterArgs {
+  query: string;
+  in?: 'request' | 'response' | 'both';
+  caseSensitive?: boolean;
+  limit?: number;
+}
+
+const CONTEXT_CHARS = 40;
+const SNIPPETS_PER_BODY = 3;
+
+/**
+ * Finds the matches of pattern in text and returns them with surrounding context
+ */
+export function findSnippets(text: string, pattern: RegExp, max = SNIPPETS_PER_BODY): { count: number; snippets: string[] } {
+  const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  const snippets: string[] = [];
+  let count = 0;
+  for (const match of text.matchAll(global)) {
+    if (match[0] === '') break;
+    count++;
+    if (snippets.length >= max) continue;
+    const start = Math.max(0, match.index! - CONTEXT_CHARS);
+    const end = Math.min(text.length, match.index! + match[0].length + CONTEXT_CHARS);
+    const snippet = text.slice(start, end).replace(/\s+/g, ' ');
+    snippets.push(`${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`);
+  }
+  return { count, snippets };
+}
+
+/**
+ * Tool for searching captured request and response bodies
+ */
+export class SearchNetworkBodiesTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "search_network_bodies",
+      description: "Search the captured request and response bodies of the active tab for text or a /regex/. Returns the indices of matching requests (for get_request_details) with short context snippets. Accepts the same filters as list_network_requests. Searches the redacted bodies, so redacted values never match; bodies not captured (binary or over the size limit) are skipped.",
+      exampleOutputs: [
+        {
+          call: "search_network_bodies({ query: 'insufficient_funds', status: '4xx' })",
+          output: `Found "insufficient_funds" in 1 request(s) (2 matches, searched 3 bodies of requests matching status=4xx):\n[14] POST https://shop.example.com/api/checkout 402\n  response: …{"error":{"code":"insufficient_funds","message":"Card declined"}}`
+        }
+      ],
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "Text to find, or a regular expression written as /pattern/flags"
+          },
+          in: {
+            type: "string",
+            description: "Which bodies to search (default: both)",
+            enum: ["request", "response", "both"]
+          },
+          caseSensitive: {
+            type: "boolean",
+            description: "Match plain text case-sensitively (default: false; regexes use their own flags)"
+          },
+          limit: {
+            type: "number",
+            description: "Maximum number of matching requests to return, most recent first (default: 20)"
+          },
+          ...NETWORK_FILTER_PROPERTIES,
+        },
+        required: ["query"],
+      },
+    };
+  }
+
+  async execute(args: SearchNetworkBodiesArgs, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async () => {
+      const { getNetworkLog, getLastActionTimestamp, createRedactor } = await import('../../../toolHandler.js');
+      if (!args.query) {
+        return createErrorResponse("Provide query: the text or /regex/ to search for.");
+      }
+
+      let pattern: RegExp;
+      let filter: NetworkFilter;
+      try {
+        const parsed = parseTextPattern(args.query);
+        pattern = typeof parsed === 'string'
+          ? new RegExp(parsed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), args.caseSensitive ? '' : 'i')
+          : parsed;
+        filter = parseNetworkFilter(args, since => getLastActionTimestamp(since === 'last-navigation' ? 'navigation' : 'interaction'));
+      } catch (error) {
+        return createErrorResponse((error as Error).message);
+      }
+
+      const where = args.in ?? 'both';
+      const limit = typeof args.limit === 'number' && args.limit > 0 ? Math.floor(args.limit) : 20;
+      const networkLog = getNetworkLog();
+      if (networkLog.length === 0) {
+        return createSuccessResponse("No network requests captured yet");
+      }
+
+      // Only the requests listed in the response count toward the redaction summary
+      const reported = createRedactor('network');
+      const results: string[] = [];
+      let matchedRequests = 0;
+      let totalMatches = 0;
+      let searched = 0;
+
+      // Most recent first, like list_network_requests
+      for (const req of [...networkLog].reverse()) {
+        if (!matchesNetworkFilter(req, filter)) continue;
+        const redactor = createRedactor('network');
+        const bodies: Array<[string, string | null]> = [];
+        if (where !== 'response') bodies.push(['request', req.requestData.postData]);
+        if (where !== 'request') bodies.push(['response', req.responseData?.body ?? null]);
+
+        const lines: string[] = [];
+        for (const [label, body] of bodies) {
+          if (!body) continue;
+          searched++;
+          const { count, snippets } = findSnippets(redactor.body(body)!, pattern);
+          if (count === 0) continue;
+          totalMatches += count;
+          lines.push(...snippets.map(snippet => `  ${label}: ${snippet}`));
+          if (count > snippets.length) lines.push(`  ${label}: … ${count - snippets.length} more match(es)`);
+        }
+        if (lines.length === 0) continue;
+
+        matchedRequests++;
+        if (matchedRequests <= limit) {
+          const status = req.status ?? (req.failure ? 'failed' : 'pending');
+          results.push(`[${req.index}] ${req.method} ${redactor.url(req.url)} ${status}`, ...lines);
+          reported.count += redactor.count;
+        }
+      }
+
+      const filterText = describeNetworkFilter(args);
+      const scope = `${searched} bod${searched === 1 ? 'y' : 'ies'}${filterText ? ` of requests matching ${filterText}` : ''}`;
+      if (matchedRequests === 0) {
+        return createSuccessResponse(`No matches for ${args.query} in ${scope}`);
+      }
+
+      const output = [
+        `Found ${args.query.startsWith('/') ? args.query : `"${args.query}"`} in ${matchedRequests} request(s) (${totalMatches} match${totalMatches === 1 ? '' : 'es'}, searched ${scope}):`,
+        ...results,
+      ];
+      if (matchedRequests > limit) {
+        output.push(`... ${matchedRequests - limit} more matching request(s); raise limit or add filters`);
+      }
+      const summary = reported.summary();
+      if (summary) output.push(summary);
+      output.push('Use get_request_details(index) for full headers and bodies');
+      return createSuccessResponse(output);
+    });
+  }
+}
@@ -0,0 +1,34 @@
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse } from '../../common/types.js';
+
+/**
+ * Tool for removing mock routes
+ */
+export class UnmockRouteTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "unmock_route",
+      description: "Remove a mock route by ID (from mock_route/list_routes), or all mock routes of the selected browser context when no ID is given. Matching requests go to the network again.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          id: { type: "number", description: "Route ID (e.g. 1 for #1). Omit to remove all routes." },
+        },
+        required: [],
+      },
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async () => {
+      const { removeMockRoutes } = await import('../../../toolHandler.js');
+      const removed = await removeMockRoutes(typeof args.id === 'number' ? args.id : undefined);
+
+      if (removed.length === 0) {
+        return createSuccessResponse("No mock routes to remove");
+      }
+      const ids = removed.map(r => `#${r.id}`).join(', ');
+      return createSuccessResponse(`Removed ${removed.length} mock route(s): ${ids}`);
+    });
+  }
+}
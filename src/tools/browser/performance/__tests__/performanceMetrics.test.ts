@@ -0,0 +1,93 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  formatBytes,
+  formatMs,
+  formatPerformanceSnapshot,
+  rateMetric,
+  type PerformanceSnapshot,
+} from '../get_performance_metrics.js';
+
+const snapshot = (overrides: Partial<PerformanceSnapshot> = {}): PerformanceSnapshot => ({
+  url: 'https://shop.example.com/',
+  sinceNavigation: 4200,
+  lateInstall: false,
+  navigation: { ttfb: 182, fcp: 640, domContentLoaded: 910, load: 1420 },
+  lcp: { value: 2810, size: 92160, url: 'https://shop.example.com/hero.jpg', element: { selector: 'img.hero', tag: 'img' } },
+  cls: {
+    value: 0.18,
+    sources: [
+      { value: 0.12, element: { selector: 'testid:promo-banner', tag: 'div', text: 'Sale' } },
+      { value: 0.06, element: null },
+    ],
+  },
+  inp: { value: 320, name: 'click', element: { selector: 'testid:add-to-cart', tag: 'button', text: 'Add to cart' }, count: 3 },
+  longTasks: { count: 3, total: 640, longest: 310, longestAt: 1200 },
+  resources: {
+    count: 3,
+    byType: [
+      { type: 'script', count: 2, transferSize: 320 * 1024, opaque: 0 },
+      { type: 'img', count: 1, transferSize: 0, opaque: 1 },
+    ],
+    slowest: [
+      { name: 'https://cdn.example.com/vendor.js', type: 'script', duration: 1240, transferSize: 312 * 1024 },
+      { name: 'https://cdn.example.com/app.js', type: 'script', duration: 300, transferSize: 8 * 1024 },
+    ],
+  },
+  ...overrides,
+});
+
+describe('performance metric helpers', () => {
+  it('should rate metrics using Core Web Vitals thresholds', () => {
+    expect(rateMetric('lcp', 2500)).toBe('✓ good');
+    expect(rateMetric('lcp', 3000)).toBe('⚠ needs improvement');
+    expect(rateMetric('lcp', 4001)).toBe('✗ poor');
+    expect(rateMetric('cls', 0.05)).toBe('✓ good');
+    expect(rateMetric('inp', 600)).toBe('✗ poor');
+    expect(rateMetric('unknown', 1)).toBe('');
+  });
+
+  it('should format durations and sizes compactly', () => {
+    expect(formatMs(182.4)).toBe('182ms');
+    expect(formatMs(1420)).toBe('1.42s');
+    expect(formatBytes(512)).toBe('512B');
+    expect(formatBytes(2048)).toBe('2.0KB');
+    expect(formatBytes(3 * 1024 * 1024)).toBe('3.0MB');
+  });
+});
+
+describe('formatPerformanceSnapshot', () => {
+  it('should attribute vitals to elements and list resources', () => {
+    const text = formatPerformanceSnapshot(snapshot(), 1);
+
+    expect(text).toContain('TTFB 182ms ✓ good | FCP 640ms ✓ good | DOMContentLoaded 910ms | load 1.42s');
+    expect(text).toContain('LCP 2.81s ⚠ needs improvement — <img> img.hero, src: https://shop.example.com/hero.jpg');
+    expect(text).toContain('CLS 0.18 ⚠ needs improvement — largest shifts: 0.12 testid:promo-banner "Sale"; 0.06 (element removed from page)');
+    expect(text).toContain('INP 320ms ⚠ needs improvement — click on testid:add-to-cart "Add to cart" (worst of 3 interactions)');
+    expect(text).toContain('Long tasks: 3 (total 640ms, longest 310ms at 1.20s)');
+    expect(text).toContain('Transfer by type (3 resources, 320.0KB):');
+    expect(text).toContain('img 1 · 0B (+1 size unknown)');
+    expect(text).toContain('Slowest resources (top 1):');
+    expect(text).toContain('https://cdn.example.com/vendor.js');
+    expect(text).not.toContain('app.js');
+  });
+
+  it('should explain missing data', () => {
+    const text = formatPerformanceSnapshot(snapshot({
+      navigation: null,
+      lcp: null,
+      cls: { value: 0, sources: [] },
+      inp: null,
+      longTasks: { count: 0, total: 0, longest: 0, longestAt: 0 },
+      resources: { count: 0, byType: [], slowest: [] },
+      lateInstall: true,
+    }), 5);
+
+    expect(text).toContain('Navigation timing:\n  not available');
+    expect(text).toContain('LCP not recorded');
+    expect(text).toContain('CLS 0 ✓ good — no layout shifts');
+    expect(text).toContain('INP no interactions recorded yet');
+    expect(text).toContain('Long tasks: none over 50ms');
+    expect(text).toContain('Resources: none loaded');
+    expect(text).toContain('observers were attached after page load');
+  });
+});
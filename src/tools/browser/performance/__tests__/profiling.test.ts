@@ -0,0 +1,91 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  formatCoverageLines,
+  summarizeCpuProfile,
+  summarizeCssCoverage,
+  summarizeJsCoverage,
+  type CpuProfile,
+} from '../profiling.js';
+
+const frame = (functionName: string, url = '', lineNumber = 0, columnNumber = 0) => ({ functionName, url, lineNumber, columnNumber });
+
+describe('summarizeCpuProfile', () => {
+  const profile: CpuProfile = {
+    nodes: [
+      { id: 1, callFrame: frame('(root)') },
+      { id: 2, callFrame: frame('(idle)') },
+      { id: 3, callFrame: frame('render', 'https://app.test/app.js', 9, 4) },
+      { id: 4, callFrame: frame('', 'https://app.test/vendor.js', 0, 100) },
+      { id: 5, callFrame: frame('(garbage collector)') },
+      { id: 6, callFrame: frame('render', 'https://app.test/app.js', 9, 4) },
+    ],
+    startTime: 0,
+    endTime: 10_000,
+    samples: [2, 3, 3, 4, 5, 6],
+    timeDeltas: [1000, 2000, 2000, 1000, 500, 1000],
+  };
+
+  it('aggregates self time per function and location', () => {
+    const summary = summarizeCpuProfile(profile, 10);
+    expect(summary.totalMs).toBe(10);
+    expect(summary.idleMs).toBe(1);
+    expect(summary.gcMs).toBe(0.5);
+    expect(summary.top).toEqual([
+      { functionName: 'render', location: 'https://app.test/app.js:10:5', selfMs: 5 },
+      { functionName: '(anonymous)', location: 'https://app.test/vendor.js:1:101', selfMs: 1 },
+    ]);
+  });
+
+  it('limits the list to the requested number of functions', () => {
+    expect(summarizeCpuProfile(profile, 1).top).toHaveLength(1);
+  });
+});
+
+describe('summarizeJsCoverage', () => {
+  it('uses the innermost block count for nested ranges', () => {
+    const [entry] = summarizeJsCoverage([{
+      url: 'https://app.test/app.js',
+      source: 'x'.repeat(100),
+      functions: [
+        { ranges: [{ startOffset: 0, endOffset: 100, count: 1 }, { startOffset: 20, endOffset: 50, count: 0 }] },
+        { ranges: [{ startOffset: 60, endOffset: 80, count: 0 }] },
+      ],
+    }]);
+    expect(entry).toEqual({ url: 'https://app.test/app.js', totalBytes: 100, unusedBytes: 50 });
+  });
+
+  it('sorts scripts by unused bytes', () => {
+    const result = summarizeJsCoverage([
+      { url: 'a.js', source: 'x'.repeat(10), functions: [{ ranges: [{ startOffset: 0, endOffset: 10, count: 1 }] }] },
+      { url: 'b.js', source: 'x'.repeat(10), functions: [{ ranges: [{ startOffset: 0, endOffset: 10, count: 0 }] }] },
+    ]);
+    expect(result.map(r => r.url)).toEqual(['b.js', 'a.js']);
+  });
+});
+
+describe('summarizeCssCoverage', () => {
+  it('merges overlapping used ranges', () => {
+    const [entry] = summarizeCssCoverage([{
+      url: 'https://app.test/styles.css',
+      text: 'x'.repeat(100),
+      ranges: [{ start: 30, end: 50 }, { start: 0, end: 20 }, { start: 10, end: 25 }],
+    }]);
+    expect(entry.unusedBytes).toBe(55);
+  });
+});
+
+describe('formatCoverageLines', () => {
+  it('reports totals and the most wasteful files', () => {
+    const lines = formatCoverageLines('CSS coverage', [
+      { url: 'big.css', totalBytes: 2048, unusedBytes: 1024 },
+      { url: 'small.css', totalBytes: 100, unusedBytes: 0 },
+    ], 1);
+    expect(lines[0]).toBe('CSS coverage: 1.0KB unused of 2.1KB (48%) across 2 files');
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toContain('big.css');
+  });
+
+  it('notes when nothing was recorded', () => {
+    expect(formatCoverageLines('JS coverage', [], 5)).toEqual(['JS coverage: no files recorded']);
+  });
+});
@@ -0,0 +1,347 @@
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse } from '../../common/types.js';
+import { installPerformanceObservers } from './observers.js';
+
+interface GetPerformanceMetricsArgs {
+  topResources?: number;
+}
+
+/**
+ * Element a metric is attributed to, described in the page
+ */
+interface AttributedElement {
+  selector: string;
+  tag: string;
+  text?: string;
+}
+
+/**
+ * Metrics read from the page
+ */
+export interface PerformanceSnapshot {
+  url: string;
+  sinceNavigation: number;
+  lateInstall: boolean;
+  navigation: { ttfb?: number; fcp?: number; domContentLoaded?: number; load?: number } | null;
+  lcp: { value: number; size: number; url: string; element: AttributedElement | null } | null;
+  cls: { value: number; sources: { value: number; element: AttributedElement | null }[] } | null;
+  inp: { value: number; name: string; element: AttributedElement | null; count: number } | null;
+  longTasks: { count: number; total: number; longest: number; longestAt: number };
+  resources: {
+    count: number;
+    byType: { type: string; count: number; transferSize: number; opaque: number }[];
+    slowest: { name: string; type: string; duration: number; transferSize: number }[];
+  };
+}
+
+// Core Web Vitals thresholds (good / poor boundaries) per web.dev
+const THRESHOLDS: Record<string, [number, number]> = {
+  ttfb: [800, 1800],
+  fcp: [1800, 3000],
+  lcp: [2500, 4000],
+  cls: [0.1, 0.25],
+  inp: [200, 500],
+};
+
+/**
+ * Rating symbol for a metric: ✓ good, ⚠ needs improvement, ✗ poor
+ */
+export function rateMetric(metric: string, value: number): string {
+  const limits = THRESHOLDS[metric];
+  if (!limits) return '';
+  if (value <= limits[0]) return '✓ good';
+  if (value <= limits[1]) return '⚠ needs improvement';
+  return '✗ poor';
+}
+
+export function formatMs(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${Math.round(ms)}ms`;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+function describeElement(element: AttributedElement | null): string {
+  if (!element) return '(element removed from page)';
+  return `${element.selector}${element.text ? ` "${element.text}"` : ''}`;
+}
+
+/**
+ * Formats a snapshot as compact text
+ */
+export function formatPerformanceSnapshot(snapshot: PerformanceSnapshot, topResources: number): string {
+  const lines: string[] = [];
+  lines.push(`Performance metrics: ${snapshot.url} (navigation ${formatMs(snapshot.sinceNavigation)} ago)`);
+
+  lines.push('');
+  lines.push('Navigation timing:');
+  const nav = snapshot.navigation;
+  if (nav) {
+    const parts: string[] = [];
+    if (nav.ttfb !== undefined) parts.push(`TTFB ${formatMs(nav.ttfb)} ${rateMetric('ttfb', nav.ttfb)}`);
+    if (nav.fcp !== undefined) parts.push(`FCP ${formatMs(nav.fcp)} ${rateMetric('fcp', nav.fcp)}`);
+    if (nav.domContentLoaded !== undefined) parts.push(`DOMContentLoaded ${formatMs(nav.domContentLoaded)}`);
+    parts.push(nav.load !== undefined ? `load ${formatMs(nav.load)}` : 'load pending');
+    lines.push(`  ${parts.join(' | ')}`);
+  } else {
+    lines.push('  not available (about:blank or navigation entry missing)');
+  }
+
+  lines.push('Core Web Vitals:');
+  if (snapshot.lcp) {
+    const lcp = snapshot.lcp;
+    const resource = lcp.url ? `, src: ${lcp.url.length > 60 ? lcp.url.slice(0, 57) + '...' : lcp.url}` : '';
+    lines.push(`  LCP ${formatMs(lcp.value)} ${rateMetric('lcp', lcp.value)} — <${lcp.element?.tag || '?'}> ${describeElement(lcp.element)}${resource}`);
+  } else {
+    lines.push('  LCP not recorded (no contentful paint yet, or unsupported in this browser)');
+  }
+
+  if (snapshot.cls) {
+    const cls = snapshot.cls;
+    const value = Math.round(cls.value * 1000) / 1000;
+    if (cls.sources.length === 0) {
+      lines.push(`  CLS ${value} ${rateMetric('cls', cls.value)} — no layout shifts`);
+    } else {
+      const top = cls.sources.slice(0, 3).map(s => `${Math.round(s.value * 1000) / 1000} ${describeElement(s.element)}`);
+      lines.push(`  CLS ${value} ${rateMetric('cls', cls.value)} — largest shifts: ${top.join('; ')}`);
+    }
+  } else {
+    lines.push('  CLS not recorded (unsupported in this browser)');
+  }
+
+  if (snapshot.inp) {
+    const inp = snapshot.inp;
+    lines.push(`  INP ${formatMs(inp.value)} ${rateMetric('inp', inp.value)} — ${inp.name} on ${describeElement(inp.element)} (worst of ${inp.count} interaction${inp.count === 1 ? '' : 's'})`);
+  } else {
+    lines.push('  INP no interactions recorded yet (click/type on the page, then call again)');
+  }
+
+  const tasks = snapshot.longTasks;
+  lines.push(tasks.count > 0
+    ? `Long tasks: ${tasks.count} (total ${formatMs(tasks.total)}, longest ${formatMs(tasks.longest)} at ${formatMs(tasks.longestAt)})`
+    : 'Long tasks: none over 50ms');
+
+  const resources = snapshot.resources;
+  if (resources.count > 0) {
+    const total = resources.byType.reduce((sum, t) => sum + t.transferSize, 0);
+    lines.push(`Transfer by type (${resources.count} resources, ${formatBytes(total)}):`);
+    lines.push(`  ${resources.byType.map(t => `${t.type} ${t.count} · ${formatBytes(t.transferSize)}${t.opaque ? ` (+${t.opaque} size unknown)` : ''}`).join(' | ')}`);
+
+    const slowest = resources.slowest.slice(0, topResources);
+    if (slowest.length > 0) {
+      lines.push(`Slowest resources (top ${slowest.length}):`);
+      for (const r of slowest) {
+        const name = r.name.length > 90 ? r.name.slice(0, 87) + '...' : r.name;
+        lines.push(`  ${formatMs(r.duration).padStart(7)} ${r.type.padEnd(10)} ${formatBytes(r.transferSize).padStart(8)} ${name}`);
+      }
+    }
+  } else {
+    lines.push('Resources: none loaded');
+  }
+
+  if (snapshot.lateInstall) {
+    lines.push('');
+    lines.push('Note: observers were attached after page load; reload the page for complete INP/long task data.');
+  }
+
+  return lines.join('\n');
+}
+
+// Element a metric is attributed to; null when it left the page
+const ELEMENT_SCHEMA = {
+  type: ["object", "null"],
+  properties: {
+    selector: { type: "string" },
+    tag: { type: "string" },
+    text: { type: "string" },
+  },
+};
+
+/**
+ * Tool for reporting navigation timing, Core Web Vitals, long tasks and resource costs
+ */
+export class GetPerformanceMetricsTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "get_performance_metrics",
+      description: "Report page performance for the active tab: navigation timing (TTFB, FCP, DOMContentLoaded, load), Core Web Vitals (LCP, CLS, INP) rated good/needs improvement/poor, long tasks, transfer size by resource type and the slowest resources. LCP and CLS are attributed to concrete elements with selectors to inspect next (e.g. with inspect_dom or measure_element). INP needs real interactions: click or type first, then call again. Chromium only for LCP/CLS/INP/long tasks.",
+      outputs: [
+        "Header with URL and time since navigation.",
+        "Navigation timing line with ratings.",
+        "Core Web Vitals: LCP (element + resource), CLS (largest shifting elements), INP (slowest interaction target).",
+        "Long task summary, transfer size by resource type, slowest resources.",
+      ],
+      examples: [
+        "get_performance_metrics({})",
+        "get_performance_metrics({ topResources: 10 })",
+      ],
+      exampleOutputs: [
+        {
+          call: "get_performance_metrics({})",
+          output: `Performance metrics: https://shop.example.com/ (navigation 4.20s ago)\n\nNavigation timing:\n  TTFB 182ms ✓ good | FCP 640ms ✓ good | DOMContentLoaded 910ms | load 1.42s\nCore Web Vitals:\n  LCP 2.81s ⚠ needs improvement — <img> img.hero, src: https://shop.example.com/hero.jpg\n  CLS 0.18 ⚠ needs improvement — largest shifts: 0.12 testid:promo-banner; 0.06 div.ad-slot\n  INP 320ms ⚠ needs improvement — click on testid:add-to-cart "Add to cart" (worst of 3 interactions)\nLong tasks: 3 (total 640ms, longest 310ms at 1.20s)\nTransfer by type (42 resources, 1.9MB):\n  script 12 · 820.0KB | img 18 · 910.0KB | css 3 · 60.0KB | fetch 8 · 40.0KB\nSlowest resources (top 5):\n    1.24s script       312.0KB https://cdn.example.com/vendor.js`
+        }
+      ],
+      inputSchema: {
+        type: "object",
+        properties: {
+          topResources: {
+            type: "number",
+            description: "Number of slowest resources to list (default: 5)"
+          }
+        },
+        required: [],
+      },
+      outputSchema: {
+        type: "object",
+        description: "Times in ms from navigation start; null when not recorded or unsupported",
+        properties: {
+          url: { type: "string" },
+          sinceNavigation: { type: "number" },
+          lateInstall: { type: "boolean", description: "Observers were attached after page load" },
+          navigation: {
+            type: ["object", "null"],
+            properties: {
+              ttfb: { type: "number" },
+              fcp: { type: "number" },
+              domContentLoaded: { type: "number" },
+              load: { type: "number" },
+            },
+          },
+          lcp: {
+            type: ["object", "null"],
+            properties: { value: { type: "number" }, size: { type: "number" }, url: { type: "string" }, element: ELEMENT_SCHEMA },
+          },
+          cls: {
+            type: ["object", "null"],
+            properties: {
+              value: { type: "number" },
+              sources: { type: "array", items: { type: "object", properties: { value: { type: "number" }, element: ELEMENT_SCHEMA } } },
+            },
+          },
+          inp: {
+            type: ["object", "null"],
+            properties: { value: { type: "number" }, name: { type: "string" }, element: ELEMENT_SCHEMA, count: { type: "number" } },
+          },
+          longTasks: {
+            type: "object",
+            properties: { count: { type: "number" }, total: { type: "number" }, longest: { type: "number" }, longestAt: { type: "number" } },
+          },
+          resources: {
+            type: "object",
+            properties: {
+              count: { type: "number" },
+              byType: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: { type: { type: "string" }, count: { type: "number" }, transferSize: { type: "number" }, opaque: { type: "number" } },
+                },
+              },
+              slowest: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: { name: { type: "string" }, type: { type: "string" }, duration: { type: "number" }, transferSize: { type: "number" } },
+                },
+              },
+            },
+          },
+        },
+        required: ["url", "navigation", "lcp", "cls", "inp", "longTasks", "resources"],
+      },
+    };
+  }
+
+  async execute(args: GetPerformanceMetricsArgs, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const topResources = args.topResources ?? 5;
+
+      // Pages loaded before tracking started have no observers yet; buffered
+      // entries still give LCP/CLS after a short wait
+      const lateInstall = await page.evaluate(() => !(window as any).__mcpPerf);
+      if (lateInstall) {
+        await page.evaluate(installPerformanceObservers);
+        await page.waitForTimeout(100);
+      }
+
+      const snapshot: PerformanceSnapshot = await page.evaluate(({ late, top }) => {
+        const perf = (window as any).__mcpPerf;
+
+        const describe = (node: Node | null) => {
+          const el = node && node.nodeType === Node.TEXT_NODE ? node.parentElement : node as Element | null;
+          if (!el || !el.isConnected || !el.tagName) return null;
+          const tag = el.tagName.toLowerCase();
+          const testId = el.getAttribute('data-testid') || el.getAttribute('data-test') || el.getAttribute('data-cy');
+          let selector: string;
+          if (testId) selector = `testid:${testId}`;
+          else if (el.id) selector = `#${el.id}`;
+          else {
+            const classes = Array.from(el.classList).slice(0, 2).join('.');
+            selector = classes ? `${tag}.${classes}` : tag;
+          }
+          const text = (el.textContent || '').replace(/\s+/g, ' ').trim();
+          return { selector, tag, text: text ? (text.length > 40 ? text.slice(0, 37) + '...' : text) : undefined };
+        };
+
+        const navEntry = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+        const fcpEntry = performance.getEntriesByName('first-contentful-paint')[0];
+        const navigation = navEntry ? {
+          ttfb: navEntry.responseStart > 0 ? navEntry.responseStart : undefined,
+          fcp: fcpEntry ? fcpEntry.startTime : undefined,
+          domContentLoaded: navEntry.domContentLoadedEventEnd > 0 ? navEntry.domContentLoadedEventEnd : undefined,
+          load: navEntry.loadEventEnd > 0 ? navEntry.loadEventEnd : undefined,
+        } : null;
+
+        const interactions = perf ? Array.from(perf.interactions.values()) as any[] : [];
+        const worst = interactions.sort((a, b) => b.duration - a.duration)[0];
+
+        const tasks = perf ? perf.longTasks as { start: number; duration: number }[] : [];
+        const longest = tasks.reduce((max, t) => (t.duration > max.duration ? t : max), { start: 0, duration: 0 });
+
+        const resourceEntries = performance.getEntriesByType('resource') as PerformanceResourceTiming[];
+        const byType = new Map<string, { type: string; count: number; transferSize: number; opaque: number }>();
+        for (const r of resourceEntries) {
+          const type = r.initiatorType || 'other';
+          const bucket = byType.get(type) || { type, count: 0, transferSize: 0, opaque: 0 };
+          bucket.count++;
+          bucket.transferSize += r.transferSize || 0;
+          // Cross-origin resources without Timing-Allow-Origin report 0 bytes
+          if (!r.transferSize && !r.decodedBodySize) bucket.opaque++;
+          byType.set(type, bucket);
+        }
+
+        return {
+          url: location.href,
+          sinceNavigation: performance.now(),
+          lateInstall: late,
+          navigation,
+          lcp: perf?.lcp ? { value: perf.lcp.value, size: perf.lcp.size, url: perf.lcp.url, element: describe(perf.lcp.element) } : null,
+          cls: perf ? {
+            value: perf.cls.value,
+            sources: perf.cls.sources.map((s: any) => ({ value: s.value, element: describe(s.node) })),
+          } : null,
+          inp: worst ? { value: worst.duration, name: worst.name, element: describe(worst.target), count: interactions.length } : null,
+          longTasks: {
+            count: tasks.length,
+            total: tasks.reduce((sum, t) => sum + t.duration, 0),
+            longest: longest.duration,
+            longestAt: longest.start,
+          },
+          resources: {
+            count: resourceEntries.length,
+            byType: Array.from(byType.values()).sort((a, b) => b.transferSize - a.transferSize),
+            slowest: [...resourceEntries]
+              .sort((a, b) => b.duration - a.duration)
+              .slice(0, top)
+              .map(r => ({ name: r.name, type: r.initiatorType || 'other', duration: r.duration, transferSize: r.transferSize || 0 })),
+          },
+        };
+      }, { late: lateInstall, top: topResources });
+
+      return createSuccessResponse(formatPerformanceSnapshot(snapshot, topResources), { ...snapshot });
+    });
+  }
+}
@@ -0,0 +1,3 @@
+export { GetPerformanceMetricsTool } from './get_performance_metrics.js';
+export { StartProfilingTool } from './start_profiling.js';
+export { StopProfilingTool } from './stop_profiling.js';
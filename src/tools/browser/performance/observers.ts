@@ -0,0 +1,94 @@
+/**
+ * In-page collection of Core Web Vitals and long tasks.
+ *
+ * installPerformanceObservers runs inside the page (as an init script on every
+ * tracked tab, or lazily from get_performance_metrics) and must stay
+ * self-contained: Playwright serializes it with Function.prototype.toString.
+ * Entries keep references to the DOM nodes they are attributed to so the
+ * tool can turn them into selectors when metrics are read.
+ */
+export function installPerformanceObservers(): void {
+  const w = window as any;
+  if (w.__mcpPerf) return;
+
+  const state = {
+    installedAt: performance.now(),
+    lcp: null as null | { value: number; size: number; url: string; element: Element | null },
+    cls: { value: 0, windowValue: 0, windowStart: 0, lastShift: 0, sources: [] as { value: number; node: Node | null; time: number }[] },
+    interactions: new Map<number, { duration: number; name: string; target: Element | null; time: number }>(),
+    longTasks: [] as { start: number; duration: number; name: string }[],
+  };
+  w.__mcpPerf = state;
+
+  const observe = (type: string, callback: (entries: any[]) => void, extra: Record<string, unknown> = {}) => {
+    try {
+      const observer = new PerformanceObserver(list => callback(list.getEntries()));
+      observer.observe({ type, buffered: true, ...extra } as any);
+    } catch {
+      // Entry type not supported by this browser (e.g. Firefox/WebKit for LCP)
+    }
+  };
+
+  observe('largest-contentful-paint', entries => {
+    const last = entries[entries.length - 1];
+    if (last) {
+      state.lcp = { value: last.startTime, size: last.size, url: last.url || '', element: last.element || null };
+    }
+  });
+
+  // CLS: largest session window (shifts < 1s apart, window capped at 5s)
+  observe('layout-shift', entries => {
+    for (const entry of entries) {
+      if (entry.hadRecentInput) continue;
+      const cls = state.cls;
+      if (entry.startTime - cls.lastShift > 1000 || entry.startTime - cls.windowStart > 5000) {
+        cls.windowValue = 0;
+        cls.windowStart = entry.startTime;
+      }
+      cls.windowValue += entry.value;
+      cls.lastShift = entry.startTime;
+      cls.value = Math.max(cls.value, cls.windowValue);
+
+      // Attribute each shift to the source node that moved the most
+      const sources = entry.sources || [];
+      let node: Node | null = null;
+      let bestArea = -1;
+      for (const source of sources) {
+        const rect = source.currentRect || { width: 0, height: 0 };
+        const area = rect.width * rect.height;
+        if (area > bestArea) {
+          bestArea = area;
+          node = source.node || null;
+        }
+      }
+      cls.sources.push({ value: entry.value, node, time: entry.startTime });
+      cls.sources.sort((a, b) => b.value - a.value);
+      cls.sources.length = Math.min(cls.sources.length, 5);
+    }
+  });
+
+  // INP: slowest interaction, grouping event entries by interactionId
+  const recordInteraction = (entries: any[]) => {
+    for (const entry of entries) {
+      if (!entry.interactionId) continue;
+      const existing = state.interactions.get(entry.interactionId);
+      if (!existing || entry.duration > existing.duration) {
+        state.interactions.set(entry.interactionId, {
+          duration: entry.duration,
+          name: entry.name,
+          target: entry.target || null,
+          time: entry.startTime,
+        });
+      }
+    }
+  };
+  observe('event', recordInteraction, { durationThreshold: 16 });
+  observe('first-input', recordInteraction);
+
+  observe('longtask', entries => {
+    for (const entry of entries) {
+      state.longTasks.push({ start: entry.startTime, duration: entry.duration, name: entry.name });
+    }
+    if (state.longTasks.length > 100) state.longTasks.splice(0, state.longTasks.length - 100);
+  });
+}
@@ -0,0 +1,184 @@
+import type { CDPSession, Page } from 'playwright';
+import { formatBytes } from './get_performance_metrics.js';
+import { getSessionSlot } from '../../../session.js';
+
+/**
+ * Running profiling session (one at a time, bound to the page it started on)
+ */
+export interface ProfilingSession {
+  page: Page;
+  tabId?: number;
+  cdp?: CDPSession;
+  cpu: boolean;
+  coverage: boolean;
+  startedAt: number;
+}
+
+// Kept per client session, like the browser it profiles
+function getProfilingSlot(): { active: ProfilingSession | null } {
+  return getSessionSlot('profiling', () => ({ active: null as ProfilingSession | null }));
+}
+
+export function getProfilingSession(): ProfilingSession | null {
+  return getProfilingSlot().active;
+}
+
+export function setProfilingSession(session: ProfilingSession | null): void {
+  getProfilingSlot().active = session;
+}
+
+// Minimal shapes of the CDP Profiler.Profile and Playwright coverage entries
+export interface CpuProfile {
+  nodes: { id: number; callFrame: { functionName: string; url: string; lineNumber: number; columnNumber: number } }[];
+  startTime: number;
+  endTime: number;
+  samples?: number[];
+  timeDeltas?: number[];
+}
+
+export interface JsCoverageEntry {
+  url: string;
+  source?: string;
+  functions: { ranges: { startOffset: number; endOffset: number; count: number }[] }[];
+}
+
+export interface CssCoverageEntry {
+  url: string;
+  text?: string;
+  ranges: { start: number; end: number }[];
+}
+
+export interface FunctionSelfTime {
+  functionName: string;
+  location: string;
+  selfMs: number;
+}
+
+export interface CpuSummary {
+  totalMs: number;
+  idleMs: number;
+  programMs: number;
+  gcMs: number;
+  top: FunctionSelfTime[];
+}
+
+export interface CoverageSummaryEntry {
+  url: string;
+  totalBytes: number;
+  unusedBytes: number;
+}
+
+const SPECIAL_NODES: Record<string, 'idle' | 'program' | 'gc'> = {
+  '(idle)': 'idle',
+  '(program)': 'program',
+  '(garbage collector)': 'gc',
+};
+
+/**
+ * Aggregates sample self time per function (name + location) of a CPU profile
+ */
+export function summarizeCpuProfile(profile: CpuProfile, top: number): CpuSummary {
+  const nodesById = new Map(profile.nodes.map(node => [node.id, node]));
+  const samples = profile.samples || [];
+  const deltas = profile.timeDeltas || [];
+
+  const selfByNode = new Map<number, number>();
+  // timeDeltas[i] is the time between sample i-1 and i; attribute it to the later sample
+  for (let i = 0; i < samples.length; i++) {
+    const micros = Math.max(0, deltas[i] || 0);
+    selfByNode.set(samples[i], (selfByNode.get(samples[i]) || 0) + micros);
+  }
+
+  let idle = 0;
+  let program = 0;
+  let gc = 0;
+  const byFunction = new Map<string, FunctionSelfTime>();
+  for (const [nodeId, micros] of selfByNode) {
+    const frame = nodesById.get(nodeId)?.callFrame;
+    if (!frame) continue;
+    const special = SPECIAL_NODES[frame.functionName];
+    if (special === 'idle') { idle += micros; continue; }
+    if (special === 'program') { program += micros; continue; }
+    if (special === 'gc') { gc += micros; continue; }
+    if (frame.functionName === '(root)') continue;
+
+    // CDP line/column numbers are 0-based
+    const location = frame.url ? `${frame.url}:${frame.lineNumber + 1}:${frame.columnNumber + 1}` : '(native)';
+    const functionName = frame.functionName || '(anonymous)';
+    const key = `${functionName}@${location}`;
+    const entry = byFunction.get(key) || { functionName, location, selfMs: 0 };
+    entry.selfMs += micros / 1000;
+    byFunction.set(key, entry);
+  }
+
+  return {
+    totalMs: (profile.endTime - profile.startTime) / 1000,
+    idleMs: idle / 1000,
+    programMs: program / 1000,
+    gcMs: gc / 1000,
+    top: Array.from(byFunction.values()).sort((a, b) => b.selfMs - a.selfMs).slice(0, top),
+  };
+}
+
+/**
+ * Unused bytes per script from V8 block coverage. Ranges are ordered from
+ * outer to inner, so painting them in order leaves the innermost count.
+ */
+export function summarizeJsCoverage(entries: JsCoverageEntry[]): CoverageSummaryEntry[] {
+  const result: CoverageSummaryEntry[] = [];
+  for (const entry of entries) {
+    const length = entry.source?.length ?? Math.max(0, ...entry.functions.flatMap(f => f.ranges.map(r => r.endOffset)));
+    if (!length) continue;
+    const used = new Uint8Array(length);
+    for (const fn of entry.functions) {
+      for (const range of fn.ranges) {
+        used.fill(range.count > 0 ? 1 : 0, range.startOffset, Math.min(range.endOffset, length));
+      }
+    }
+    const usedBytes = used.reduce((sum, v) => sum + v, 0);
+    result.push({ url: entry.url || '(inline script)', totalBytes: length, unusedBytes: length - usedBytes });
+  }
+  return result.sort((a, b) => b.unusedBytes - a.unusedBytes);
+}
+
+/**
+ * Unused bytes per stylesheet; CSS coverage lists used ranges only
+ */
+export function summarizeCssCoverage(entries: CssCoverageEntry[]): CoverageSummaryEntry[] {
+  const result: CoverageSummaryEntry[] = [];
+  for (const entry of entries) {
+    const length = entry.text?.length ?? 0;
+    if (!length) continue;
+    const ranges = [...entry.ranges].sort((a, b) => a.start - b.start);
+    let usedBytes = 0;
+    let cursor = 0;
+    for (const range of ranges) {
+      const start = Math.max(range.start, cursor);
+      if (range.end > start) {
+        usedBytes += range.end - start;
+        cursor = range.end;
+      }
+    }
+    result.push({ url: entry.url || '(inline style)', totalBytes: length, unusedBytes: length - usedBytes });
+  }
+  return result.sort((a, b) => b.unusedBytes - a.unusedBytes);
+}
+
+/**
+ * Compact lines for a coverage summary: totals, then the files wasting the most bytes
+ */
+export function formatCoverageLines(label: string, entries: CoverageSummaryEntry[], top: number): string[] {
+  if (entries.length === 0) {
+    return [`${label}: no files recorded`];
+  }
+  const total = entries.reduce((sum, e) => sum + e.totalBytes, 0);
+  const unused = entries.reduce((sum, e) => sum + e.unusedBytes, 0);
+  const pct = (part: number, whole: number) => (whole ? Math.round((part / whole) * 100) : 0);
+
+  const lines = [`${label}: ${formatBytes(unused)} unused of ${formatBytes(total)} (${pct(unused, total)}%) across ${entries.length} file${entries.length === 1 ? '' : 's'}`];
+  for (const entry of entries.slice(0, top)) {
+    const url = entry.url.length > 90 ? entry.url.slice(0, 87) + '...' : entry.url;
+    lines.push(`  ${formatBytes(entry.unusedBytes).padStart(8)} unused of ${formatBytes(entry.totalBytes).padEnd(8)} (${pct(entry.unusedBytes, entry.totalBytes)}%) ${url}`);
+  }
+  return lines;
+}
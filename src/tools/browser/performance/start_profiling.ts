@@ -0,0 +1,108 @@
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse, createErrorResponse } from '../../common/types.js';
+import { getProfilingSession, setProfilingSession, ProfilingSession } from './profiling.js';
+
+interface StartProfilingArgs {
+  cpu?: boolean;
+  coverage?: boolean;
+  samplingInterval?: number;
+}
+
+export class StartProfilingTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "start_profiling",
+      description: "Start a CPU profile (via the Chrome DevTools Protocol) and/or JS + CSS coverage on the active tab. Then reproduce the slow interaction or navigation and call stop_profiling for a summary of the hottest functions and unused bytes per script/stylesheet. Chromium only: Firefox and WebKit sessions get an unsupported message. One profiling session at a time.",
+      outputs: [
+        "Confirmation of what is being recorded (CPU profile, coverage) and the sampling interval.",
+        "Next step hint to call stop_profiling.",
+      ],
+      examples: [
+        "start_profiling({})",
+        "start_profiling({ coverage: false, samplingInterval: 50 })",
+      ],
+      exampleOutputs: [
+        {
+          call: "start_profiling({})",
+          output: `✓ Profiling started on https://shop.example.com/\nRecording: CPU profile (sampling every 100µs), JS + CSS coverage\nNext: interact with the page, then call stop_profiling`
+        }
+      ],
+      inputSchema: {
+        type: "object",
+        properties: {
+          cpu: {
+            type: "boolean",
+            description: "Record a CPU profile (default: true)"
+          },
+          coverage: {
+            type: "boolean",
+            description: "Record JS and CSS coverage (default: true)"
+          },
+          samplingInterval: {
+            type: "number",
+            description: "CPU sampling interval in microseconds (default: 100)"
+          }
+        },
+        required: [],
+      },
+    };
+  }
+
+  async execute(args: StartProfilingArgs, context: ToolContext): Promise<ToolResponse> {
+    const { getCurrentBrowserType, getActiveTabId } = await import('../../../toolHandler.js');
+    const browserType = getCurrentBrowserType();
+    if (browserType !== 'chromium') {
+      return createErrorResponse(
+        `Profiling is not supported on ${browserType}: CPU profiles and coverage need the Chrome DevTools Protocol.\n` +
+        `Relaunch with navigate({ url: "...", browserType: "chromium" }) to profile this page.`
+      );
+    }
+
+    const cpu = args.cpu ?? true;
+    const coverage = args.coverage ?? true;
+    if (!cpu && !coverage) {
+      return createErrorResponse('Nothing to record: enable cpu and/or coverage.');
+    }
+    const samplingInterval = args.samplingInterval ?? 100;
+    if (!Number.isFinite(samplingInterval) || samplingInterval <= 0) {
+      return createErrorResponse('samplingInterval must be a positive number of microseconds.');
+    }
+
+    const running = getProfilingSession();
+    if (running && !running.page.isClosed()) {
+      const seconds = ((Date.now() - running.startedAt) / 1000).toFixed(1);
+      return createErrorResponse(`A profiling session is already running (started ${seconds}s ago). Call stop_profiling first.`);
+    }
+    setProfilingSession(null);
+
+    return this.safeExecute(context, async (page) => {
+      const session: ProfilingSession = { page, tabId: getActiveTabId(), cpu, coverage, startedAt: Date.now() };
+
+      if (cpu) {
+        const cdp = await page.context().newCDPSession(page);
+        await cdp.send('Profiler.enable');
+        await cdp.send('Profiler.setSamplingInterval', { interval: Math.round(samplingInterval) });
+        await cdp.send('Profiler.start');
+        session.cdp = cdp;
+      }
+
+      if (coverage) {
+        await page.coverage.startJSCoverage({ resetOnNavigation: false });
+        await page.coverage.startCSSCoverage({ resetOnNavigation: false });
+      }
+
+      setProfilingSession(session);
+
+      const recording = [
+        cpu ? `CPU profile (sampling every ${Math.round(samplingInterval)}µs)` : null,
+        coverage ? 'JS + CSS coverage' : null,
+      ].filter(Boolean).join(', ');
+
+      return createSuccessResponse([
+        `✓ Profiling started on ${page.url()}`,
+        `Recording: ${recording}`,
+        'Next: interact with the page, then call stop_profiling',
+      ].join('\n'));
+    });
+  }
+}
@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createErrorResponse } from '../../common/types.js';
+import { makeConfirmPreview } from '../../common/confirm_output.js';
+import { formatMs } from './get_performance_metrics.js';
+import {
+  getProfilingSession,
+  setProfilingSession,
+  summarizeCpuProfile,
+  summarizeJsCoverage,
+  summarizeCssCoverage,
+  formatCoverageLines,
+  CpuProfile,
+} from './profiling.js';
+
+interface StopProfilingArgs {
+  top?: number;
+}
+
+/**
+ * Stops the running profiling session. Does not go through safeExecute: the
+ * session is bound to the page it started on, not to whichever tab is active.
+ */
+export class StopProfilingTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "stop_profiling",
+      description: "Stop the session started by start_profiling and return a compact summary: total/idle/GC time, the top functions by self time (with script:line:column), and unused bytes per script and stylesheet sorted by waste. The full .cpuprofile (loadable in Chrome DevTools Performance panel) and raw coverage JSON are saved to ./.mcp-web-inspector/profiles/ only after calling confirm_output with the returned token.",
+      outputs: [
+        "CPU summary: recorded duration, idle/program/GC time, top functions by self time.",
+        "JS and CSS coverage: total unused bytes and the most wasteful files.",
+        "confirm_output token to save the full .cpuprofile and coverage JSON to disk.",
+      ],
+      examples: [
+        "stop_profiling({})",
+        "stop_profiling({ top: 20 })",
+      ],
+      exampleOutputs: [
+        {
+          call: "stop_profiling({})",
+          output: `Profile: https://shop.example.com/ (recorded 6.42s)\n\nCPU: 6.42s total — idle 4.10s, program 310ms, GC 95ms\nTop functions by self time:\n   820ms  renderProductGrid  https://shop.example.com/app.js:1:20431\n   410ms  (anonymous)  https://cdn.example.com/vendor.js:2:88110\n\nJS coverage: 612.0KB unused of 1.1MB (56%) across 9 files\n   402.0KB unused of 640.0KB   (63%) https://cdn.example.com/vendor.js\nCSS coverage: 88.0KB unused of 104.0KB (85%) across 3 files\n    71.0KB unused of 80.0KB    (89%) https://shop.example.com/styles.css\n\ncounts: totalLength=2483112, truncated=true\n\nFull profile and coverage are saved only on confirm.\nOutput directory: .mcp-web-inspector/profiles\n\nconfirm_output({ token: "..." })`
+        }
+      ],
+      inputSchema: {
+        type: "object",
+        properties: {
+          top: {
+            type: "number",
+            description: "Number of functions and files to list per section (default: 10)"
+          }
+        },
+        required: [],
+      },
+    };
+  }
+
+  async execute(args: StopProfilingArgs, context: ToolContext): Promise<ToolResponse> {
+    const session = getProfilingSession();
+    if (!session) {
+      return createErrorResponse('No profiling session is running. Call start_profiling first.');
+    }
+    setProfilingSession(null);
+
+    const top = args.top ?? 10;
+    const { page, cdp } = session;
+    if (page.isClosed()) {
+      return createErrorResponse('The profiled tab was closed before stop_profiling; the recording is lost. Call start_profiling again.');
+    }
+
+    try {
+      let profile: CpuProfile | undefined;
+      if (cdp) {
+        const result = await cdp.send('Profiler.stop');
+        profile = result.profile as CpuProfile;
+        await cdp.detach().catch(() => {});
+      }
+
+      const jsCoverage = session.coverage ? await page.coverage.stopJSCoverage() : [];
+      const cssCoverage = session.coverage ? await page.coverage.stopCSSCoverage() : [];
+
+      const lines: string[] = [];
+      const elapsed = Date.now() - session.startedAt;
+      lines.push(`Profile: ${page.url()} (recorded ${formatMs(elapsed)})`);
+      if (session.tabId !== undefined) {
+        lines[0] += ` [tab ${session.tabId}]`;
+      }
+
+      if (profile) {
+        const cpu = summarizeCpuProfile(profile, top);
+        lines.push('');
+        lines.push(`CPU: ${formatMs(cpu.totalMs)} total — idle ${formatMs(cpu.idleMs)}, program ${formatMs(cpu.programMs)}, GC ${formatMs(cpu.gcMs)}`);
+        if (cpu.top.length === 0) {
+          lines.push('No JavaScript samples recorded (page was idle while profiling).');
+        } else {
+          lines.push('Top functions by self time:');
+          for (const fn of cpu.top) {
+            lines.push(`  ${formatMs(fn.selfMs).padStart(7)}  ${fn.functionName}  ${fn.location}`);
+          }
+        }
+      }
+
+      if (session.coverage) {
+        lines.push('');
+        lines.push(...formatCoverageLines('JS coverage', summarizeJsCoverage(jsCoverage), top));
+        lines.push(...formatCoverageLines('CSS coverage', summarizeCssCoverage(cssCoverage), top));
+      }
+
+      const { getScreenshotsDir } = await import('../../../toolHandler.js');
+      const outDir = path.join(path.dirname(getScreenshotsDir()), 'profiles');
+      const host = (() => { try { return new URL(page.url()).hostname.replace(/[^a-zA-Z0-9._-]/g, '-'); } catch { return ''; } })() || 'page';
+      const ts = new Date().toISOString().replace(/[:.]/g, '-');
+
+      const profileJson = profile ? JSON.stringify(profile) : '';
+      const coverageJson = session.coverage ? JSON.stringify({ js: jsCoverage, css: cssCoverage }) : '';
+
+      const thunk = async (): Promise<string> => {
+        if (!fs.existsSync(outDir)) {
+          fs.mkdirSync(outDir, { recursive: true });
+        }
+        const messages: string[] = [];
+        if (profileJson) {
+          const file = path.join(outDir, `${ts}-${host}.cpuprofile`);
+          fs.writeFileSync(file, profileJson, 'utf8');
+          messages.push(`✓ Saved CPU profile to: ${path.relative(process.cwd(), file)} (${profileJson.length} bytes, open in Chrome DevTools > Performance)`);
+        }
+        if (coverageJson) {
+          const file = path.join(outDir, `${ts}-${host}.coverage.json`);
+          fs.writeFileSync(file, coverageJson, 'utf8');
+          messages.push(`✓ Saved coverage to: ${path.relative(process.cwd(), file)} (${coverageJson.length} bytes)`);
+        }
+        messages.push('');
+        messages.push(`Paths above are relative to the current working directory: ${process.cwd()}`);
+        return messages.join('\n');
+      };
+
+      const preview = makeConfirmPreview(thunk, {
+        counts: { totalLength: profileJson.length + coverageJson.length, truncated: true },
+        previewLines: [
+          'Full profile and coverage are saved only on confirm.',
+          `Output directory: ${path.relative(process.cwd(), outDir)}`,
+        ],
+      });
+
+      lines.push('');
+      lines.push(...preview.lines);
+
+      return {
+        content: [{ type: 'text', text: lines.join('\n') }],
+        isError: false,
+      };
+    } catch (error) {
+      await cdp?.detach().catch(() => {});
+      return createErrorResponse(`Failed to stop profiling: ${(error as Error).message}`);
+    }
+  }
+}
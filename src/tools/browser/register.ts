@@ -6,8 +6,20 @@ import { GoHistoryTool } from './navigation/history.js';
 import { ScrollToElementTool } from './navigation/scroll_to_element.js';
 import { ScrollByTool } from './navigation/scroll_by.js';
 
+// Tabs
+import { ListTabsTool } from './tabs/list_tabs.js';
+import { NewTabTool } from './tabs/new_tab.js';
+import { SwitchTabTool } from './tabs/switch_tab.js';
+import { CloseTabTool } from './tabs/close_tab.js';
+
+// Contexts
+import { CreateContextTool } from './contexts/create_context.js';
+import { ListContextsTool } from './contexts/list_contexts.js';
+import { DestroyContextTool } from './contexts/destroy_context.js';
+
 // Lifecycle
 import { CloseTool } from './lifecycle/close.js';
+import { ConnectBrowserTool } from './lifecycle/connect_browser.js';
 import { SetColorSchemeTool } from './lifecycle/set_color_scheme.js';
 
 // Interaction
@@ -35,6 +47,9 @@ import { InspectAncestorsTool } from './inspection/inspect_ancestors.js';
 import { ElementExistsTool } from './inspection/element_exists.js';
 import { MeasureElementTool } from './inspection/measure_element.js';
 import { GetComputedStylesTool } from './inspection/get_computed_styles.js';
+import { AuditAccessibilityTool } from './inspection/audit_accessibility.js';
+import { CheckContrastTool } from './inspection/check_contrast.js';
+import { InspectAccessibilityTreeTool } from './inspection/inspect_accessibility_tree.js';
 
 // Evaluation
 import { EvaluateTool } from './evaluation/evaluate.js';
@@ -45,6 +60,17 @@ import { GetConsoleLogsTool, ClearConsoleLogsTool } from './console/get_console_
 // Network
 import { ListNetworkRequestsTool } from './network/list_network_requests.js';
 import { GetRequestDetailsTool } from './network/get_request_details.js';
+import { MockRouteTool } from './network/mock_route.js';
+import { UnmockRouteTool } from './network/unmock_route.js';
+import { ListRoutesTool } from './network/list_routes.js';
+import { ExportHarTool } from './network/export_har.js';
+import { ReplayHarTool } from './network/replay_har.js';
+import { SearchNetworkBodiesTool } from './network/search_network_bodies.js';
+
+// Performance
+import { GetPerformanceMetricsTool } from './performance/get_performance_metrics.js';
+import { StartProfilingTool } from './performance/start_profiling.js';
+import { StopProfilingTool } from './performance/stop_profiling.js';
 
 // Waiting
 import { WaitForElementTool } from './waiting/wait_for_element.js';
@@ -57,8 +83,20 @@ export const BROWSER_TOOL_CLASSES: ToolClass[] = [
   ScrollToElementTool,
   ScrollByTool,
 
-  // Lifecycle (2)
+  // Tabs (4)
+  ListTabsTool,
+  NewTabTool,
+  SwitchTabTool,
+  CloseTabTool,
+
+  // Contexts (3)
+  CreateContextTool,
+  ListContextsTool,
+  DestroyContextTool,
+
+  // Lifecycle (3)
   CloseTool,
+  ConnectBrowserTool,
   SetColorSchemeTool,
 
   // Interaction (7)
@@ -75,7 +113,7 @@ export const BROWSER_TOOL_CLASSES: ToolClass[] = [
   GetTextTool,
   GetHtmlTool,
 
-  // Inspection (10)
+  // Inspection (13)
   InspectDomTool,
   GetTestIdsTool,
   QuerySelectorTool,
@@ -86,6 +124,9 @@ export const BROWSER_TOOL_CLASSES: ToolClass[] = [
   ElementExistsTool,
   MeasureElementTool,
   GetComputedStylesTool,
+  AuditAccessibilityTool,
+  CheckContrastTool,
+  InspectAccessibilityTreeTool,
 
   // Evaluation (1)
   EvaluateTool,
@@ -94,9 +135,20 @@ export const BROWSER_TOOL_CLASSES: ToolClass[] = [
   GetConsoleLogsTool,
   ClearConsoleLogsTool,
 
-  // Network (2)
+  // Network (8)
   ListNetworkRequestsTool,
   GetRequestDetailsTool,
+  SearchNetworkBodiesTool,
+  MockRouteTool,
+  UnmockRouteTool,
+  ListRoutesTool,
+  ExportHarTool,
+  ReplayHarTool,
+
+  // Performance (3)
+  GetPerformanceMetricsTool,
+  StartProfilingTool,
+  StopProfilingTool,
 
   // Waiting (2)
   WaitForElementTool,
@@ -0,0 +1,84 @@
+import { handleToolCall, getNetworkLog } from '../../../../toolHandler.js';
+import { jest } from '@jest/globals';
+
+const mockServer = {
+  sendMessage: jest.fn(),
+  notification: jest.fn()
+};
+
+const textOf = (result: any): string => result.content.map((c: any) => c.text).join('\n');
+
+const pageWithLog = (title: string, message: string) => {
+  const html = `<!DOCTYPE html><html><head><title>${title}</title></head><body><h1>${title}</h1><script>console.log('${message}');</script></body></html>`;
+  return `data:text/html;base64,${Buffer.from(html).toString('base64')}`;
+};
+
+describe('Tab management tools', () => {
+  afterEach(async () => {
+    await handleToolCall('close', {}, mockServer);
+  });
+
+  test('new_tab opens and activates a tab, list_tabs marks it active', async () => {
+    await handleToolCall('navigate', { url: pageWithLog('First', 'first-page'), headless: true }, mockServer);
+
+    const opened = await handleToolCall('new_tab', { url: pageWithLog('Second', 'second-page') }, mockServer);
+    expect(opened.isError).toBe(false);
+    expect(textOf(opened)).toContain('Opened tab [2]');
+
+    const list = await handleToolCall('list_tabs', {}, mockServer);
+    const listText = textOf(list);
+    expect(listText).toContain('Tabs (2 open, active: [2])');
+    expect(listText).toContain('→ [2]');
+    expect(listText).toContain('"First"');
+  }, 30000);
+
+  test('switch_tab re-points console logs to the active tab', async () => {
+    await handleToolCall('navigate', { url: pageWithLog('First', 'first-page'), headless: true }, mockServer);
+    await handleToolCall('new_tab', { url: pageWithLog('Second', 'second-page') }, mockServer);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const secondLogs = textOf(await handleToolCall('get_console_logs', { since: 'last-navigation' }, mockServer));
+    expect(secondLogs).toContain('second-page');
+    expect(secondLogs).not.toContain('first-page');
+
+    const switched = await handleToolCall('switch_tab', { id: 1 }, mockServer);
+    expect(switched.isError).toBe(false);
+    expect(textOf(switched)).toContain('Title: First');
+
+    const firstLogs = textOf(await handleToolCall('get_console_logs', { since: 'last-call' }, mockServer));
+    expect(firstLogs).toContain('first-page');
+    expect(firstLogs).not.toContain('second-page');
+  }, 30000);
+
+  test('tabs opened by the page are tracked automatically', async () => {
+    await handleToolCall('navigate', { url: 'about:blank', headless: true }, mockServer);
+    await handleToolCall('evaluate', { script: "window.open('about:blank'); 'ok'" }, mockServer);
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    const listText = textOf(await handleToolCall('list_tabs', {}, mockServer));
+    expect(listText).toContain('[2] about:blank');
+    expect(listText).toContain('(opened by [1])');
+    // Active tab does not change on popups
+    expect(listText).toContain('active: [1]');
+  }, 30000);
+
+  test('close_tab falls back to the remaining tab and keeps its network log', async () => {
+    await handleToolCall('navigate', { url: pageWithLog('First', 'first-page'), headless: true }, mockServer);
+    const firstLogLength = getNetworkLog().length;
+    await handleToolCall('new_tab', {}, mockServer);
+    expect(getNetworkLog().length).toBe(0);
+
+    const closed = await handleToolCall('close_tab', {}, mockServer);
+    expect(closed.isError).toBe(false);
+    expect(textOf(closed)).toContain('Closed tab [2]');
+    expect(textOf(closed)).toContain('Active tab: [1]');
+    expect(getNetworkLog().length).toBe(firstLogLength);
+  }, 30000);
+
+  test('switch_tab reports unknown tab IDs', async () => {
+    await handleToolCall('navigate', { url: 'about:blank', headless: true }, mockServer);
+    const result = await handleToolCall('switch_tab', { id: 42 }, mockServer);
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain('Tab 42 not found');
+  }, 30000);
+});
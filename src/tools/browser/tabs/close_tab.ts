@@ -0,0 +1,37 @@
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse } from '../../common/types.js';
+
+/**
+ * Tool for closing a single tab
+ */
+export class CloseTabTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "close_tab",
+      description: "Close a tab by ID (defaults to the active tab). When the active tab is closed, the most recently opened remaining tab becomes active. Use close to shut down the whole browser.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          id: { type: "number", description: "Tab ID from list_tabs output. Omit to close the active tab." },
+        },
+        required: [],
+      },
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async () => {
+      const { closeTab } = await import('../../../toolHandler.js');
+      const { closedId, active } = await closeTab(typeof args.id === 'number' ? args.id : undefined);
+
+      const lines = [`Closed tab [${closedId}]`];
+      if (active) {
+        lines.push(`Active tab: [${active.id}] ${active.page.url()}`);
+      } else {
+        lines.push('No tabs left open; the next browser tool call opens a new one.');
+      }
+
+      return createSuccessResponse(lines);
+    });
+  }
+}
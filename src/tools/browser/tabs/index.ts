@@ -0,0 +1,4 @@
+export { ListTabsTool } from './list_tabs.js';
+export { NewTabTool } from './new_tab.js';
+export { SwitchTabTool } from './switch_tab.js';
+export { CloseTabTool } from './close_tab.js';
@@ -0,0 +1,85 @@
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse } from '../../common/types.js';
+
+/**
+ * Tool for listing open browser tabs (including popups opened by the page)
+ */
+export class ListTabsTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "list_tabs",
+      description: "List open tabs of the selected browser context, including popups and tabs opened by the page (target=_blank, window.open, OAuth flows). Shows tab ID, URL, title and which tab is active (→). All other tools operate on the active tab; use switch_tab to change it.",
+      outputs: [
+        "Header: Tabs (N open, active: [id])",
+        "One line per tab: → marks the active tab, [id] URL \"Title\", (opened by [id]) for popups",
+      ],
+      examples: [
+        "list_tabs({})",
+      ],
+      exampleOutputs: [
+        {
+          call: "list_tabs({})",
+          output: `Tabs (2 open, active: [2]):\n  [1] https://app.example.com/login "Login"\n→ [2] https://accounts.example.com/oauth "Sign in" (opened by [1])`
+        }
+      ],
+      inputSchema: {
+        type: "object",
+        properties: {},
+        required: [],
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          activeTabId: { type: ["number", "null"] },
+          tabs: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "number" },
+                url: { type: "string" },
+                title: { type: "string" },
+                active: { type: "boolean" },
+                openerId: { type: ["number", "null"], description: "Tab that opened this one (popups)" },
+              },
+              required: ["id", "url", "title", "active", "openerId"],
+            },
+          },
+        },
+        required: ["activeTabId", "tabs"],
+      },
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async () => {
+      const { listTabs } = await import('../../../toolHandler.js');
+      const tabs = await listTabs();
+
+      if (tabs.length === 0) {
+        return createSuccessResponse("No open tabs", { activeTabId: null, tabs: [] });
+      }
+
+      const active = tabs.find(t => t.active);
+      const lines = [`Tabs (${tabs.length} open${active ? `, active: [${active.id}]` : ''}):`];
+      for (const tab of tabs) {
+        lines.push(formatTabLine(tab));
+      }
+      return createSuccessResponse(lines.join('\n'), {
+        activeTabId: active?.id ?? null,
+        tabs: tabs.map(tab => ({ id: tab.id, url: tab.url, title: tab.title, active: tab.active, openerId: tab.openerId ?? null })),
+      });
+    });
+  }
+}
+
+/**
+ * Format a single tab line: "→ [2] https://… "Title" (opened by [1])"
+ */
+export function formatTabLine(tab: { id: number; url: string; title: string; active: boolean; openerId?: number }): string {
+  const marker = tab.active ? '→ ' : '  ';
+  const url = tab.url.length > 100 ? tab.url.substring(0, 97) + '...' : tab.url;
+  const title = tab.title ? ` "${tab.title}"` : '';
+  const opener = tab.openerId !== undefined ? ` (opened by [${tab.openerId}])` : '';
+  return `${marker}[${tab.id}] ${url}${title}${opener}`;
+}
@@ -0,0 +1,47 @@
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse, createErrorResponse } from '../../common/types.js';
+
+/**
+ * Tool for opening a new tab in the current browser context
+ */
+export class NewTabTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "new_tab",
+      description: "Open a new tab in the current browser session (shares cookies and storage) and make it the active tab. Optionally navigate it to a URL. The previous tab stays open with its console and network history; use switch_tab to go back.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          url: { type: "string", description: "Optional URL to open in the new tab" },
+          timeout: { type: "number", description: "Navigation timeout in milliseconds (default: 30000)" },
+        },
+        required: [],
+      },
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async () => {
+      const { openNewTab, getTimeouts, checkNavigationUrl, recordBlockedNavigation } = await import('../../../toolHandler.js');
+      const refusal = args.url ? checkNavigationUrl(args.url) : null;
+      if (refusal) {
+        recordBlockedNavigation(args.url, refusal);
+        return createErrorResponse(`Navigation to ${args.url} blocked by URL policy: ${refusal}`);
+      }
+      const tab = await openNewTab();
+
+      const lines = [`Opened tab [${tab.id}] (now active)`];
+      if (args.url) {
+        this.recordNavigation();
+        await tab.page.goto(args.url, { timeout: args.timeout || getTimeouts().navigation, waitUntil: 'load' });
+        lines.push(`Navigated to ${args.url}`);
+        try {
+          const title = await tab.page.title();
+          if (title) lines.push(`Title: ${title}`);
+        } catch {}
+      }
+
+      return createSuccessResponse(lines);
+    });
+  }
+}
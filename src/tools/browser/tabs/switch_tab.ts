@@ -0,0 +1,40 @@
+import { BrowserToolBase } from '../base.js';
+import { ToolContext, ToolResponse, ToolMetadata, SessionConfig, createSuccessResponse, createErrorResponse } from '../../common/types.js';
+
+/**
+ * Tool for switching the active tab
+ */
+export class SwitchTabTool extends BrowserToolBase {
+  static getMetadata(sessionConfig?: SessionConfig): ToolMetadata {
+    return {
+      name: "switch_tab",
+      description: "Switch the active tab by ID (from list_tabs). All subsequent tools, console logs and network requests refer to the active tab; each tab keeps its own log history.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          id: { type: "number", description: "Tab ID from list_tabs output (e.g., 2 for [2])" },
+        },
+        required: ["id"],
+      },
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (typeof args.id !== 'number') {
+      return createErrorResponse("Tab id is required (number from list_tabs)");
+    }
+
+    return this.safeExecute(context, async () => {
+      const { switchToTab } = await import('../../../toolHandler.js');
+      const tab = await switchToTab(args.id);
+
+      const lines = [`Switched to tab [${tab.id}]`, `URL: ${tab.page.url()}`];
+      try {
+        const title = await tab.page.title();
+        if (title) lines.push(`Title: ${title}`);
+      } catch {}
+
+      return createSuccessResponse(lines);
+    });
+  }
+}
@@ -1,5 +1,6 @@
 import { BrowserToolBase } from '../base.js';
 import { ToolContext, ToolResponse, ToolMetadata, SessionConfig } from '../../common/types.js';
+import { ToolCancelledError, waitInSlices, withElapsedProgress } from '../../common/progress.js';
 
 export interface WaitForElementArgs {
   selector: string;
@@ -36,7 +37,8 @@ export class WaitForElementTool extends BrowserToolBase {
 
   async execute(args: WaitForElementArgs, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
-      const { selector, state = 'visible', timeout = 10000 } = args;
+      const { getTimeouts } = await import('../../../toolHandler.js');
+      const { selector, state = 'visible', timeout = getTimeouts().waitForElement } = args;
 
       const normalizedSelector = this.normalizeSelector(selector);
       const locator = page.locator(normalizedSelector);
@@ -44,7 +46,12 @@ export class WaitForElementTool extends BrowserToolBase {
       const startTime = Date.now();
 
       try {
-        await locator.waitFor({ state, timeout });
+        await withElapsedProgress(
+          context,
+          `waiting for ${selector} to be ${state}`,
+          () => waitInSlices(slice => locator.waitFor({ state, timeout: slice }), timeout, context.signal),
+          { totalMs: timeout }
+        );
         const duration = ((Date.now() - startTime) / 1000).toFixed(1);
 
         // Check current state
@@ -62,6 +69,7 @@ export class WaitForElementTool extends BrowserToolBase {
           isError: false,
         };
       } catch (error) {
+        if (error instanceof ToolCancelledError) throw error;
         const duration = ((Date.now() - startTime) / 1000).toFixed(1);
         const errorMessage = error instanceof Error ? error.message : String(error);
 
@@ -1,5 +1,6 @@
 import { BrowserToolBase } from '../base.js';
 import { ToolContext, ToolResponse, ToolMetadata, SessionConfig } from '../../common/types.js';
+import { ToolCancelledError, waitInSlices, withElapsedProgress } from '../../common/progress.js';
 
 export interface WaitForNetworkIdleArgs {
   timeout?: number;
@@ -25,13 +26,19 @@ export class WaitForNetworkIdleTool extends BrowserToolBase {
 
   async execute(args: WaitForNetworkIdleArgs, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
-      const { timeout = 10000 } = args;
+      const { getTimeouts } = await import('../../../toolHandler.js');
+      const { timeout = getTimeouts().networkIdle } = args;
 
       const startTime = Date.now();
 
       try {
         // Wait for network to be idle (no network connections for at least 500ms)
-        await page.waitForLoadState('networkidle', { timeout });
+        await withElapsedProgress(
+          context,
+          'waiting for network idle',
+          () => waitInSlices(slice => page.waitForLoadState('networkidle', { timeout: slice }), timeout, context.signal),
+          { totalMs: timeout }
+        );
 
         const duration = Date.now() - startTime;
 
@@ -43,6 +50,7 @@ export class WaitForNetworkIdleTool extends BrowserToolBase {
           isError: false,
         };
       } catch (error) {
+        if (error instanceof ToolCancelledError) throw error;
         const duration = Date.now() - startTime;
         const errorMessage = error instanceof Error ? error.message : String(error);
 
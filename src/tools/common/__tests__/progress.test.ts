@@ -0,0 +1,83 @@
+import { describe, it, expect } from '@jest/globals';
+import { cancellable, createProgressReporter, ToolCancelledError, waitInSlices } from '../progress.js';
+
+function timeoutError(ms: number): Error {
+  const error = new Error(`Timeout ${ms}ms exceeded.`);
+  error.name = 'TimeoutError';
+  return error;
+}
+
+describe('createProgressReporter', () => {
+  it('does nothing without a progress token', () => {
+    expect(createProgressReporter(undefined, async () => {})).toBeUndefined();
+  });
+
+  it('sends increasing progress with the message', () => {
+    const sent: any[] = [];
+    const report = createProgressReporter('tok', async (notification) => { sent.push(notification); })!;
+    report('first');
+    report('second', 1500, 10000);
+    report('third', 1000, 10000);
+
+    expect(sent.map(n => n.params.progress)).toEqual([1, 1500, 1501]);
+    expect(sent[1]).toEqual({
+      method: 'notifications/progress',
+      params: { progressToken: 'tok', progress: 1500, total: 10000, message: 'second' },
+    });
+  });
+});
+
+describe('cancellable', () => {
+  it('passes results through when not cancelled', async () => {
+    const controller = new AbortController();
+    await expect(cancellable(Promise.resolve(42), controller.signal)).resolves.toBe(42);
+  });
+
+  it('rejects as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const never = new Promise<number>(() => {});
+    const pending = cancellable(never, controller.signal);
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(ToolCancelledError);
+  });
+});
+
+describe('waitInSlices', () => {
+  it('waits once for the full timeout when the call cannot be cancelled', async () => {
+    const slices: number[] = [];
+    await waitInSlices(async (slice) => { slices.push(slice); }, 5000, undefined, 10);
+    expect(slices).toEqual([5000]);
+  });
+
+  it('retries slice timeouts until the wait succeeds', async () => {
+    let calls = 0;
+    await waitInSlices(async (slice) => {
+      calls++;
+      if (calls < 3) throw timeoutError(slice);
+    }, 5000, new AbortController().signal, 10);
+    expect(calls).toBe(3);
+  });
+
+  it('reports the overall timeout once the deadline passes', async () => {
+    await expect(waitInSlices(async (slice) => {
+      await new Promise(resolve => setTimeout(resolve, slice));
+      throw timeoutError(slice);
+    }, 50, new AbortController().signal, 20)).rejects.toThrow('Timeout 50ms exceeded');
+  });
+
+  it('stops between slices when cancelled', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const waiting = waitInSlices(async (slice) => {
+      calls++;
+      if (calls === 2) controller.abort();
+      throw timeoutError(slice);
+    }, 5000, controller.signal, 10);
+    await expect(waiting).rejects.toBeInstanceOf(ToolCancelledError);
+    expect(calls).toBe(2);
+  });
+
+  it('rethrows errors other than timeouts', async () => {
+    await expect(waitInSlices(async () => { throw new Error('Invalid selector'); }, 5000, new AbortController().signal)).rejects.toThrow('Invalid selector');
+  });
+});
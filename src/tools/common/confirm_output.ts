@@ -1,10 +1,16 @@
 import type { ToolHandler, ToolContext, ToolResponse, ToolMetadata, SessionConfig } from './types.js';
 import { createSuccessResponse, createErrorResponse } from './types.js';
+import { getSessionSlot } from '../../session.js';
+import { cancellable, ToolCancelledError } from './progress.js';
 
-// One-time token store for deferred payload generation (closures)
-type PayloadThunk = () => Promise<string> | string;
+// One-time token store for deferred payload generation (closures).
+// Thunks get the confirm_output call's context for its progress reporter and abort signal.
+type PayloadThunk = (context?: ToolContext) => Promise<string> | string;
 
-const STORE = new Map<string, { thunk: PayloadThunk; expiresAt: number }>();
+// Tokens belong to the client session that received them
+function getStore(): Map<string, { thunk: PayloadThunk; expiresAt: number }> {
+  return getSessionSlot('confirmTokens', () => new Map<string, { thunk: PayloadThunk; expiresAt: number }>());
+}
 
 function now() {
   return Date.now();
@@ -12,8 +18,9 @@ function now() {
 
 function purgeExpired(): void {
   const t = now();
-  for (const [k, v] of STORE.entries()) {
-    if (v.expiresAt <= t) STORE.delete(k);
+  const store = getStore();
+  for (const [k, v] of store.entries()) {
+    if (v.expiresAt <= t) store.delete(k);
   }
 }
 
@@ -25,15 +32,16 @@ export function registerPayloadThunk(thunk: PayloadThunk, ttlMs = 120000): strin
   purgeExpired();
   const token = genToken();
   const expiresAt = now() + Math.max(1000, ttlMs);
-  STORE.set(token, { thunk, expiresAt });
+  getStore().set(token, { thunk, expiresAt });
   return token;
 }
 
 export function consumeThunk(token: string): { ok: true; thunk: PayloadThunk } | { ok: false; error: string } {
   purgeExpired();
-  const entry = STORE.get(token);
+  const store = getStore();
+  const entry = store.get(token);
   if (!entry) return { ok: false, error: 'Invalid or expired token' };
-  STORE.delete(token);
+  store.delete(token);
   if (entry.expiresAt <= now()) return { ok: false, error: 'Invalid or expired token' };
   return { ok: true, thunk: entry.thunk };
 }
@@ -132,9 +140,12 @@ export class ConfirmOutputTool implements ToolHandler {
     }
 
     try {
-      const out = await res.thunk();
+      const out = await cancellable(Promise.resolve(res.thunk(context)), context.signal);
       return createSuccessResponse(out);
     } catch (e) {
+      if (e instanceof ToolCancelledError) {
+        return createErrorResponse(`${e.message}. The token was used up; rerun the original tool for a new one.`);
+      }
       return createErrorResponse((e as Error).message || 'Failed to produce output');
     }
   }
@@ -0,0 +1,131 @@
+import type { ToolContext } from './types.js';
+
+/**
+ * Sends an MCP `notifications/progress` update for the current call.
+ * Without a total, progress is a running counter (the spec only requires it to increase).
+ */
+export type ProgressReporter = (message: string, progress?: number, total?: number) => void;
+
+/**
+ * Thrown when the client cancels a call (notifications/cancelled) while a tool is waiting
+ */
+export class ToolCancelledError extends Error {
+  constructor(message = 'Cancelled by client') {
+    super(message);
+    this.name = 'ToolCancelledError';
+  }
+}
+
+/**
+ * Builds a reporter for a request that carried `_meta.progressToken`.
+ * Returns undefined when the client did not ask for progress.
+ */
+export function createProgressReporter(
+  progressToken: string | number | undefined,
+  sendNotification: (notification: { method: 'notifications/progress'; params: any }) => Promise<void>
+): ProgressReporter | undefined {
+  if (progressToken === undefined) return undefined;
+  let last = 0;
+  return (message, progress, total) => {
+    last = Math.max(last + 1, progress ?? 0);
+    sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress: last, ...(total !== undefined ? { total: Math.max(total, last) } : {}), message },
+    }).catch(() => {
+      // The client may have gone away; progress is best-effort
+    });
+  };
+}
+
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new ToolCancelledError();
+  }
+}
+
+/**
+ * Resolves with the operation, or rejects with ToolCancelledError as soon as
+ * the signal aborts. A late rejection of the abandoned operation is swallowed.
+ */
+export function cancellable<T>(operation: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return operation;
+  if (signal.aborted) {
+    operation.catch(() => {});
+    return Promise.reject(new ToolCancelledError());
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      operation.catch(() => {});
+      reject(new ToolCancelledError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    operation.then(
+      (value) => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      (error) => { signal.removeEventListener('abort', onAbort); reject(error); }
+    );
+  });
+}
+
+/**
+ * Reports "<label>, Ns elapsed" every intervalMs while the operation runs.
+ * Pass totalMs (usually the timeout) so clients can render a bar.
+ */
+export async function withElapsedProgress<T>(
+  context: ToolContext,
+  label: string,
+  operation: () => Promise<T>,
+  options: { totalMs?: number; intervalMs?: number } = {}
+): Promise<T> {
+  const report = context.reportProgress;
+  if (!report) return operation();
+
+  const start = Date.now();
+  const timer = setInterval(() => {
+    const elapsed = Date.now() - start;
+    report(`${label}, ${Math.round(elapsed / 1000)}s elapsed`, elapsed, options.totalMs);
+  }, options.intervalMs ?? 1000);
+  timer.unref?.();
+  try {
+    return await operation();
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+/**
+ * Runs a Playwright wait in short slices so a cancelled call stops polling the
+ * page within one slice instead of running on until its own timeout.
+ * `wait` receives the slice timeout; Playwright TimeoutErrors between slices are retried.
+ * Without a signal there is nothing to stop for, so it is a single wait.
+ */
+export async function waitInSlices(
+  wait: (sliceTimeout: number) => Promise<unknown>,
+  timeout: number,
+  signal: AbortSignal | undefined,
+  sliceMs = 1000
+): Promise<void> {
+  if (!signal) {
+    await wait(timeout);
+    return;
+  }
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    throwIfCancelled(signal);
+    const remaining = deadline - Date.now();
+    const slice = Math.max(1, Math.min(sliceMs, remaining));
+    try {
+      await wait(slice);
+      return;
+    } catch (error) {
+      const timedOut = (error as Error)?.name === 'TimeoutError';
+      if (!timedOut) {
+        throw error;
+      }
+      if (Date.now() >= deadline) {
+        // Report the overall timeout, not the last slice
+        (error as Error).message = (error as Error).message.replace(/Timeout \d+ms exceeded/, `Timeout ${timeout}ms exceeded`);
+        throw error;
+      }
+    }
+  }
+}
@@ -3,11 +3,62 @@ import { createErrorResponse } from './types.js';
 import { BrowserToolBase } from '../browser/base.js';
 import { BROWSER_TOOL_CLASSES } from '../browser/register.js';
 import { ConfirmOutputTool } from './confirm_output.js';
+import { getSessionSlot } from '../../session.js';
 
 const toolClasses = new Map<string, ToolClass>();
-const toolInstances = new Map<string, ToolHandler>();
 const browserToolNames = new Set<string>();
 
+// Browser tools that manage contexts or the whole browser themselves and
+// therefore do not take the per-call `context` parameter
+const CONTEXT_AGNOSTIC_TOOLS = new Set(['close', 'connect_browser', 'create_context', 'list_contexts', 'destroy_context']);
+
+export type ToolProfile = 'readonly' | 'interactive' | 'full';
+export const TOOL_PROFILES: ToolProfile[] = ['readonly', 'interactive', 'full'];
+
+// Inspection only: load and look at pages, never act on them, run scripts,
+// rewrite traffic or write HAR and profile files
+const READONLY_TOOLS = [
+  'navigate', 'go_history', 'scroll_to_element', 'scroll_by',
+  'list_tabs', 'new_tab', 'switch_tab', 'close_tab', 'list_contexts',
+  'close', 'set_color_scheme',
+  'visual_screenshot_for_humans', 'get_text', 'get_html',
+  'inspect_dom', 'get_test_ids', 'query_selector', 'find_by_text', 'check_visibility',
+  'compare_element_alignment', 'inspect_ancestors', 'element_exists', 'measure_element',
+  'get_computed_styles', 'audit_accessibility', 'check_contrast', 'inspect_accessibility_tree',
+  'get_console_logs', 'clear_console_logs',
+  'list_network_requests', 'get_request_details', 'search_network_bodies', 'list_routes',
+  'get_performance_metrics',
+  'wait_for_element', 'wait_for_network_idle',
+  'confirm_output',
+];
+
+// Readonly plus what a user can do with mouse and keyboard, and exporting HAR
+// and profile files; still no evaluate, mocked routes, HAR replay or attaching
+// to other browsers
+const INTERACTIVE_TOOLS = [
+  ...READONLY_TOOLS,
+  'click', 'fill', 'select', 'hover', 'drag', 'press_key', 'upload_file',
+  'create_context', 'destroy_context', 'unmock_route',
+  'export_har', 'start_profiling', 'stop_profiling',
+];
+
+export interface ToolAccessOptions {
+  profile?: ToolProfile;
+  // Tools to enable on top of the profile (alone: only these tools)
+  tools?: string[];
+  // Tools to disable, applied last
+  excludeTools?: string[];
+}
+
+// Enabled tool names, or null when every registered tool is enabled
+let enabledToolNames: Set<string> | null = null;
+let toolAccessDescription = '';
+
+const CONTEXT_PARAMETER = {
+  type: 'string',
+  description: "Named browser context to run in (see create_context). Omit to use the default context.",
+};
+
 function registerTool(toolClass: ToolClass): void {
   const metadata = toolClass.getMetadata();
   toolClasses.set(metadata.name, toolClass);
@@ -22,12 +73,19 @@ export function registerTools(toolClassList: ToolClass[]): void {
   }
 }
 
+// Tool instances hold per-client state (console logs, screenshots), so each
+// client session gets its own set
+function getSessionToolInstances(): Map<string, ToolHandler> {
+  return getSessionSlot('toolInstances', () => new Map<string, ToolHandler>());
+}
+
 export function getToolInstance(name: string, server: any): ToolHandler | null {
   const toolClass = toolClasses.get(name);
   if (!toolClass) {
     return null;
   }
 
+  const toolInstances = getSessionToolInstances();
   if (!toolInstances.has(name)) {
     toolInstances.set(name, new toolClass(server));
   }
@@ -35,7 +93,64 @@ export function getToolInstance(name: string, server: any): ToolHandler | null {
   return toolInstances.get(name)!;
 }
 
+/**
+ * Restricts the exposed tools to a profile and/or explicit lists. Disabled
+ * tools are left out of createToolDefinitions and refused by executeTool.
+ * Throws on unknown profile or tool names.
+ */
+export function configureToolAccess(options: ToolAccessOptions): void {
+  const { profile, tools = [], excludeTools = [] } = options;
+  if (profile && !TOOL_PROFILES.includes(profile)) {
+    throw new Error(`Unknown tool profile "${profile}" (expected one of: ${TOOL_PROFILES.join(', ')})`);
+  }
+  const unknown = [...tools, ...excludeTools].filter(name => !toolClasses.has(name));
+  if (unknown.length) {
+    throw new Error(`Unknown tool name(s): ${unknown.join(', ')}`);
+  }
+
+  if (!profile && !tools.length && !excludeTools.length) {
+    enabledToolNames = null;
+    toolAccessDescription = '';
+    return;
+  }
+
+  const base = profile === 'readonly' ? READONLY_TOOLS
+    : profile === 'interactive' ? INTERACTIVE_TOOLS
+    : profile === 'full' || !tools.length ? Array.from(toolClasses.keys())
+    : [];
+  const enabled = new Set([...base, ...tools]);
+  // Truncated output of every tool is fetched through confirm_output
+  if (enabled.size) enabled.add('confirm_output');
+  for (const name of excludeTools) enabled.delete(name);
+
+  enabledToolNames = enabled;
+  toolAccessDescription = [
+    profile ? `profile "${profile}"` : '',
+    tools.length ? '--tools' : '',
+    excludeTools.length ? '--exclude-tools' : '',
+  ].filter(Boolean).join(', ');
+}
+
+export function isToolEnabled(name: string): boolean {
+  return !enabledToolNames || enabledToolNames.has(name);
+}
+
+/**
+ * Error message for a call to a registered but disabled tool, or null when the call may proceed
+ */
+export function getDisabledToolMessage(name: string): string | null {
+  if (!toolClasses.has(name) || isToolEnabled(name)) {
+    return null;
+  }
+  return `Tool "${name}" is disabled on this server (${toolAccessDescription}). Use one of the tools from tools/list instead.`;
+}
+
 export async function executeTool(name: string, args: any, context: any, server: any) {
+  const disabled = getDisabledToolMessage(name);
+  if (disabled) {
+    return createErrorResponse(disabled);
+  }
+
   const instance = getToolInstance(name, server);
   if (!instance) {
     return createErrorResponse(`Unknown tool: ${name}`);
@@ -45,9 +160,27 @@ export async function executeTool(name: string, args: any, context: any, server:
 }
 
 export function createToolDefinitions(sessionConfig?: SessionConfig): ToolMetadata[] {
-  return Array.from(toolClasses.values()).map(toolClass =>
-    toolClass.getMetadata(sessionConfig)
-  );
+  return Array.from(toolClasses.entries())
+    .filter(([name]) => isToolEnabled(name))
+    .map(([, toolClass]) => withContextParameter(toolClass.getMetadata(sessionConfig)));
+}
+
+// Every browser tool accepts an optional `context` name (see toolHandler.selectContext)
+function withContextParameter(metadata: ToolMetadata): ToolMetadata {
+  if (!browserToolNames.has(metadata.name) || CONTEXT_AGNOSTIC_TOOLS.has(metadata.name)) {
+    return metadata;
+  }
+  const properties = metadata.inputSchema.properties || {};
+  if ('context' in properties) {
+    return metadata;
+  }
+  return {
+    ...metadata,
+    inputSchema: {
+      ...metadata.inputSchema,
+      properties: { ...properties, context: CONTEXT_PARAMETER },
+    },
+  };
 }
 
 export function getBrowserToolNames(): string[] {
@@ -59,7 +192,7 @@ export function isBrowserTool(name: string): boolean {
 }
 
 export function clearToolInstances(): void {
-  toolInstances.clear();
+  getSessionToolInstances().clear();
 }
 
 registerTools(BROWSER_TOOL_CLASSES);
@@ -1,5 +1,8 @@
 import type { CallToolResult, TextContent, ImageContent, Tool } from '@modelcontextprotocol/sdk/types.js';
 import type { Page, Browser, APIRequestContext } from 'playwright';
+import type { ProgressReporter } from './progress.js';
+import type { UrlPolicy } from '../browser/navigation/urlPolicy.js';
+import type { RedactionConfig } from '../../redaction.js';
 
 // Session configuration (matches toolHandler.ts)
 export interface SessionConfig {
@@ -10,6 +13,22 @@ export interface SessionConfig {
   // When true, network tools may show more sensitive data (e.g., partial auth headers).
   // Defaults to false for safety; configured via CLI/session, not per-tool params.
   exposeSensitiveNetworkData?: boolean;
+  // Attach to an already running browser instead of launching one
+  // (Chrome DevTools Protocol URL, or a Playwright launchServer ws endpoint)
+  cdpEndpoint?: string;
+  wsEndpoint?: string;
+  // Defaults from web-inspector.config.json (see src/config.ts); tools fall back to built-ins
+  defaultBrowserType?: 'chromium' | 'firefox' | 'webkit';
+  defaultViewport?: { width: number; height: number };
+  defaultDevice?: string;
+  timeouts?: { navigation?: number; waitForElement?: number; networkIdle?: number };
+  testIdAttributes?: string[];
+  outputLimits?: { maxLength?: number; previewThreshold?: number; networkRequestLimit?: number };
+  networkCapture?: { logSize?: number; maxBodySize?: number };
+  // Redaction rules for network, console, evaluate and page output (see src/redaction.ts)
+  redaction?: RedactionConfig;
+  // Which URLs navigate, go_history, frames and popups may load
+  urlPolicy?: UrlPolicy;
 }
 
 // Context for tool execution
@@ -18,6 +37,10 @@ export interface ToolContext {
   browser?: Browser;
   apiContext?: APIRequestContext;
   server?: any;
+  // Aborted when the client cancels the call (notifications/cancelled)
+  signal?: AbortSignal;
+  // Set when the client passed a progressToken; see progress.ts
+  reportProgress?: ProgressReporter;
 }
 
 // Standard response format for all tools
@@ -28,6 +51,8 @@ export interface ToolResponse extends CallToolResult {
 
 // Tool metadata (MCP Tool definition) with optional documentation helpers
 // These extra fields are ignored by MCP clients but used by our README generator.
+// Tools that declare an `outputSchema` (from Tool) must return matching
+// `structuredContent` with every successful response.
 export interface ToolMetadata extends Tool {
   // Human-readable output description. Can be a single string or list of lines.
   outputs?: string | string[];
@@ -91,13 +116,21 @@ export function createErrorResponse(message: string): ToolResponse {
   };
 }
 
-export function createSuccessResponse(message: string | string[]): ToolResponse {
+/**
+ * Builds a successful response. Pass structuredContent (matching the tool's
+ * outputSchema) to give clients typed data next to the compact text.
+ */
+export function createSuccessResponse(message: string | string[], structuredContent?: Record<string, unknown>): ToolResponse {
   const messages = Array.isArray(message) ? message : [message];
-  return {
+  const response: ToolResponse = {
     content: messages.map(msg => ({
       type: "text",
       text: msg
     })),
     isError: false
   };
+  if (structuredContent) {
+    response.structuredContent = structuredContent;
+  }
+  return response;
 } 